@@ -0,0 +1,10 @@
+/*
+ * Public API of the custom element adapter. Importing this entry point registers
+ * the `<rounded-polygon-clip>` element.
+ */
+
+import { defineRoundedPolygonClipElement } from './rounded-polygon-clip-element';
+
+export * from './rounded-polygon-clip-element';
+
+defineRoundedPolygonClipElement();
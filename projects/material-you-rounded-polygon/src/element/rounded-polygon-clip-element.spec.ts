@@ -0,0 +1,63 @@
+import {
+    defineRoundedPolygonClipElement,
+    RoundedPolygonClipElement,
+    ROUNDED_POLYGON_CLIP_TAG_NAME
+} from './rounded-polygon-clip-element';
+
+describe('RoundedPolygonClipElement', () => {
+    let element: RoundedPolygonClipElement;
+
+    beforeAll(() => defineRoundedPolygonClipElement());
+
+    beforeEach(() => {
+        element = document.createElement(ROUNDED_POLYGON_CLIP_TAG_NAME);
+        element.style.display = 'block';
+    });
+
+    afterEach(() => element.remove());
+
+    it('should clip the element while it is connected', () => {
+        element.setAttribute('shape', 'cookie-8');
+        document.body.appendChild(element);
+
+        expect(element.style.getPropertyValue('clip-path')).toMatch(/^url\(/);
+        expect(element.children.length).toBe(1);
+
+        element.remove();
+        expect(element.style.getPropertyValue('clip-path')).toBe('');
+        expect(element.children.length).toBe(0);
+    });
+
+    it('should map the attributes to the properties', () => {
+        element.setAttribute('shape', '{ "cornerCount": 5, "innerRadiusRatio": 0.6 }');
+        element.setAttribute('fit', 'contain');
+        element.setAttribute('mode', 'shape');
+        element.setAttribute('morph-duration', '0');
+        element.setAttribute('morph-progress', '0.5');
+
+        expect(element.shape).toEqual({ cornerCount: 5, innerRadiusRatio: 0.6 });
+        expect(element.fit).toBe('contain');
+        expect(element.mode).toBe('shape');
+        expect(element.morphDuration).toBe(0);
+        expect(element.morphProgress).toBe(0.5);
+
+        element.removeAttribute('shape');
+        element.removeAttribute('morph-progress');
+        expect(element.shape).toEqual({});
+        expect(element.morphProgress).toBeNull();
+    });
+
+    it('should report invalid shape attributes', () => {
+        const warn = spyOn(console, 'warn');
+        element.setAttribute('shape', 'clover-4');
+        document.body.appendChild(element);
+
+        element.setAttribute('shape', '{ cornerCount: 5 }');
+
+        expect(warn).toHaveBeenCalledOnceWith(
+            `[${ROUNDED_POLYGON_CLIP_TAG_NAME}] The shape attribute is not a valid json configuration.`
+        );
+        expect(element.shape).toBe('clover-4');
+        expect(element.style.getPropertyValue('clip-path')).toMatch(/^url\(/);
+    });
+});
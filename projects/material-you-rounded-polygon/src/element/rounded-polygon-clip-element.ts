@@ -0,0 +1,218 @@
+import { Easing, EasingFunction } from '../lib/easing';
+import { RoundedPolygonError } from '../lib/rounded-polygon';
+import {
+    RoundedPolygonClip,
+    RoundedPolygonClipMode,
+    RoundedPolygonClipShape
+} from '../lib/rounded-polygon-clip';
+import { RoundedPolygonFit } from '../lib/rounded-polygon-shape';
+
+// the base class is not available in environments without a dom (e.g. server side rendering)
+const HTMLElementBase: typeof HTMLElement =
+    typeof HTMLElement !== 'undefined' ? HTMLElement : (class {} as typeof HTMLElement);
+
+/**
+ * The tag name of the {@link RoundedPolygonClipElement}.
+ */
+export const ROUNDED_POLYGON_CLIP_TAG_NAME = 'rounded-polygon-clip';
+
+/**
+ * A custom element which clips its content with a rounded polygon. It is the web component
+ * adapter of the {@link RoundedPolygonClip}.
+ *
+ * The `shape` attribute takes the name of a preset shape or a json configuration. The
+ * other attributes (`fit`, `mode`, `morph-duration` and `morph-progress`) correspond to the
+ * properties of the {@link RoundedPolygonClip}. The element is displayed inline by default,
+ * so it needs to be styled as a block (or inline-block) to get a size. Invalid shape
+ * attributes and corrections of the shape input are reported as console warnings.
+ *
+ * @example
+ *
+ * <rounded-polygon-clip shape="cookie-8" style="display: block; width: 200px; height: 200px">
+ *      <img src="https://picsum.photos/id/1081/400/400">
+ * </rounded-polygon-clip>
+ *
+ * <rounded-polygon-clip shape='{ "cornerCount": 5, "innerRadiusRatio": 0.6 }' fit="contain">
+ *      ...
+ * </rounded-polygon-clip>
+ */
+export class RoundedPolygonClipElement extends HTMLElementBase {
+    static get observedAttributes(): string[] {
+        return ['shape', 'fit', 'mode', 'morph-duration', 'morph-progress'];
+    }
+
+    // the clip path of the connected element
+    private _clip: RoundedPolygonClip | null = null;
+
+    private _shape: RoundedPolygonClipShape = {};
+    private _fit: RoundedPolygonFit = 'bounding-box';
+    private _mode: RoundedPolygonClipMode = 'svg';
+    private _morphDuration = 300;
+    private _morphEasing: EasingFunction = Easing.standard;
+    private _morphProgress: number | null = null;
+
+    /**
+     * The name of a preset shape or a (partial) configuration.
+     */
+    public get shape(): RoundedPolygonClipShape {
+        return this._shape;
+    }
+
+    public set shape(value: RoundedPolygonClipShape) {
+        this._shape = value;
+        if (this._clip) {
+            this._clip.shape = value;
+        }
+    }
+
+    /**
+     * The sizing mode of the clip path (see {@link RoundedPolygonFit}). Default is `bounding-box`.
+     */
+    public get fit(): RoundedPolygonFit {
+        return this._fit;
+    }
+
+    public set fit(value: RoundedPolygonFit) {
+        this._fit = value;
+        if (this._clip) {
+            this._clip.fit = value;
+        }
+    }
+
+    /**
+     * The output mode of the clip path (see {@link RoundedPolygonClipMode}). Default is `svg`.
+     */
+    public get mode(): RoundedPolygonClipMode {
+        return this._mode;
+    }
+
+    public set mode(value: RoundedPolygonClipMode) {
+        this._mode = value;
+        if (this._clip) {
+            this._clip.mode = value;
+        }
+    }
+
+    /**
+     * The duration of the morph between two shapes in milliseconds. Default is 300.
+     */
+    public get morphDuration(): number {
+        return this._morphDuration;
+    }
+
+    public set morphDuration(value: number) {
+        this._morphDuration = value;
+        if (this._clip) {
+            this._clip.morphDuration = value;
+        }
+    }
+
+    /**
+     * The easing function of the morph animation. Default is the material standard easing.
+     */
+    public get morphEasing(): EasingFunction {
+        return this._morphEasing;
+    }
+
+    public set morphEasing(value: EasingFunction) {
+        this._morphEasing = value;
+        if (this._clip) {
+            this._clip.morphEasing = value;
+        }
+    }
+
+    /**
+     * Manually controls the progress (number between 0 and 1) of the morph.
+     */
+    public get morphProgress(): number | null {
+        return this._morphProgress;
+    }
+
+    public set morphProgress(value: number | null) {
+        this._morphProgress = value;
+        if (this._clip) {
+            this._clip.morphProgress = value;
+        }
+    }
+
+    connectedCallback(): void {
+        this._clip = new RoundedPolygonClip(this, { onWarning: (message) => this.warn(message) });
+        this._clip.fit = this._fit;
+        this._clip.mode = this._mode;
+        this._clip.morphDuration = this._morphDuration;
+        this._clip.morphEasing = this._morphEasing;
+        this._clip.morphProgress = this._morphProgress;
+        this._clip.shape = this._shape;
+    }
+
+    disconnectedCallback(): void {
+        if (this._clip) {
+            this._clip.destroy();
+            this._clip = null;
+        }
+    }
+
+    attributeChangedCallback(name: string, _: string | null, value: string | null): void {
+        switch (name) {
+            case 'shape':
+                try {
+                    this.shape = parseShape(value);
+                } catch (e) {
+                    // invalid configurations keep the previous shape
+                    this.warn((e as Error).message);
+                }
+                break;
+            case 'fit':
+                this.fit = (value as RoundedPolygonFit) || 'bounding-box';
+                break;
+            case 'mode':
+                this.mode = (value as RoundedPolygonClipMode) || 'svg';
+                break;
+            case 'morph-duration':
+                this.morphDuration = value !== null ? Number(value) : 300;
+                break;
+            case 'morph-progress':
+                this.morphProgress = value !== null ? Number(value) : null;
+                break;
+        }
+    }
+
+    private warn(message: string): void {
+        console.warn(`[${ROUNDED_POLYGON_CLIP_TAG_NAME}] ${message}`);
+    }
+}
+
+/**
+ * Registers the {@link RoundedPolygonClipElement} as `<rounded-polygon-clip>`, unless
+ * the tag name is already defined (or custom elements are not supported).
+ */
+export function defineRoundedPolygonClipElement(): void {
+    if (
+        typeof customElements !== 'undefined' &&
+        !customElements.get(ROUNDED_POLYGON_CLIP_TAG_NAME)
+    ) {
+        customElements.define(ROUNDED_POLYGON_CLIP_TAG_NAME, RoundedPolygonClipElement);
+    }
+}
+
+// the shape attribute is either a preset name or a json configuration
+function parseShape(value: string | null): RoundedPolygonClipShape {
+    if (!value) {
+        return {};
+    }
+    if (!value.trim().startsWith('{')) {
+        return value as RoundedPolygonClipShape;
+    }
+
+    try {
+        return JSON.parse(value);
+    } catch {
+        throw new RoundedPolygonError('The shape attribute is not a valid json configuration.');
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'rounded-polygon-clip': RoundedPolygonClipElement;
+    }
+}
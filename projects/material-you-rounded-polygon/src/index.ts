@@ -0,0 +1,19 @@
+/*
+ * Public API of the framework independent core
+ */
+
+export * from './lib/vector2';
+export * from './lib/matrix2d';
+export * from './lib/easing';
+export * from './lib/rounded-polygon';
+export * from './lib/rounded-polygon-path';
+export * from './lib/rounded-polygon-compound';
+export * from './lib/rounded-polygon-boolean';
+export * from './lib/rounded-polygon-segment';
+export * from './lib/rounded-polygon-morph';
+export * from './lib/rounded-polygon-config';
+export * from './lib/rounded-polygon-shape';
+export * from './lib/rounded-polygon-clip';
+export * from './lib/rounded-polygon-registry';
+export * from './lib/rounded-polygon-outline';
+export * from './lib/rounded-polygon-json';
@@ -0,0 +1,90 @@
+/**
+ * An easing function maps the linear progress of an animation (number between 0 and 1)
+ * to the eased progress.
+ */
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Creates an easing function from the control points of a cubic bezier curve
+ * (equal to the css `cubic-bezier()` timing function).
+ *
+ * @param x1 The x coordinate of the first control point (number between 0 and 1)
+ * @param y1 The y coordinate of the first control point
+ * @param x2 The x coordinate of the second control point (number between 0 and 1)
+ * @param y2 The y coordinate of the second control point
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+    // polynomial coefficients of the curve with the start point (0, 0) and end point (1, 1)
+    const cx = 3 * x1;
+    const bx = 3 * (x2 - x1) - cx;
+    const ax = 1 - cx - bx;
+    const cy = 3 * y1;
+    const by = 3 * (y2 - y1) - cy;
+    const ay = 1 - cy - by;
+
+    const sampleX = (s: number) => ((ax * s + bx) * s + cx) * s;
+    const sampleY = (s: number) => ((ay * s + by) * s + cy) * s;
+    const sampleDerivativeX = (s: number) => (3 * ax * s + 2 * bx) * s + cx;
+
+    // find the curve parameter for the given x value
+    const solve = (x: number): number => {
+        // try a few newton iterations first
+        let s = x;
+        for (let i = 0; i < 8; i++) {
+            const dx = sampleX(s) - x;
+            if (Math.abs(dx) < 1e-7) {
+                return s;
+            }
+            const d = sampleDerivativeX(s);
+            if (Math.abs(d) < 1e-6) {
+                break;
+            }
+            s -= dx / d;
+        }
+
+        // fall back to bisection if newton did not converge
+        let lo = 0;
+        let hi = 1;
+        s = x;
+        while (hi - lo > 1e-7) {
+            if (sampleX(s) < x) {
+                lo = s;
+            } else {
+                hi = s;
+            }
+            s = (lo + hi) / 2;
+        }
+        return s;
+    };
+
+    return (t: number) => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return sampleY(solve(t));
+    };
+}
+
+/**
+ * A collection of common easing functions.
+ */
+export const Easing = {
+    linear: ((t: number) => t) as EasingFunction,
+
+    /**
+     * The material standard easing curve.
+     */
+    standard: cubicBezier(0.2, 0, 0, 1),
+
+    /**
+     * The material emphasized decelerate easing curve.
+     */
+    emphasizedDecelerate: cubicBezier(0.05, 0.7, 0.1, 1),
+
+    /**
+     * The material emphasized accelerate easing curve.
+     */
+    emphasizedAccelerate: cubicBezier(0.3, 0, 0.8, 0.15),
+
+    easeInOutCubic: ((t: number) =>
+        t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2) as EasingFunction
+};
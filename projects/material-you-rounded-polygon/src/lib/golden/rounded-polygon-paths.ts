@@ -0,0 +1,126 @@
+/**
+ * The svg path data snapshots of the preset shapes and of a grid of star configurations
+ * (`star-<cornerCount>-<innerRadiusRatio>-<cornerRadius>-<cornerSmoothing>`), see
+ * `rounded-polygon-shape.spec.ts`. The shapes are scaled to a square of the size 100 and
+ * the values are rounded to three decimal places.
+ */
+export const GOLDEN_PATHS: Record<string, string> = {
+    circle: 'M95.732,31.057A49.5,49.5,0,0,1,95.732,68.943L95.732,68.943A49.5,49.5,0,0,1,68.943,95.732L68.943,95.732A49.5,49.5,0,0,1,31.057,95.732L31.057,95.732A49.5,49.5,0,0,1,4.268,68.943L4.268,68.943A49.5,49.5,0,0,1,4.268,31.057L4.268,31.057A49.5,49.5,0,0,1,31.057,4.268L31.057,4.268A49.5,49.5,0,0,1,68.943,4.268L68.943,4.268A49.5,49.5,0,0,1,95.732,31.057L95.732,31.057',
+    square: 'M11.626,23.138A11.512,11.512,0,0,1,23.138,11.626L76.862,11.626A11.512,11.512,0,0,1,88.374,23.138L88.374,76.862A11.512,11.512,0,0,1,76.862,88.374L23.138,88.374A11.512,11.512,0,0,1,11.626,76.862L11.626,23.138',
+    'slanted-square':
+        'M11.748,25.078A20.417,20.417,0,0,1,34.352,7.112L74.922,11.748A20.417,20.417,0,0,1,92.888,34.352L88.252,74.922A20.417,20.417,0,0,1,65.648,92.888L25.078,88.252A20.417,20.417,0,0,1,7.112,65.648L11.748,25.078',
+    arch: 'M0.5,50A49.5,49.5,0,0,1,50,0.5L50,0.5A49.5,49.5,0,0,1,99.5,50L99.5,87.125A12.375,12.375,0,0,1,87.125,99.5L12.875,99.5A12.375,12.375,0,0,1,0.5,87.125L0.5,50',
+    fan: 'M0.5,7.925A7.425,7.425,0,0,1,7.925,0.5L50,0.5A49.5,49.5,0,0,1,99.5,50L99.5,50A49.5,49.5,0,0,1,50,99.5L50,99.5A49.5,49.5,0,0,1,0.5,50L0.5,7.925',
+    arrow: 'M42.87,5.091A7.832,7.832,0,0,1,57.13,5.091L89.251,75.756A5.53,5.53,0,0,1,81.879,83.055L52.338,69.27A5.53,5.53,0,0,0,47.662,69.27L18.121,83.055A5.53,5.53,0,0,1,10.749,75.756L42.87,5.091',
+    semicircle:
+        'M2.44,29.303A3.083,3.083,0,0,1,5.523,26.22L94.477,26.22A3.083,3.083,0,0,1,97.56,29.303L97.56,46.772A20.552,20.552,0,0,1,91.541,61.304L85.67,67.175A40.595,40.595,0,0,1,56.965,79.065L43.035,79.065A40.595,40.595,0,0,1,14.33,67.175L8.459,61.304A20.552,20.552,0,0,1,2.44,46.772L2.44,29.303',
+    oval: 'M84.517,15.483A24.218,24.218,0,0,1,91.083,37.633L89.234,46.353A40.643,40.643,0,0,1,78.214,66.658L66.658,78.214A40.643,40.643,0,0,1,46.353,89.234L37.633,91.083A24.218,24.218,0,0,1,15.483,84.517L15.483,84.517A24.218,24.218,0,0,1,8.917,62.367L10.766,53.647A40.643,40.643,0,0,1,21.786,33.342L33.342,21.786A40.643,40.643,0,0,1,53.647,10.766L62.367,8.917A24.218,24.218,0,0,1,84.517,15.483L84.517,15.483',
+    pill: 'M11.576,88.424A27.17,27.17,0,0,1,11.576,50L50,11.576A27.17,27.17,0,0,1,88.424,11.576L88.424,11.576A27.17,27.17,0,0,1,88.424,50L50,88.424A27.17,27.17,0,0,1,11.576,88.424L11.576,88.424',
+    triangle:
+        'M42.435,4.868A8.735,8.735,0,0,1,57.565,4.868L92.868,66.015A8.735,8.735,0,0,1,85.303,79.118L14.697,79.118A8.735,8.735,0,0,1,7.132,66.015L42.435,4.868',
+    diamond:
+        'M40.271,5.176A12.459,12.459,0,0,1,59.729,5.176L89.362,42.217A12.459,12.459,0,0,1,89.362,57.783L59.729,94.824A12.459,12.459,0,0,1,40.271,94.824L10.638,57.783A12.459,12.459,0,0,1,10.638,42.217L40.271,5.176',
+    clamshell:
+        'M95.852,39.282A17.571,17.571,0,0,1,95.852,60.718L82.327,78.288A17.571,17.571,0,0,1,68.404,85.141L31.596,85.141A17.571,17.571,0,0,1,17.673,78.288L4.148,60.718A17.571,17.571,0,0,1,4.148,39.282L17.673,21.712A17.571,17.571,0,0,1,31.596,14.859L68.404,14.859A17.571,17.571,0,0,1,82.327,21.712L95.852,39.282',
+    pentagon:
+        'M41.171,3.369A15.02,15.02,0,0,1,58.829,3.369L91.621,27.194A15.02,15.02,0,0,1,97.077,43.987L84.552,82.536A15.02,15.02,0,0,1,70.267,92.915L29.733,92.915A15.02,15.02,0,0,1,15.448,82.536L2.923,43.987A15.02,15.02,0,0,1,8.379,27.194L41.171,3.369',
+    gem: 'M36.295,4.518A25.381,25.381,0,0,1,63.705,4.518L86.464,19.118A12.691,12.691,0,0,1,92.302,29.8L92.302,70.2A12.691,12.691,0,0,1,86.464,80.882L63.705,95.482A25.381,25.381,0,0,1,36.295,95.482L13.536,80.882A12.691,12.691,0,0,1,7.698,70.2L7.698,29.8A12.691,12.691,0,0,1,13.536,19.118L36.295,4.518',
+    sunny: 'M97.363,44.197A8.946,8.946,0,0,1,97.363,55.803L90.539,63.81A8.946,8.946,0,0,0,88.431,68.901L87.594,79.387A8.946,8.946,0,0,1,79.387,87.594L68.901,88.431A8.946,8.946,0,0,0,63.81,90.539L55.803,97.363A8.946,8.946,0,0,1,44.197,97.363L36.19,90.539A8.946,8.946,0,0,0,31.099,88.431L20.613,87.594A8.946,8.946,0,0,1,12.406,79.387L11.569,68.901A8.946,8.946,0,0,0,9.461,63.81L2.637,55.803A8.946,8.946,0,0,1,2.637,44.197L9.461,36.19A8.946,8.946,0,0,0,11.569,31.099L12.406,20.613A8.946,8.946,0,0,1,20.613,12.406L31.099,11.569A8.946,8.946,0,0,0,36.19,9.461L44.197,2.637A8.946,8.946,0,0,1,55.803,2.637L63.81,9.461A8.946,8.946,0,0,0,68.901,11.569L79.387,12.406A8.946,8.946,0,0,1,87.594,20.613L88.431,31.099A8.946,8.946,0,0,0,90.539,36.19L97.363,44.197',
+    'very-sunny':
+        'M96.9,45.318A5.515,5.515,0,0,1,96.9,54.682L86.03,61.45A5.515,5.515,0,0,0,83.574,67.381L86.474,79.853A5.515,5.515,0,0,1,79.853,86.474L67.381,83.574A5.515,5.515,0,0,0,61.45,86.03L54.682,96.9A5.515,5.515,0,0,1,45.318,96.9L38.55,86.03A5.515,5.515,0,0,0,32.619,83.574L20.147,86.474A5.515,5.515,0,0,1,13.526,79.853L16.426,67.381A5.515,5.515,0,0,0,13.97,61.45L3.1,54.682A5.515,5.515,0,0,1,3.1,45.318L13.97,38.55A5.515,5.515,0,0,0,16.426,32.619L13.526,20.147A5.515,5.515,0,0,1,20.147,13.526L32.619,16.426A5.515,5.515,0,0,0,38.55,13.97L45.318,3.1A5.515,5.515,0,0,1,54.682,3.1L61.45,13.97A5.515,5.515,0,0,0,67.381,16.426L79.853,13.526A5.515,5.515,0,0,1,86.474,20.147L83.574,32.619A5.515,5.515,0,0,0,86.03,38.55L96.9,45.318',
+    'cookie-4':
+        'M87.057,17.182A49.5,49.5,0,0,1,87.057,82.818L87.057,82.818A49.5,49.5,0,0,1,82.818,87.057L82.818,87.057A49.5,49.5,0,0,1,17.182,87.057L17.182,87.057A49.5,49.5,0,0,1,12.943,82.818L12.943,82.818A49.5,49.5,0,0,1,12.943,17.182L12.943,17.182A49.5,49.5,0,0,1,17.182,12.943L17.182,12.943A49.5,49.5,0,0,1,82.818,12.943L82.818,12.943A49.5,49.5,0,0,1,87.057,17.182L87.057,17.182',
+    'cookie-6':
+        'M92.779,30.213A32.488,32.488,0,0,1,92.779,69.787L92.779,69.787A32.488,32.488,0,0,0,88.526,77.154L88.526,77.154A32.488,32.488,0,0,1,54.253,96.941L54.253,96.941A32.488,32.488,0,0,0,45.747,96.941L45.747,96.941A32.488,32.488,0,0,1,11.474,77.154L11.474,77.154A32.488,32.488,0,0,0,7.221,69.787L7.221,69.787A32.488,32.488,0,0,1,7.221,30.213L7.221,30.213A32.488,32.488,0,0,0,11.474,22.846L11.474,22.846A32.488,32.488,0,0,1,45.747,3.059L45.747,3.059A32.488,32.488,0,0,0,54.253,3.059L54.253,3.059A32.488,32.488,0,0,1,88.526,22.846L88.526,22.846A32.488,32.488,0,0,0,92.779,30.213L92.779,30.213',
+    'cookie-7':
+        'M94.154,34.826A24.208,24.208,0,0,1,94.154,65.174L94.154,65.174A24.208,24.208,0,0,0,89.393,75.061L89.393,75.061A24.208,24.208,0,0,1,65.667,93.982L65.667,93.982A24.208,24.208,0,0,0,54.968,96.424L54.968,96.424A24.208,24.208,0,0,1,25.381,89.671L25.381,89.671A24.208,24.208,0,0,0,16.802,82.829L16.802,82.829A24.208,24.208,0,0,1,3.635,55.487L3.635,55.487A24.208,24.208,0,0,0,3.635,44.513L3.635,44.513A24.208,24.208,0,0,1,16.802,17.171L16.802,17.171A24.208,24.208,0,0,0,25.381,10.329L25.381,10.329A24.208,24.208,0,0,1,54.968,3.576L54.968,3.576A24.208,24.208,0,0,0,65.667,6.018L65.667,6.018A24.208,24.208,0,0,1,89.393,24.939L89.393,24.939A24.208,24.208,0,0,0,94.154,34.826L94.154,34.826',
+    'cookie-8':
+        'M95.141,37.227A20.894,20.894,0,0,1,95.141,62.773L95.141,62.773A20.894,20.894,0,0,0,90.951,72.887L90.951,72.887A20.894,20.894,0,0,1,72.887,90.951L72.887,90.951A20.894,20.894,0,0,0,62.773,95.141L62.773,95.141A20.894,20.894,0,0,1,37.227,95.141L37.227,95.141A20.894,20.894,0,0,0,27.113,90.951L27.113,90.951A20.894,20.894,0,0,1,9.049,72.887L9.049,72.887A20.894,20.894,0,0,0,4.859,62.773L4.859,62.773A20.894,20.894,0,0,1,4.859,37.227L4.859,37.227A20.894,20.894,0,0,0,9.049,27.113L9.049,27.113A20.894,20.894,0,0,1,27.113,9.049L27.113,9.049A20.894,20.894,0,0,0,37.227,4.859L37.227,4.859A20.894,20.894,0,0,1,62.773,4.859L62.773,4.859A20.894,20.894,0,0,0,72.887,9.049L72.887,9.049A20.894,20.894,0,0,1,90.951,27.113L90.951,27.113A20.894,20.894,0,0,0,95.141,37.227L95.141,37.227',
+    'clover-4':
+        'M89.038,59.808A21.758,21.758,0,0,1,59.808,89.038L52.943,85.571A6.527,6.527,0,0,0,47.057,85.571L40.192,89.038A21.758,21.758,0,0,1,10.962,59.808L14.429,52.943A6.527,6.527,0,0,0,14.429,47.057L10.962,40.192A21.758,21.758,0,0,1,40.192,10.962L47.057,14.429A6.527,6.527,0,0,0,52.943,14.429L59.808,10.962A21.758,21.758,0,0,1,89.038,40.192L85.571,47.057A6.527,6.527,0,0,0,85.571,52.943L89.038,59.808',
+    'clover-8':
+        'M93.726,39.603A12.248,12.248,0,0,1,93.726,60.397L88.518,63.64A3.674,3.674,0,0,0,86.881,67.591L88.271,73.567A12.248,12.248,0,0,1,73.567,88.271L67.591,86.881A3.674,3.674,0,0,0,63.64,88.518L60.397,93.726A12.248,12.248,0,0,1,39.603,93.726L36.36,88.518A3.674,3.674,0,0,0,32.409,86.881L26.433,88.271A12.248,12.248,0,0,1,11.729,73.567L13.119,67.591A3.674,3.674,0,0,0,11.482,63.64L6.274,60.397A12.248,12.248,0,0,1,6.274,39.603L11.482,36.36A3.674,3.674,0,0,0,13.119,32.409L11.729,26.433A12.248,12.248,0,0,1,26.433,11.729L32.409,13.119A3.674,3.674,0,0,0,36.36,11.482L39.603,6.274A12.248,12.248,0,0,1,60.397,6.274L63.64,11.482A3.674,3.674,0,0,0,67.591,13.119L73.567,11.729A12.248,12.248,0,0,1,88.271,26.433L86.881,32.409A3.674,3.674,0,0,0,88.518,36.36L93.726,39.603',
+    burst: 'M98.988,49.128A1,1,0,0,1,98.988,50.872L85.074,58.657A1,1,0,0,0,84.703,60.04L92.861,73.739A1,1,0,0,1,91.989,75.25L76.047,75.034A1,1,0,0,0,75.034,76.047L75.25,91.989A1,1,0,0,1,73.739,92.861L60.04,84.703A1,1,0,0,0,58.657,85.074L50.872,98.988A1,1,0,0,1,49.128,98.988L41.343,85.074A1,1,0,0,0,39.96,84.703L26.261,92.861A1,1,0,0,1,24.75,91.989L24.966,76.047A1,1,0,0,0,23.953,75.034L8.011,75.25A1,1,0,0,1,7.139,73.739L15.297,60.04A1,1,0,0,0,14.926,58.657L1.012,50.872A1,1,0,0,1,1.012,49.128L14.926,41.343A1,1,0,0,0,15.297,39.96L7.139,26.261A1,1,0,0,1,8.011,24.75L23.953,24.966A1,1,0,0,0,24.966,23.953L24.75,8.011A1,1,0,0,1,26.261,7.139L39.96,15.297A1,1,0,0,0,41.343,14.926L49.128,1.012A1,1,0,0,1,50.872,1.012L58.657,14.926A1,1,0,0,0,60.04,15.297L73.739,7.139A1,1,0,0,1,75.25,8.011L75.034,23.953A1,1,0,0,0,76.047,24.966L91.989,24.75A1,1,0,0,1,92.861,26.261L84.703,39.96A1,1,0,0,0,85.074,41.343L98.988,49.128',
+    'soft-burst':
+        'M96.533,44.546A6.497,6.497,0,0,1,96.533,55.454L91.021,59.021A6.497,6.497,0,0,0,88.489,66.814L90.852,72.939A6.497,6.497,0,0,1,84.44,81.764L77.885,81.41A6.497,6.497,0,0,0,71.256,86.226L69.567,92.57A6.497,6.497,0,0,1,59.192,95.941L54.097,91.801A6.497,6.497,0,0,0,45.903,91.801L40.808,95.941A6.497,6.497,0,0,1,30.433,92.57L28.744,86.226A6.497,6.497,0,0,0,22.115,81.41L15.56,81.764A6.497,6.497,0,0,1,9.148,72.939L11.511,66.814A6.497,6.497,0,0,0,8.979,59.021L3.467,55.454A6.497,6.497,0,0,1,3.467,44.546L8.979,40.979A6.497,6.497,0,0,0,11.511,33.186L9.148,27.061A6.497,6.497,0,0,1,15.56,18.236L22.115,18.59A6.497,6.497,0,0,0,28.744,13.774L30.433,7.43A6.497,6.497,0,0,1,40.808,4.059L45.903,8.199A6.497,6.497,0,0,0,54.097,8.199L59.192,4.059A6.497,6.497,0,0,1,69.567,7.43L71.256,13.774A6.497,6.497,0,0,0,77.885,18.59L84.44,18.236A6.497,6.497,0,0,1,90.852,27.061L88.489,33.186A6.497,6.497,0,0,0,91.021,40.979L96.533,44.546',
+    boom: 'M99.077,49.509A0.496,0.496,0,0,1,99.077,50.491L72.84,54.379A0.496,0.496,0,0,0,72.647,55.289L95.033,69.513A0.496,0.496,0,0,1,94.634,70.41L69.084,63.291A0.496,0.496,0,0,0,68.538,64.043L83.203,86.142A0.496,0.496,0,0,1,82.474,86.799L62.029,69.904A0.496,0.496,0,0,0,61.223,70.369L65.632,96.523A0.496,0.496,0,0,1,64.699,96.826L52.893,73.076A0.496,0.496,0,0,0,51.968,73.173L45.358,98.859A0.496,0.496,0,0,1,44.382,98.756L43.257,72.257A0.496,0.496,0,0,0,42.373,71.97L25.887,92.747A0.496,0.496,0,0,1,25.037,92.256L34.787,67.591A0.496,0.496,0,0,0,34.096,66.968L10.585,79.244A0.496,0.496,0,0,1,10.008,78.449L28.948,59.882A0.496,0.496,0,0,0,28.569,59.032L2.098,60.684A0.496,0.496,0,0,1,1.894,59.723L26.748,50.465A0.496,0.496,0,0,0,26.748,49.535L1.894,40.277A0.496,0.496,0,0,1,2.098,39.316L28.569,40.968A0.496,0.496,0,0,0,28.948,40.118L10.008,21.551A0.496,0.496,0,0,1,10.585,20.756L34.096,33.032A0.496,0.496,0,0,0,34.787,32.409L25.037,7.744A0.496,0.496,0,0,1,25.887,7.253L42.373,28.03A0.496,0.496,0,0,0,43.257,27.743L44.382,1.244A0.496,0.496,0,0,1,45.358,1.141L51.968,26.827A0.496,0.496,0,0,0,52.893,26.924L64.699,3.174A0.496,0.496,0,0,1,65.632,3.477L61.223,29.631A0.496,0.496,0,0,0,62.029,30.096L82.474,13.201A0.496,0.496,0,0,1,83.203,13.858L68.538,35.957A0.496,0.496,0,0,0,69.084,36.709L94.634,29.59A0.496,0.496,0,0,1,95.033,30.487L72.647,44.711A0.496,0.496,0,0,0,72.84,45.621L99.077,49.509',
+    'soft-boom':
+        'M97.121,47.267A2.76,2.76,0,0,1,97.121,52.733L85.347,54.374A2.76,2.76,0,0,0,84.33,59.486L94.58,65.507A2.76,2.76,0,0,1,92.488,70.558L80.983,67.568A2.76,2.76,0,0,0,78.087,71.902L85.252,81.387A2.76,2.76,0,0,1,81.387,85.252L71.902,78.087A2.76,2.76,0,0,0,67.568,80.983L70.558,92.488A2.76,2.76,0,0,1,65.507,94.58L59.486,84.33A2.76,2.76,0,0,0,54.374,85.347L52.733,97.121A2.76,2.76,0,0,1,47.267,97.121L45.626,85.347A2.76,2.76,0,0,0,40.514,84.33L34.493,94.58A2.76,2.76,0,0,1,29.442,92.488L32.432,80.983A2.76,2.76,0,0,0,28.098,78.087L18.613,85.252A2.76,2.76,0,0,1,14.748,81.387L21.913,71.902A2.76,2.76,0,0,0,19.017,67.568L7.512,70.558A2.76,2.76,0,0,1,5.42,65.507L15.67,59.486A2.76,2.76,0,0,0,14.653,54.374L2.879,52.733A2.76,2.76,0,0,1,2.879,47.267L14.653,45.626A2.76,2.76,0,0,0,15.67,40.514L5.42,34.493A2.76,2.76,0,0,1,7.512,29.442L19.017,32.432A2.76,2.76,0,0,0,21.913,28.098L14.748,18.613A2.76,2.76,0,0,1,18.613,14.748L28.098,21.913A2.76,2.76,0,0,0,32.432,19.017L29.442,7.512A2.76,2.76,0,0,1,34.493,5.42L40.514,15.67A2.76,2.76,0,0,0,45.626,14.653L47.267,2.879A2.76,2.76,0,0,1,52.733,2.879L54.374,14.653A2.76,2.76,0,0,0,59.486,15.67L65.507,5.42A2.76,2.76,0,0,1,70.558,7.512L67.568,19.017A2.76,2.76,0,0,0,71.902,21.913L81.387,14.748A2.76,2.76,0,0,1,85.252,18.613L78.087,28.098A2.76,2.76,0,0,0,80.983,32.432L92.488,29.442A2.76,2.76,0,0,1,94.58,34.493L84.33,40.514A2.76,2.76,0,0,0,85.347,45.626L97.121,47.267',
+    flower: 'M93.369,39.945A11.311,11.311,0,0,1,93.369,60.055L89.965,61.809A6.787,6.787,0,0,0,86.61,69.91L87.777,73.557A11.311,11.311,0,0,1,73.557,87.777L69.91,86.61A6.787,6.787,0,0,0,61.809,89.965L60.055,93.369A11.311,11.311,0,0,1,39.945,93.369L38.191,89.965A6.787,6.787,0,0,0,30.09,86.61L26.443,87.777A11.311,11.311,0,0,1,12.223,73.557L13.39,69.91A6.787,6.787,0,0,0,10.035,61.809L6.631,60.055A11.311,11.311,0,0,1,6.631,39.945L10.035,38.191A6.787,6.787,0,0,0,13.39,30.09L12.223,26.443A11.311,11.311,0,0,1,26.443,12.223L30.09,13.39A6.787,6.787,0,0,0,38.191,10.035L39.945,6.631A11.311,11.311,0,0,1,60.055,6.631L61.809,10.035A6.787,6.787,0,0,0,69.91,13.39L73.557,12.223A11.311,11.311,0,0,1,87.777,26.443L86.61,30.09A6.787,6.787,0,0,0,89.965,38.191L93.369,39.945',
+    puffy: 'M95.678,55.876A25.995,25.995,0,0,1,77.928,86.62L75.043,87.499A12.998,12.998,0,0,0,69.954,90.437L67.75,92.497A25.995,25.995,0,0,1,32.25,92.497L30.046,90.437A12.998,12.998,0,0,0,24.957,87.499L22.072,86.62A25.995,25.995,0,0,1,4.322,55.876L5.004,52.938A12.998,12.998,0,0,0,5.004,47.062L4.322,44.124A25.995,25.995,0,0,1,22.072,13.38L24.957,12.501A12.998,12.998,0,0,0,30.046,9.563L32.25,7.503A25.995,25.995,0,0,1,67.75,7.503L69.954,9.563A12.998,12.998,0,0,0,75.043,12.501L77.928,13.38A25.995,25.995,0,0,1,95.678,44.124L94.996,47.062A12.998,12.998,0,0,0,94.996,52.938L95.678,55.876',
+    'ghost-ish':
+        'M5.711,38.954A33.242,33.242,0,0,1,38.954,5.711L61.046,5.711A33.242,33.242,0,0,1,94.289,38.954L94.289,82.787A6.909,6.909,0,0,1,84.135,88.888L68.495,80.568A5.778,5.778,0,0,0,61.528,81.758L54.252,89.666A5.778,5.778,0,0,1,45.748,89.666L38.472,81.758A5.778,5.778,0,0,0,31.505,80.568L15.865,88.888A6.909,6.909,0,0,1,5.711,82.787L5.711,38.954',
+    heart: 'M46.308,20.722A5.557,5.557,0,0,0,53.692,20.722L62.306,13.065A18.523,18.523,0,0,1,88.317,14.45L91.684,18.153A23.584,23.584,0,0,1,93.01,48.288L60.087,91.608A12.67,12.67,0,0,1,39.913,91.608L6.99,48.288A23.584,23.584,0,0,1,8.316,18.153L11.683,14.45A18.523,18.523,0,0,1,37.694,13.065L46.308,20.722',
+    'star-3-0.5-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L25.25,92.868A0,0,0,0,1,25.25,92.868L25.25,7.132A0,0,0,0,1,25.25,7.132L99.5,50',
+    'star-3-0.5-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L25.25,92.868A0,0,0,0,1,25.25,92.868L25.25,7.132A0,0,0,0,1,25.25,7.132L99.5,50',
+    'star-3-0.5-0.5-0':
+        'M91.25,35.711A16.5,16.5,0,0,1,91.25,64.289L41.75,92.868A16.5,16.5,0,0,1,17,78.579L17,21.421A16.5,16.5,0,0,1,41.75,7.132L91.25,35.711',
+    'star-3-0.5-0.5-0.5':
+        'M78.875,28.566C92.001,36.144,95.079,37.921,97.289,41.75A16.5,16.5,0,0,1,97.289,58.25C95.079,62.079,92.001,63.856,78.875,71.434L54.125,85.724C40.999,93.302,37.921,95.079,33.5,95.079A16.5,16.5,0,0,1,19.211,86.829C17,83,17,79.446,17,64.289L17,35.711C17,20.554,17,17,19.211,13.171A16.5,16.5,0,0,1,33.5,4.921C37.921,4.921,40.999,6.698,54.125,14.276L78.875,28.566',
+    'star-3-0.5-1-0':
+        'M74.75,7.132A49.5,49.5,0,0,1,74.75,92.868L74.75,92.868A49.5,49.5,0,0,1,0.5,50L0.5,50A49.5,49.5,0,0,1,74.75,7.132L74.75,7.132',
+    'star-3-0.5-1-0.5':
+        'M74.75,7.132C77.003,8.433,86.237,13.763,92.868,25.25A49.5,49.5,0,0,1,92.868,74.75C86.237,86.237,77.003,91.567,74.75,92.868L74.75,92.868C72.497,94.169,63.263,99.5,50,99.5A49.5,49.5,0,0,1,7.132,74.75C0.5,63.263,0.5,52.602,0.5,50L0.5,50C0.5,47.398,0.5,36.737,7.132,25.25A49.5,49.5,0,0,1,50,0.5C63.263,0.5,72.497,5.831,74.75,7.132L74.75,7.132',
+    'star-3-1-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L74.75,92.868A0,0,0,0,1,74.75,92.868L25.25,92.868A0,0,0,0,1,25.25,92.868L0.5,50A0,0,0,0,1,0.5,50L25.25,7.132A0,0,0,0,1,25.25,7.132L74.75,7.132A0,0,0,0,1,74.75,7.132L99.5,50',
+    'star-3-1-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L74.75,92.868A0,0,0,0,1,74.75,92.868L25.25,92.868A0,0,0,0,1,25.25,92.868L0.5,50A0,0,0,0,1,0.5,50L25.25,7.132A0,0,0,0,1,25.25,7.132L74.75,7.132A0,0,0,0,1,74.75,7.132L99.5,50',
+    'star-3-1-0.5-0':
+        'M96.422,38.513A22.973,22.973,0,0,1,96.422,61.487L83.159,84.46A22.973,22.973,0,0,1,63.263,95.946L36.737,95.946A22.973,22.973,0,0,1,16.841,84.46L3.578,61.487A22.973,22.973,0,0,1,3.578,38.513L16.841,15.54A22.973,22.973,0,0,1,36.737,4.054L63.263,4.054A22.973,22.973,0,0,1,83.159,15.54L96.422,38.513',
+    'star-3-1-0.5-0.5':
+        'M93.106,32.77C96.781,39.134,97.934,41.133,98.717,44.054A22.973,22.973,0,0,1,98.717,55.946C97.934,58.867,96.781,60.866,93.106,67.23L86.475,78.716C82.8,85.08,81.646,87.079,79.508,89.217A22.973,22.973,0,0,1,69.209,95.163C66.288,95.946,63.98,95.946,56.632,95.946L43.368,95.946C36.02,95.946,33.712,95.946,30.791,95.163A22.973,22.973,0,0,1,20.492,89.217C18.354,87.079,17.2,85.08,13.525,78.716L6.894,67.23C3.219,60.866,2.066,58.867,1.283,55.946A22.973,22.973,0,0,1,1.283,44.054C2.066,41.133,3.219,39.134,6.894,32.77L13.525,21.284C17.2,14.92,18.354,12.921,20.492,10.783A22.973,22.973,0,0,1,30.791,4.837C33.712,4.054,36.02,4.054,43.368,4.054L56.632,4.054C63.98,4.054,66.288,4.054,69.209,4.837A22.973,22.973,0,0,1,79.508,10.783C81.646,12.921,82.8,14.92,86.475,21.284L93.106,32.77',
+    'star-3-1-1-0':
+        'M92.868,25.25A49.5,49.5,0,0,1,92.868,74.75L92.868,74.75A49.5,49.5,0,0,1,50,99.5L50,99.5A49.5,49.5,0,0,1,7.132,74.75L7.132,74.75A49.5,49.5,0,0,1,7.132,25.25L7.132,25.25A49.5,49.5,0,0,1,50,0.5L50,0.5A49.5,49.5,0,0,1,92.868,25.25L92.868,25.25',
+    'star-3-1-1-0.5':
+        'M92.868,25.25C93.641,26.588,96.127,30.894,97.813,37.188A49.5,49.5,0,0,1,97.813,62.812C96.127,69.106,93.641,73.412,92.868,74.75L92.868,74.75C92.096,76.088,89.61,80.394,85.002,85.002A49.5,49.5,0,0,1,62.812,97.813C56.517,99.5,51.544,99.5,50,99.5L50,99.5C48.456,99.5,43.483,99.5,37.188,97.813A49.5,49.5,0,0,1,14.998,85.002C10.39,80.394,7.904,76.088,7.132,74.75L7.132,74.75C6.359,73.412,3.873,69.106,2.187,62.812A49.5,49.5,0,0,1,2.187,37.188C3.873,30.894,6.359,26.588,7.132,25.25L7.132,25.25C7.904,23.912,10.39,19.606,14.998,14.998A49.5,49.5,0,0,1,37.188,2.187C43.483,0.5,48.456,0.5,50,0.5L50,0.5C51.544,0.5,56.517,0.5,62.812,2.187A49.5,49.5,0,0,1,85.002,14.998C89.61,19.606,92.096,23.912,92.868,25.25L92.868,25.25',
+    'star-5-0.5-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L70.023,64.548A0,0,0,0,0,70.023,64.548L65.296,97.077A0,0,0,0,1,65.296,97.077L42.352,73.539A0,0,0,0,0,42.352,73.539L9.954,79.095A0,0,0,0,1,9.954,79.095L25.25,50A0,0,0,0,0,25.25,50L9.954,20.905A0,0,0,0,1,9.954,20.905L42.352,26.461A0,0,0,0,0,42.352,26.461L65.296,2.923A0,0,0,0,1,65.296,2.923L70.023,35.452A0,0,0,0,0,70.023,35.452L99.5,50',
+    'star-5-0.5-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L70.023,64.548A0,0,0,0,0,70.023,64.548L65.296,97.077A0,0,0,0,1,65.296,97.077L42.352,73.539A0,0,0,0,0,42.352,73.539L9.954,79.095A0,0,0,0,1,9.954,79.095L25.25,50A0,0,0,0,0,25.25,50L9.954,20.905A0,0,0,0,1,9.954,20.905L42.352,26.461A0,0,0,0,0,42.352,26.461L65.296,2.923A0,0,0,0,1,65.296,2.923L70.023,35.452A0,0,0,0,0,70.023,35.452L99.5,50',
+    'star-5-0.5-0.5-0':
+        'M95.206,43.093A7.703,7.703,0,0,1,95.206,56.907L77.579,65.607A7.703,7.703,0,0,0,73.365,71.407L70.539,90.859A7.703,7.703,0,0,1,57.4,95.128L43.679,81.052A7.703,7.703,0,0,0,36.862,78.837L17.487,82.16A7.703,7.703,0,0,1,9.367,70.983L18.515,53.584A7.703,7.703,0,0,0,18.515,46.416L9.367,29.017A7.703,7.703,0,0,1,17.487,17.84L36.862,21.163A7.703,7.703,0,0,0,43.679,18.948L57.4,4.872A7.703,7.703,0,0,1,70.539,9.141L73.365,28.593A7.703,7.703,0,0,0,77.579,34.393L95.206,43.093',
+    'star-5-0.5-0.5-0.5':
+        'M88.208,39.639C95.579,43.276,97.178,44.066,98.339,45.933A7.703,7.703,0,0,1,98.339,54.067C97.178,55.934,95.579,56.724,88.208,60.361L79.395,64.711C77.378,65.706,76.739,66.021,76.023,66.625A7.703,7.703,0,0,0,73.853,69.612C73.5,70.48,73.398,71.185,73.074,73.41L71.661,83.137C70.479,91.27,70.223,93.035,68.805,94.717A7.703,7.703,0,0,1,61.07,97.23C58.935,96.703,57.69,95.426,51.953,89.54L45.093,82.502C43.523,80.892,43.026,80.381,42.23,79.887A7.703,7.703,0,0,0,38.719,78.746C37.785,78.678,37.082,78.799,34.866,79.179L25.179,80.841C17.078,82.23,15.32,82.531,13.283,81.703A7.703,7.703,0,0,1,8.503,75.123C8.344,72.93,9.174,71.351,12.999,64.076L17.572,55.377C18.619,53.386,18.95,52.755,19.175,51.846A7.703,7.703,0,0,0,19.175,48.154C18.95,47.245,18.619,46.614,17.572,44.623L12.999,35.924C9.174,28.649,8.344,27.07,8.503,24.877A7.703,7.703,0,0,1,13.283,18.297C15.32,17.469,17.078,17.77,25.179,19.159L34.866,20.821C37.082,21.201,37.785,21.322,38.719,21.254A7.703,7.703,0,0,0,42.23,20.113C43.026,19.619,43.523,19.108,45.093,17.498L51.953,10.46C57.69,4.574,58.935,3.297,61.07,2.77A7.703,7.703,0,0,1,68.805,5.283C70.223,6.965,70.479,8.73,71.661,16.863L73.074,26.59C73.398,28.815,73.5,29.52,73.853,30.388A7.703,7.703,0,0,0,76.023,33.375C76.739,33.979,77.378,34.294,79.395,35.289L88.208,39.639',
+    'star-5-0.5-1-0':
+        'M88.819,32.818A19.161,19.161,0,0,1,88.819,67.182L88.819,67.182A19.161,19.161,0,0,0,78.337,81.609L78.337,81.609A19.161,19.161,0,0,1,45.654,92.229L45.654,92.229A19.161,19.161,0,0,0,28.694,86.718L28.694,86.718A19.161,19.161,0,0,1,8.495,58.916L8.495,58.916A19.161,19.161,0,0,0,8.495,41.084L8.495,41.084A19.161,19.161,0,0,1,28.694,13.282L28.694,13.282A19.161,19.161,0,0,0,45.654,7.771L45.654,7.771A19.161,19.161,0,0,1,78.337,18.391L78.337,18.391A19.161,19.161,0,0,0,88.819,32.818L88.819,32.818',
+    'star-5-0.5-1-0.5':
+        'M88.819,32.818C89.745,33.275,93.724,35.239,96.612,39.884A19.161,19.161,0,0,1,96.612,60.116C93.724,64.761,89.745,66.725,88.819,67.182L88.819,67.182C88.32,67.429,86.73,68.214,84.948,69.715A19.161,19.161,0,0,0,79.55,77.145C78.672,79.304,78.417,81.059,78.337,81.609L78.337,81.609C78.189,82.632,77.551,87.023,74.025,91.205A19.161,19.161,0,0,1,54.783,97.457C49.473,96.146,46.375,92.969,45.654,92.229L45.654,92.229C45.266,91.83,44.028,90.56,42.049,89.33A19.161,19.161,0,0,0,33.315,86.492C30.991,86.324,29.243,86.624,28.694,86.718L28.694,86.718C27.676,86.893,23.303,87.643,18.236,85.582A19.161,19.161,0,0,1,6.344,69.214C5.95,63.758,8.014,59.831,8.495,58.916L8.495,58.916C8.754,58.424,9.579,56.854,10.138,54.592A19.161,19.161,0,0,0,10.138,45.408C9.579,43.146,8.754,41.576,8.495,41.084L8.495,41.084C8.014,40.169,5.95,36.242,6.344,30.786A19.161,19.161,0,0,1,18.236,14.418C23.303,12.357,27.676,13.107,28.694,13.282L28.694,13.282C29.243,13.376,30.991,13.676,33.315,13.508A19.161,19.161,0,0,0,42.049,10.67C44.028,9.44,45.266,8.17,45.654,7.771L45.654,7.771C46.375,7.031,49.473,3.854,54.783,2.543A19.161,19.161,0,0,1,74.025,8.795C77.551,12.977,78.189,17.368,78.337,18.391L78.337,18.391C78.417,18.941,78.672,20.696,79.55,22.855A19.161,19.161,0,0,0,84.948,30.285C86.73,31.786,88.32,32.571,88.819,32.818L88.819,32.818',
+    'star-5-1-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L90.046,79.095A0,0,0,0,1,90.046,79.095L65.296,97.077A0,0,0,0,1,65.296,97.077L34.704,97.077A0,0,0,0,1,34.704,97.077L9.954,79.095A0,0,0,0,1,9.954,79.095L0.5,50A0,0,0,0,1,0.5,50L9.954,20.905A0,0,0,0,1,9.954,20.905L34.704,2.923A0,0,0,0,1,34.704,2.923L65.296,2.923A0,0,0,0,1,65.296,2.923L90.046,20.905A0,0,0,0,1,90.046,20.905L99.5,50',
+    'star-5-1-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L90.046,79.095A0,0,0,0,1,90.046,79.095L65.296,97.077A0,0,0,0,1,65.296,97.077L34.704,97.077A0,0,0,0,1,34.704,97.077L9.954,79.095A0,0,0,0,1,9.954,79.095L0.5,50A0,0,0,0,1,0.5,50L9.954,20.905A0,0,0,0,1,9.954,20.905L34.704,2.923A0,0,0,0,1,34.704,2.923L65.296,2.923A0,0,0,0,1,65.296,2.923L90.046,20.905A0,0,0,0,1,90.046,20.905L99.5,50',
+    'star-5-1-0.5-0':
+        'M98.319,42.544A24.129,24.129,0,0,1,98.319,57.456L93.474,72.369A24.129,24.129,0,0,1,84.708,84.433L72.023,93.65A24.129,24.129,0,0,1,57.84,98.258L42.16,98.258A24.129,24.129,0,0,1,27.977,93.65L15.292,84.433A24.129,24.129,0,0,1,6.526,72.369L1.681,57.456A24.129,24.129,0,0,1,1.681,42.544L6.526,27.631A24.129,24.129,0,0,1,15.292,15.567L27.977,6.35A24.129,24.129,0,0,1,42.16,1.742L57.84,1.742A24.129,24.129,0,0,1,72.023,6.35L84.708,15.567A24.129,24.129,0,0,1,93.474,27.631L98.319,42.544',
+    'star-5-1-0.5-0.5':
+        'M97.108,38.816C98.463,42.987,98.906,44.35,99.203,46.225A24.129,24.129,0,0,1,99.203,53.775C98.906,55.65,98.463,57.013,97.108,61.184L94.685,68.641C93.33,72.812,92.887,74.175,92.025,75.867A24.129,24.129,0,0,1,87.587,81.974C86.245,83.317,85.085,84.16,81.537,86.738L75.194,91.346C71.646,93.924,70.486,94.766,68.794,95.628A24.129,24.129,0,0,1,61.615,97.961C59.739,98.258,58.306,98.258,53.92,98.258L46.08,98.258C41.694,98.258,40.261,98.258,38.385,97.961A24.129,24.129,0,0,1,31.206,95.628C29.514,94.766,28.354,93.924,24.806,91.346L18.463,86.738C14.915,84.16,13.755,83.317,12.413,81.974A24.129,24.129,0,0,1,7.975,75.867C7.113,74.175,6.67,72.812,5.315,68.641L2.892,61.184C1.537,57.013,1.094,55.65,0.797,53.775A24.129,24.129,0,0,1,0.797,46.225C1.094,44.35,1.537,42.987,2.892,38.816L5.315,31.359C6.67,27.188,7.113,25.825,7.975,24.133A24.129,24.129,0,0,1,12.413,18.026C13.755,16.683,14.915,15.84,18.463,13.262L24.806,8.654C28.354,6.076,29.514,5.234,31.206,4.372A24.129,24.129,0,0,1,38.385,2.039C40.261,1.742,41.694,1.742,46.08,1.742L53.92,1.742C58.306,1.742,59.739,1.742,61.615,2.039A24.129,24.129,0,0,1,68.794,4.372C70.486,5.234,71.646,6.076,75.194,8.654L81.537,13.262C85.085,15.84,86.245,16.683,87.587,18.026A24.129,24.129,0,0,1,92.025,24.133C92.887,25.825,93.33,27.188,94.685,31.359L97.108,38.816',
+    'star-5-1-1-0':
+        'M97.077,34.704A49.5,49.5,0,0,1,97.077,65.296L97.077,65.296A49.5,49.5,0,0,1,79.095,90.046L79.095,90.046A49.5,49.5,0,0,1,50,99.5L50,99.5A49.5,49.5,0,0,1,20.905,90.046L20.905,90.046A49.5,49.5,0,0,1,2.923,65.296L2.923,65.296A49.5,49.5,0,0,1,2.923,34.704L2.923,34.704A49.5,49.5,0,0,1,20.905,9.954L20.905,9.954A49.5,49.5,0,0,1,50,0.5L50,0.5A49.5,49.5,0,0,1,79.095,9.954L79.095,9.954A49.5,49.5,0,0,1,97.077,34.704L97.077,34.704',
+    'star-5-1-1-0.5':
+        'M97.077,34.704C97.373,35.613,98.281,38.409,98.891,42.256A49.5,49.5,0,0,1,98.891,57.744C98.281,61.591,97.373,64.387,97.077,65.296L97.077,65.296C96.782,66.205,95.873,69.001,94.105,72.473A49.5,49.5,0,0,1,85.002,85.002C82.247,87.756,79.869,89.485,79.095,90.046L79.095,90.046C78.322,90.608,75.944,92.336,72.473,94.105A49.5,49.5,0,0,1,57.744,98.891C53.896,99.5,50.956,99.5,50,99.5L50,99.5C49.044,99.5,46.104,99.5,42.256,98.891A49.5,49.5,0,0,1,27.527,94.105C24.056,92.336,21.678,90.608,20.905,90.046L20.905,90.046C20.131,89.485,17.753,87.756,14.998,85.002A49.5,49.5,0,0,1,5.895,72.473C4.127,69.001,3.218,66.205,2.923,65.296L2.923,65.296C2.627,64.387,1.719,61.591,1.109,57.744A49.5,49.5,0,0,1,1.109,42.256C1.719,38.409,2.627,35.613,2.923,34.704L2.923,34.704C3.218,33.795,4.127,30.999,5.895,27.527A49.5,49.5,0,0,1,14.998,14.998C17.753,12.244,20.131,10.515,20.905,9.954L20.905,9.954C21.678,9.392,24.056,7.664,27.527,5.895A49.5,49.5,0,0,1,42.256,1.109C46.104,0.5,49.044,0.5,50,0.5L50,0.5C50.956,0.5,53.896,0.5,57.744,1.109A49.5,49.5,0,0,1,72.473,5.895C75.944,7.664,78.322,9.392,79.095,9.954L79.095,9.954C79.869,10.515,82.247,12.244,85.002,14.998A49.5,49.5,0,0,1,94.105,27.527C95.873,30.999,96.782,33.795,97.077,34.704L97.077,34.704',
+    'star-8-0.5-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L72.866,59.471A0,0,0,0,0,72.866,59.471L85.002,85.002A0,0,0,0,1,85.002,85.002L59.471,72.866A0,0,0,0,0,59.471,72.866L50,99.5A0,0,0,0,1,50,99.5L40.529,72.866A0,0,0,0,0,40.529,72.866L14.998,85.002A0,0,0,0,1,14.998,85.002L27.134,59.471A0,0,0,0,0,27.134,59.471L0.5,50A0,0,0,0,1,0.5,50L27.134,40.529A0,0,0,0,0,27.134,40.529L14.998,14.998A0,0,0,0,1,14.998,14.998L40.529,27.134A0,0,0,0,0,40.529,27.134L50,0.5A0,0,0,0,1,50,0.5L59.471,27.134A0,0,0,0,0,59.471,27.134L85.002,14.998A0,0,0,0,1,85.002,14.998L72.866,40.529A0,0,0,0,0,72.866,40.529L99.5,50',
+    'star-8-0.5-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L72.866,59.471A0,0,0,0,0,72.866,59.471L85.002,85.002A0,0,0,0,1,85.002,85.002L59.471,72.866A0,0,0,0,0,59.471,72.866L50,99.5A0,0,0,0,1,50,99.5L40.529,72.866A0,0,0,0,0,40.529,72.866L14.998,85.002A0,0,0,0,1,14.998,85.002L27.134,59.471A0,0,0,0,0,27.134,59.471L0.5,50A0,0,0,0,1,0.5,50L27.134,40.529A0,0,0,0,0,27.134,40.529L14.998,14.998A0,0,0,0,1,14.998,14.998L40.529,27.134A0,0,0,0,0,40.529,27.134L50,0.5A0,0,0,0,1,50,0.5L59.471,27.134A0,0,0,0,0,59.471,27.134L85.002,14.998A0,0,0,0,1,85.002,14.998L72.866,40.529A0,0,0,0,0,72.866,40.529L99.5,50',
+    'star-8-0.5-0.5-0':
+        'M96.697,46.028A4.215,4.215,0,0,1,96.697,53.972L81.13,59.508A4.215,4.215,0,0,0,78.735,65.289L85.828,80.211A4.215,4.215,0,0,1,80.211,85.828L65.289,78.735A4.215,4.215,0,0,0,59.508,81.13L53.972,96.697A4.215,4.215,0,0,1,46.028,96.697L40.492,81.13A4.215,4.215,0,0,0,34.711,78.735L19.789,85.828A4.215,4.215,0,0,1,14.172,80.211L21.265,65.289A4.215,4.215,0,0,0,18.87,59.508L3.303,53.972A4.215,4.215,0,0,1,3.303,46.028L18.87,40.492A4.215,4.215,0,0,0,21.265,34.711L14.172,19.789A4.215,4.215,0,0,1,19.789,14.172L34.711,21.265A4.215,4.215,0,0,0,40.492,18.87L46.028,3.303A4.215,4.215,0,0,1,53.972,3.303L59.508,18.87A4.215,4.215,0,0,0,65.289,21.265L80.211,14.172A4.215,4.215,0,0,1,85.828,19.789L78.735,34.711A4.215,4.215,0,0,0,81.13,40.492L96.697,46.028',
+    'star-8-0.5-0.5-0.5':
+        'M91.113,44.043C96.917,46.107,97.957,46.477,98.729,47.569A4.215,4.215,0,0,1,98.729,52.431C97.957,53.523,96.917,53.893,91.113,55.957L83.329,58.725C80.947,59.572,80.287,59.807,79.638,60.424A4.215,4.215,0,0,0,78.328,63.587C78.351,64.481,78.652,65.114,79.737,67.397L83.284,74.859C85.928,80.422,86.402,81.42,86.175,82.738A4.215,4.215,0,0,1,82.738,86.175C81.42,86.402,80.422,85.928,74.859,83.284L67.397,79.737C65.114,78.652,64.481,78.351,63.587,78.328A4.215,4.215,0,0,0,60.424,79.638C59.807,80.287,59.572,80.947,58.725,83.329L55.957,91.113C53.893,96.917,53.523,97.957,52.431,98.729A4.215,4.215,0,0,1,47.569,98.729C46.477,97.957,46.107,96.917,44.043,91.113L41.275,83.329C40.428,80.947,40.193,80.287,39.576,79.638A4.215,4.215,0,0,0,36.413,78.328C35.519,78.351,34.886,78.652,32.603,79.737L25.141,83.284C19.578,85.928,18.58,86.402,17.262,86.175A4.215,4.215,0,0,1,13.825,82.738C13.598,81.42,14.072,80.422,16.716,74.859L20.263,67.397C21.348,65.114,21.649,64.481,21.672,63.587A4.215,4.215,0,0,0,20.362,60.424C19.713,59.807,19.053,59.572,16.671,58.725L8.887,55.957C3.083,53.893,2.043,53.523,1.271,52.431A4.215,4.215,0,0,1,1.271,47.569C2.043,46.477,3.083,46.107,8.887,44.043L16.671,41.275C19.053,40.428,19.713,40.193,20.362,39.576A4.215,4.215,0,0,0,21.672,36.413C21.649,35.519,21.348,34.886,20.263,32.603L16.716,25.141C14.072,19.578,13.598,18.58,13.825,17.262A4.215,4.215,0,0,1,17.262,13.825C18.58,13.598,19.578,14.072,25.141,16.716L32.603,20.263C34.886,21.348,35.519,21.649,36.413,21.672A4.215,4.215,0,0,0,39.576,20.362C40.193,19.713,40.428,19.053,41.275,16.671L44.043,8.887C46.107,3.083,46.477,2.043,47.569,1.271A4.215,4.215,0,0,1,52.431,1.271C53.523,2.043,53.893,3.083,55.957,8.887L58.725,16.671C59.572,19.053,59.807,19.713,60.424,20.362A4.215,4.215,0,0,0,63.587,21.672C64.481,21.649,65.114,21.348,67.397,20.263L74.859,16.716C80.422,14.072,81.42,13.598,82.738,13.825A4.215,4.215,0,0,1,86.175,17.262C86.402,18.58,85.928,19.578,83.284,25.141L79.737,32.603C78.652,34.886,78.351,35.519,78.328,36.413A4.215,4.215,0,0,0,79.638,39.576C80.287,40.193,80.947,40.428,83.329,41.275L91.113,44.043',
+    'star-8-0.5-1-0':
+        'M92.754,40.441A10.145,10.145,0,0,1,92.754,59.559L92.754,59.559A10.145,10.145,0,0,0,86.991,73.473L86.991,73.473A10.145,10.145,0,0,1,73.473,86.991L73.473,86.991A10.145,10.145,0,0,0,59.559,92.754L59.559,92.754A10.145,10.145,0,0,1,40.441,92.754L40.441,92.754A10.145,10.145,0,0,0,26.527,86.991L26.527,86.991A10.145,10.145,0,0,1,13.009,73.473L13.009,73.473A10.145,10.145,0,0,0,7.246,59.559L7.246,59.559A10.145,10.145,0,0,1,7.246,40.441L7.246,40.441A10.145,10.145,0,0,0,13.009,26.527L13.009,26.527A10.145,10.145,0,0,1,26.527,13.009L26.527,13.009A10.145,10.145,0,0,0,40.441,7.246L40.441,7.246A10.145,10.145,0,0,1,59.559,7.246L59.559,7.246A10.145,10.145,0,0,0,73.473,13.009L73.473,13.009A10.145,10.145,0,0,1,86.991,26.527L86.991,26.527A10.145,10.145,0,0,0,92.754,40.441L92.754,40.441',
+    'star-8-0.5-1-0.5':
+        'M92.754,40.441C93.283,40.63,95.787,41.52,97.644,44.15A10.145,10.145,0,0,1,97.644,55.85C95.787,58.48,93.283,59.37,92.754,59.559L92.754,59.559C92.316,59.715,90.726,60.28,89.165,61.763A10.145,10.145,0,0,0,86.012,69.376C86.066,71.528,86.791,73.052,86.991,73.473L86.991,73.473C87.232,73.98,88.373,76.38,87.826,79.553A10.145,10.145,0,0,1,79.553,87.826C76.38,88.373,73.98,87.232,73.473,86.991L73.473,86.991C73.052,86.791,71.528,86.066,69.376,86.012A10.145,10.145,0,0,0,61.763,89.165C60.28,90.726,59.715,92.316,59.559,92.754L59.559,92.754C59.37,93.283,58.48,95.787,55.85,97.644A10.145,10.145,0,0,1,44.15,97.644C41.52,95.787,40.63,93.283,40.441,92.754L40.441,92.754C40.285,92.316,39.72,90.726,38.237,89.165A10.145,10.145,0,0,0,30.624,86.012C28.472,86.066,26.948,86.791,26.527,86.991L26.527,86.991C26.02,87.232,23.62,88.373,20.447,87.826A10.145,10.145,0,0,1,12.174,79.553C11.627,76.38,12.768,73.98,13.009,73.473L13.009,73.473C13.209,73.052,13.934,71.528,13.988,69.376A10.145,10.145,0,0,0,10.835,61.763C9.274,60.28,7.684,59.715,7.246,59.559L7.246,59.559C6.717,59.37,4.213,58.48,2.356,55.85A10.145,10.145,0,0,1,2.356,44.15C4.213,41.52,6.717,40.63,7.246,40.441L7.246,40.441C7.684,40.285,9.274,39.72,10.835,38.237A10.145,10.145,0,0,0,13.988,30.624C13.934,28.472,13.209,26.948,13.009,26.527L13.009,26.527C12.768,26.02,11.627,23.62,12.174,20.447A10.145,10.145,0,0,1,20.447,12.174C23.62,11.627,26.02,12.768,26.527,13.009L26.527,13.009C26.948,13.209,28.472,13.934,30.624,13.988A10.145,10.145,0,0,0,38.237,10.835C39.72,9.274,40.285,7.684,40.441,7.246L40.441,7.246C40.63,6.717,41.52,4.213,44.15,2.356A10.145,10.145,0,0,1,55.85,2.356C58.48,4.213,59.37,6.717,59.559,7.246L59.559,7.246C59.715,7.684,60.28,9.274,61.763,10.835A10.145,10.145,0,0,0,69.376,13.988C71.528,13.934,73.052,13.209,73.473,13.009L73.473,13.009C73.98,12.768,76.38,11.627,79.553,12.174A10.145,10.145,0,0,1,87.826,20.447C88.373,23.62,87.232,26.02,86.991,26.527L86.991,26.527C86.791,26.948,86.066,28.472,86.012,30.624A10.145,10.145,0,0,0,89.165,38.237C90.726,39.72,92.316,40.285,92.754,40.441L92.754,40.441',
+    'star-8-1-0-0':
+        'M99.5,50A0,0,0,0,1,99.5,50L95.732,68.943A0,0,0,0,1,95.732,68.943L85.002,85.002A0,0,0,0,1,85.002,85.002L68.943,95.732A0,0,0,0,1,68.943,95.732L50,99.5A0,0,0,0,1,50,99.5L31.057,95.732A0,0,0,0,1,31.057,95.732L14.998,85.002A0,0,0,0,1,14.998,85.002L4.268,68.943A0,0,0,0,1,4.268,68.943L0.5,50A0,0,0,0,1,0.5,50L4.268,31.057A0,0,0,0,1,4.268,31.057L14.998,14.998A0,0,0,0,1,14.998,14.998L31.057,4.268A0,0,0,0,1,31.057,4.268L50,0.5A0,0,0,0,1,50,0.5L68.943,4.268A0,0,0,0,1,68.943,4.268L85.002,14.998A0,0,0,0,1,85.002,14.998L95.732,31.057A0,0,0,0,1,95.732,31.057L99.5,50',
+    'star-8-1-0-0.5':
+        'M99.5,50A0,0,0,0,1,99.5,50L95.732,68.943A0,0,0,0,1,95.732,68.943L85.002,85.002A0,0,0,0,1,85.002,85.002L68.943,95.732A0,0,0,0,1,68.943,95.732L50,99.5A0,0,0,0,1,50,99.5L31.057,95.732A0,0,0,0,1,31.057,95.732L14.998,85.002A0,0,0,0,1,14.998,85.002L4.268,68.943A0,0,0,0,1,4.268,68.943L0.5,50A0,0,0,0,1,0.5,50L4.268,31.057A0,0,0,0,1,4.268,31.057L14.998,14.998A0,0,0,0,1,14.998,14.998L31.057,4.268A0,0,0,0,1,31.057,4.268L50,0.5A0,0,0,0,1,50,0.5L68.943,4.268A0,0,0,0,1,68.943,4.268L85.002,14.998A0,0,0,0,1,85.002,14.998L95.732,31.057A0,0,0,0,1,95.732,31.057L99.5,50',
+    'star-8-1-0.5-0':
+        'M99.029,45.218A24.51,24.51,0,0,1,99.029,54.782L97.127,64.345A24.51,24.51,0,0,1,93.467,73.18L88.05,81.288A24.51,24.51,0,0,1,81.288,88.05L73.18,93.467A24.51,24.51,0,0,1,64.345,97.127L54.782,99.029A24.51,24.51,0,0,1,45.218,99.029L35.655,97.127A24.51,24.51,0,0,1,26.82,93.467L18.712,88.05A24.51,24.51,0,0,1,11.95,81.288L6.533,73.18A24.51,24.51,0,0,1,2.873,64.345L0.971,54.782A24.51,24.51,0,0,1,0.971,45.218L2.873,35.655A24.51,24.51,0,0,1,6.533,26.82L11.95,18.712A24.51,24.51,0,0,1,18.712,11.95L26.82,6.533A24.51,24.51,0,0,1,35.655,2.873L45.218,0.971A24.51,24.51,0,0,1,54.782,0.971L64.345,2.873A24.51,24.51,0,0,1,73.18,6.533L81.288,11.95A24.51,24.51,0,0,1,88.05,18.712L93.467,26.82A24.51,24.51,0,0,1,97.127,35.655L99.029,45.218',
+    'star-8-1-0.5-0.5':
+        'M98.553,42.828C99.087,45.511,99.264,46.399,99.382,47.598A24.51,24.51,0,0,1,99.382,52.402C99.264,53.601,99.087,54.489,98.553,57.172L97.602,61.954C97.068,64.638,96.892,65.526,96.542,66.678A24.51,24.51,0,0,1,94.704,71.117C94.136,72.179,93.633,72.932,92.113,75.207L89.404,79.261C87.884,81.536,87.381,82.289,86.617,83.22A24.51,24.51,0,0,1,83.22,86.617C82.289,87.381,81.536,87.884,79.261,89.404L75.207,92.113C72.932,93.633,72.179,94.136,71.117,94.704A24.51,24.51,0,0,1,66.678,96.542C65.526,96.892,64.638,97.068,61.954,97.602L57.172,98.553C54.489,99.087,53.601,99.264,52.402,99.382A24.51,24.51,0,0,1,47.598,99.382C46.399,99.264,45.511,99.087,42.828,98.553L38.046,97.602C35.362,97.068,34.474,96.892,33.322,96.542A24.51,24.51,0,0,1,28.883,94.704C27.821,94.136,27.068,93.633,24.793,92.113L20.739,89.404C18.464,87.884,17.711,87.381,16.78,86.617A24.51,24.51,0,0,1,13.383,83.22C12.619,82.289,12.116,81.536,10.596,79.261L7.887,75.207C6.367,72.932,5.864,72.179,5.296,71.117A24.51,24.51,0,0,1,3.458,66.678C3.108,65.526,2.932,64.638,2.398,61.954L1.447,57.172C0.913,54.489,0.736,53.601,0.618,52.402A24.51,24.51,0,0,1,0.618,47.598C0.736,46.399,0.913,45.511,1.447,42.828L2.398,38.046C2.932,35.362,3.108,34.474,3.458,33.322A24.51,24.51,0,0,1,5.296,28.883C5.864,27.821,6.367,27.068,7.887,24.793L10.596,20.739C12.116,18.464,12.619,17.711,13.383,16.78A24.51,24.51,0,0,1,16.78,13.383C17.711,12.619,18.464,12.116,20.739,10.596L24.793,7.887C27.068,6.367,27.821,5.864,28.883,5.296A24.51,24.51,0,0,1,33.322,3.458C34.474,3.108,35.362,2.932,38.046,2.398L42.828,1.447C45.511,0.913,46.399,0.736,47.598,0.618A24.51,24.51,0,0,1,52.402,0.618C53.601,0.736,54.489,0.913,57.172,1.447L61.954,2.398C64.638,2.932,65.526,3.108,66.678,3.458A24.51,24.51,0,0,1,71.117,5.296C72.179,5.864,72.932,6.367,75.207,7.887L79.261,10.596C81.536,12.116,82.289,12.619,83.22,13.383A24.51,24.51,0,0,1,86.617,16.78C87.381,17.711,87.884,18.464,89.404,20.739L92.113,24.793C93.633,27.068,94.136,27.821,94.704,28.883A24.51,24.51,0,0,1,96.542,33.322C96.892,34.474,97.068,35.362,97.602,38.046L98.553,42.828',
+    'star-8-1-1-0':
+        'M98.549,40.343A49.5,49.5,0,0,1,98.549,59.657L98.549,59.657A49.5,49.5,0,0,1,91.158,77.501L91.158,77.501A49.5,49.5,0,0,1,77.501,91.158L77.501,91.158A49.5,49.5,0,0,1,59.657,98.549L59.657,98.549A49.5,49.5,0,0,1,40.343,98.549L40.343,98.549A49.5,49.5,0,0,1,22.499,91.158L22.499,91.158A49.5,49.5,0,0,1,8.842,77.501L8.842,77.501A49.5,49.5,0,0,1,1.451,59.657L1.451,59.657A49.5,49.5,0,0,1,1.451,40.343L1.451,40.343A49.5,49.5,0,0,1,8.842,22.499L8.842,22.499A49.5,49.5,0,0,1,22.499,8.842L22.499,8.842A49.5,49.5,0,0,1,40.343,1.451L40.343,1.451A49.5,49.5,0,0,1,59.657,1.451L59.657,1.451A49.5,49.5,0,0,1,77.501,8.842L77.501,8.842A49.5,49.5,0,0,1,91.158,22.499L91.158,22.499A49.5,49.5,0,0,1,98.549,40.343L98.549,40.343',
+    'star-8-1-1-0.5':
+        'M98.549,40.343C98.667,40.935,99.023,42.728,99.262,45.148A49.5,49.5,0,0,1,99.262,54.852C99.023,57.272,98.667,59.065,98.549,59.657L98.549,59.657C98.431,60.249,98.074,62.042,97.369,64.369A49.5,49.5,0,0,1,93.655,73.334C92.509,75.479,91.493,76.999,91.158,77.501L91.158,77.501C90.822,78.003,89.807,79.523,88.264,81.402A49.5,49.5,0,0,1,81.402,88.264C79.523,89.807,78.003,90.822,77.501,91.158L77.501,91.158C76.999,91.493,75.479,92.509,73.334,93.655A49.5,49.5,0,0,1,64.369,97.369C62.042,98.074,60.249,98.431,59.657,98.549L59.657,98.549C59.065,98.667,57.272,99.023,54.852,99.262A49.5,49.5,0,0,1,45.148,99.262C42.728,99.023,40.935,98.667,40.343,98.549L40.343,98.549C39.751,98.431,37.958,98.074,35.631,97.369A49.5,49.5,0,0,1,26.666,93.655C24.521,92.509,23.001,91.493,22.499,91.158L22.499,91.158C21.997,90.822,20.477,89.807,18.598,88.264A49.5,49.5,0,0,1,11.736,81.402C10.193,79.523,9.178,78.003,8.842,77.501L8.842,77.501C8.507,76.999,7.491,75.479,6.345,73.334A49.5,49.5,0,0,1,2.631,64.369C1.926,62.042,1.569,60.249,1.451,59.657L1.451,59.657C1.333,59.065,0.977,57.272,0.738,54.852A49.5,49.5,0,0,1,0.738,45.148C0.977,42.728,1.333,40.935,1.451,40.343L1.451,40.343C1.569,39.751,1.926,37.958,2.631,35.631A49.5,49.5,0,0,1,6.345,26.666C7.491,24.521,8.507,23.001,8.842,22.499L8.842,22.499C9.178,21.997,10.193,20.477,11.736,18.598A49.5,49.5,0,0,1,18.598,11.736C20.477,10.193,21.997,9.178,22.499,8.842L22.499,8.842C23.001,8.507,24.521,7.491,26.666,6.345A49.5,49.5,0,0,1,35.631,2.631C37.958,1.926,39.751,1.569,40.343,1.451L40.343,1.451C40.935,1.333,42.728,0.977,45.148,0.738A49.5,49.5,0,0,1,54.852,0.738C57.272,0.977,59.065,1.333,59.657,1.451L59.657,1.451C60.249,1.569,62.042,1.926,64.369,2.631A49.5,49.5,0,0,1,73.334,6.345C75.479,7.491,76.999,8.507,77.501,8.842L77.501,8.842C78.003,9.178,79.523,10.193,81.402,11.736A49.5,49.5,0,0,1,88.264,18.598C89.807,20.477,90.822,21.997,91.158,22.499L91.158,22.499C91.493,23.001,92.509,24.521,93.655,26.666A49.5,49.5,0,0,1,97.369,35.631C98.074,37.958,98.431,39.751,98.549,40.343L98.549,40.343'
+};
@@ -0,0 +1,134 @@
+import { Vector2 } from './vector2';
+
+/**
+ * A minimal 2d affine transform matrix. The values have the same order as the ones of the svg
+ * `matrix()` transform function and the `DOMMatrix`:
+ *
+ * ```
+ * | a c e |
+ * | b d f |
+ * | 0 0 1 |
+ * ```
+ */
+export class Matrix2D {
+    constructor(
+        public a: number = 1,
+        public b: number = 0,
+        public c: number = 0,
+        public d: number = 1,
+        public e: number = 0,
+        public f: number = 0
+    ) {}
+
+    public static identity(): Matrix2D {
+        return new Matrix2D();
+    }
+
+    public static translate(x: number, y: number): Matrix2D {
+        return new Matrix2D(1, 0, 0, 1, x, y);
+    }
+
+    public static scale(x: number, y: number = x): Matrix2D {
+        return new Matrix2D(x, 0, 0, y, 0, 0);
+    }
+
+    /**
+     * Creates a rotation matrix. Positive angles rotate clockwise within the svg coordinate
+     * system (the y axis points down).
+     *
+     * @param angle The rotation angle (in radians)
+     */
+    public static rotate(angle: number): Matrix2D {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return new Matrix2D(cos, sin, -sin, cos, 0, 0);
+    }
+
+    public static skewX(angle: number): Matrix2D {
+        return new Matrix2D(1, 0, Math.tan(angle), 1, 0, 0);
+    }
+
+    public static skewY(angle: number): Matrix2D {
+        return new Matrix2D(1, Math.tan(angle), 0, 1, 0, 0);
+    }
+
+    /**
+     * Returns the product of both matrices. The resulting transform applies the second
+     * matrix first (the same order as a list of svg transform functions).
+     */
+    public static multiply(m: Matrix2D, n: Matrix2D): Matrix2D {
+        return new Matrix2D(
+            m.a * n.a + m.c * n.b,
+            m.b * n.a + m.d * n.b,
+            m.a * n.c + m.c * n.d,
+            m.b * n.c + m.d * n.d,
+            m.a * n.e + m.c * n.f + m.e,
+            m.b * n.e + m.d * n.f + m.f
+        );
+    }
+
+    /**
+     * Returns the inverse matrix, or null if the matrix can not be inverted (e.g. a scale of 0).
+     */
+    public static invert(m: Matrix2D): Matrix2D | null {
+        const det = m.determinant();
+        if (!det || !isFinite(det)) {
+            return null;
+        }
+        return new Matrix2D(
+            m.d / det,
+            -m.b / det,
+            -m.c / det,
+            m.a / det,
+            (m.c * m.f - m.d * m.e) / det,
+            (m.b * m.e - m.a * m.f) / det
+        );
+    }
+
+    public copy(m: Matrix2D): void {
+        this.a = m.a;
+        this.b = m.b;
+        this.c = m.c;
+        this.d = m.d;
+        this.e = m.e;
+        this.f = m.f;
+    }
+
+    public multiply(m: Matrix2D): void {
+        this.copy(Matrix2D.multiply(this, m));
+    }
+
+    public determinant(): number {
+        return this.a * this.d - this.b * this.c;
+    }
+
+    public isIdentity(): boolean {
+        return (
+            this.a === 1 &&
+            this.b === 0 &&
+            this.c === 0 &&
+            this.d === 1 &&
+            this.e === 0 &&
+            this.f === 0
+        );
+    }
+
+    public transformPoint(v: Vector2): Vector2 {
+        return Vector2.transform(v, this);
+    }
+
+    /**
+     * Transforms a direction vector (the translation is ignored).
+     */
+    public transformVector(v: Vector2): Vector2 {
+        return new Vector2(this.a * v.x + this.c * v.y, this.b * v.x + this.d * v.y);
+    }
+
+    /**
+     * Returns the svg `matrix()` transform function, e.g. to position an element which
+     * contains the path of a shape.
+     */
+    public toString(): string {
+        return `matrix(${this.a} ${this.b} ${this.c} ${this.d} ${this.e} ${this.f})`;
+    }
+}
@@ -0,0 +1,80 @@
+import { RoundedPolygon } from './rounded-polygon';
+import { combineRoundedPolygons } from './rounded-polygon-boolean';
+import { Vector2 } from './vector2';
+
+// creates a square with fully rounded corners, which is a circle of four arcs
+function createCircle(x: number, y: number, radius: number): RoundedPolygon {
+    return RoundedPolygon.createFromVertices(
+        [
+            new Vector2(x - radius, y - radius),
+            new Vector2(x + radius, y - radius),
+            new Vector2(x + radius, y + radius),
+            new Vector2(x - radius, y + radius)
+        ],
+        1
+    );
+}
+
+function createSquare(x: number, y: number, size: number): RoundedPolygon {
+    return RoundedPolygon.createFromVertices(
+        [
+            new Vector2(x, y),
+            new Vector2(x + size, y),
+            new Vector2(x + size, y + size),
+            new Vector2(x, y + size)
+        ],
+        0
+    );
+}
+
+describe('combineRoundedPolygons', () => {
+    it('should combine overlapping circles', () => {
+        const a = createCircle(0, 0, 1);
+        const b = createCircle(1, 0, 1);
+        const lens = (2 * Math.PI) / 3 - Math.sqrt(3) / 2;
+
+        const union = combineRoundedPolygons(a, b, 'union');
+        const intersection = combineRoundedPolygons(a, b, 'intersection');
+        const difference = combineRoundedPolygons(a, b, 'difference');
+
+        expect(union.getArea()).toBeCloseTo(2 * Math.PI - lens, 10);
+        expect(intersection.getArea()).toBeCloseTo(lens, 10);
+        expect(difference.getArea()).toBeCloseTo(Math.PI - lens, 10);
+
+        // the lens consists of two exact arcs
+        expect(intersection.getSVGPathData(1, new Vector2(0, 0), 3)).toBe(
+            'M0.5,-0.866A1,1,0,0,1,0.5,0.866A1,1,0,0,1,0.5,-0.866'
+        );
+    });
+
+    it('should cut out holes', () => {
+        const square = createSquare(-2, -2, 4);
+        const result = combineRoundedPolygons(square, createCircle(0, 0, 1), 'difference');
+
+        expect(result.contours.length).toBe(2);
+        expect(result.getArea()).toBeCloseTo(16 - Math.PI, 10);
+        expect(result.containsPoint(new Vector2(0, 0))).toBeFalse();
+        expect(result.containsPoint(new Vector2(1.5, 1.5))).toBeTrue();
+    });
+
+    it('should join common edges', () => {
+        const result = combineRoundedPolygons(
+            createSquare(0, 0, 1),
+            createSquare(1, 0, 1),
+            'union'
+        );
+
+        expect(result.getSVGPathData()).toBe('M0,0L2,0L2,1L0,1L0,0');
+    });
+
+    it('should return an empty shape for disjoint intersections', () => {
+        const result = combineRoundedPolygons(
+            createCircle(0, 0, 1),
+            createCircle(3, 0, 1),
+            'intersection'
+        );
+
+        expect(result.contours).toEqual([]);
+        expect(result.getSVGPathData()).toBe('');
+    });
+});
@@ -0,0 +1,627 @@
+import { RoundedPolygon } from './rounded-polygon';
+import { RoundedPolygonCompound } from './rounded-polygon-compound';
+import {
+    ArcSegment,
+    Bounds,
+    getArcParameter,
+    getSegmentBounds,
+    getSegmentClosestParameter,
+    getSegmentDerivative,
+    getSegmentLength,
+    getSegmentMoments,
+    getSegmentPointAt,
+    getSegmentWinding,
+    getSubSegment,
+    isEllipticalArc,
+    LineSegment,
+    reverseSegment,
+    RoundedPolygonSegment
+} from './rounded-polygon-segment';
+import { Vector2 } from './vector2';
+
+/**
+ * The boolean operations which combine two shapes.
+ *
+ * - `union`: The area which is covered by at least one of the shapes.
+ * - `intersection`: The area which is covered by both shapes.
+ * - `difference`: The area of the first shape which is not covered by the second shape.
+ */
+export type RoundedPolygonBooleanOperation = 'union' | 'intersection' | 'difference';
+
+/**
+ * A shape which can be combined with a boolean operation.
+ */
+export type RoundedPolygonOperand = RoundedPolygon | RoundedPolygonCompound;
+
+// the relative tolerances (to the size of both shapes) of the points on an outline, of the
+// connections of the result outline and of the offset of the side samples
+const POINT_TOLERANCE = 1e-9;
+const JOIN_TOLERANCE = 1e-7;
+const SAMPLE_OFFSET = 1e-6;
+
+// the maximum number of subdivisions of the intersection search of two curves
+const SUBDIVISION_BUDGET = 4096;
+
+// a part of an outline between two intersections
+interface Piece {
+    segment: RoundedPolygonSegment;
+    source: RoundedPolygonSegment;
+    t0: number;
+    t1: number;
+    reversed: boolean;
+}
+
+/**
+ * Combines two shapes with a boolean operation. The result outline is exact: it consists of
+ * the parts of the lines, arcs and transition curves of both outlines between their
+ * intersections, so that no flattening is involved.
+ *
+ * @example
+ *
+ * // an avatar with a cutout for a status dot
+ * const avatar = createRoundedPolygonShape(resolveRoundedPolygonConfig('cookie-8'));
+ * const dot = createRoundedPolygonShape(resolveRoundedPolygonConfig('circle'));
+ * const cutout = combineRoundedPolygons(avatar, dot, 'difference');
+ * path.setAttribute('d', cutout.getSVGPathData(100, new Vector2(50, 50)));
+ *
+ * @param a The first shape
+ * @param b The second shape
+ * @param operation The boolean operation (see {@link RoundedPolygonBooleanOperation})
+ */
+export function combineRoundedPolygons(
+    a: RoundedPolygonOperand,
+    b: RoundedPolygonOperand,
+    operation: RoundedPolygonBooleanOperation
+): RoundedPolygonCompound {
+    const segmentsA = a.getSegments();
+    const segmentsB = b.getSegments();
+    const all = segmentsA.concat(segmentsB);
+    if (!all.length) {
+        return new RoundedPolygonCompound();
+    }
+
+    // the tolerances are relative to the size of both shapes
+    const { min, max } = getBoundsOf(all);
+    const size = Math.max(max.x - min.x, max.y - min.y) || 1;
+    const tolerance = size * POINT_TOLERANCE;
+    const joinTolerance = size * JOIN_TOLERANCE;
+
+    // remove the segments without a length (e.g. the lines between two touching corners)
+    const outlineA = segmentsA.filter((s) => getSegmentLength(s) > tolerance);
+    const outlineB = segmentsB.filter((s) => getSegmentLength(s) > tolerance);
+
+    // split both outlines at their intersections and at the points where one outline
+    // touches the other one
+    const splitsA = outlineA.map((): number[] => []);
+    const splitsB = outlineB.map((): number[] => []);
+    outlineA.forEach((sa, i) => {
+        outlineB.forEach((sb, j) => {
+            if (!overlaps(getSegmentBounds(sa), getSegmentBounds(sb), tolerance)) {
+                return;
+            }
+
+            getIntersections(sa, sb, tolerance).forEach(([ta, tb]) => {
+                splitsA[i].push(ta);
+                splitsB[j].push(tb);
+            });
+        });
+    });
+    addTouchingPoints(outlineA, outlineB, splitsB, tolerance);
+    addTouchingPoints(outlineB, outlineA, splitsA, tolerance);
+
+    // keep the parts which separate the inside from the outside of the result, oriented so
+    // that the inside lies on the left side
+    const inside = (p: Vector2) => {
+        const inA = getWinding(outlineA, p) !== 0;
+        const inB = getWinding(outlineB, p) !== 0;
+        switch (operation) {
+            case 'union':
+                return inA || inB;
+            case 'intersection':
+                return inA && inB;
+            case 'difference':
+                return inA && !inB;
+        }
+    };
+    const offset = size * SAMPLE_OFFSET;
+    const classify = (piece: Piece): Piece | null => {
+        const point = getSegmentPointAt(piece.segment, 0.5);
+        const tangent = Vector2.normalize(getSegmentDerivative(piece.segment, 0.5));
+        const normal = new Vector2(-tangent.y, tangent.x).multiplyScalar(offset);
+        const left = inside(Vector2.add(point, normal));
+        const right = inside(Vector2.subtract(point, normal));
+        if (left === right) {
+            return null;
+        }
+        return left ? piece : { ...piece, segment: reverseSegment(piece.segment), reversed: true };
+    };
+
+    const piecesA = splitOutline(outlineA, splitsA, joinTolerance);
+    const piecesB = splitOutline(outlineB, splitsB, joinTolerance).filter(
+        // the common parts of both outlines are only taken from the first one
+        (piece) => !isOnOutline(outlineA, getSegmentPointAt(piece.segment, 0.5), joinTolerance)
+    );
+    const pieces = piecesA
+        .concat(piecesB)
+        .map(classify)
+        .filter((piece): piece is Piece => piece !== null);
+
+    const contours = assembleContours(pieces, joinTolerance).filter(
+        (contour) =>
+            Math.abs(contour.reduce((area, s) => area + getSegmentMoments(s).area, 0)) >
+            tolerance * size
+    );
+    return new RoundedPolygonCompound(contours);
+}
+
+/**
+ * Returns the union of two shapes (see {@link combineRoundedPolygons}).
+ */
+export function unionRoundedPolygons(
+    a: RoundedPolygonOperand,
+    b: RoundedPolygonOperand
+): RoundedPolygonCompound {
+    return combineRoundedPolygons(a, b, 'union');
+}
+
+/**
+ * Returns the intersection of two shapes (see {@link combineRoundedPolygons}).
+ */
+export function intersectRoundedPolygons(
+    a: RoundedPolygonOperand,
+    b: RoundedPolygonOperand
+): RoundedPolygonCompound {
+    return combineRoundedPolygons(a, b, 'intersection');
+}
+
+/**
+ * Returns the first shape without the area of the second shape (see {@link combineRoundedPolygons}).
+ */
+export function subtractRoundedPolygons(
+    a: RoundedPolygonOperand,
+    b: RoundedPolygonOperand
+): RoundedPolygonCompound {
+    return combineRoundedPolygons(a, b, 'difference');
+}
+
+// returns the curve parameters of the intersection points of two segments
+function getIntersections(
+    a: RoundedPolygonSegment,
+    b: RoundedPolygonSegment,
+    tolerance: number
+): [number, number][] {
+    // the intersections with elliptical arcs are searched like the ones of curves
+    if (isEllipticalArc(a) || isEllipticalArc(b)) {
+        return getCurveIntersections(a, b, tolerance);
+    }
+    if (a.type === 'line' && b.type === 'line') {
+        return getLineIntersections(a, b);
+    }
+    if (a.type === 'line' && b.type === 'arc') {
+        return getLineArcIntersections(a, b, tolerance);
+    }
+    if (a.type === 'arc' && b.type === 'line') {
+        return getLineArcIntersections(b, a, tolerance).map(([tb, ta]) => [ta, tb]);
+    }
+    if (a.type === 'arc' && b.type === 'arc') {
+        return getArcIntersections(a, b, tolerance);
+    }
+    return getCurveIntersections(a, b, tolerance);
+}
+
+function getLineIntersections(a: LineSegment, b: LineSegment): [number, number][] {
+    const da = Vector2.subtract(a.end, a.start);
+    const db = Vector2.subtract(b.end, b.start);
+    const denominator = da.cross(db);
+
+    // parallel lines do not cross (overlaps are split at the touching end points)
+    if (Math.abs(denominator) <= 1e-12 * da.length() * db.length()) {
+        return [];
+    }
+
+    const v = Vector2.subtract(b.start, a.start);
+    const ta = v.cross(db) / denominator;
+    const tb = v.cross(da) / denominator;
+    return isParameter(ta) && isParameter(tb) ? [[clamp(ta), clamp(tb)]] : [];
+}
+
+function getLineArcIntersections(
+    line: LineSegment,
+    arc: ArcSegment,
+    tolerance: number
+): [number, number][] {
+    const direction = Vector2.subtract(line.end, line.start);
+    const length = direction.length();
+    const d = direction.multiplyScalar(1 / length);
+    const f = Vector2.subtract(line.start, arc.center);
+
+    // the distances along the line to the points on the circle
+    const b = f.dot(d);
+    const c = f.dot(f) - arc.radius * arc.radius;
+    const discriminant = b * b - c;
+    if (discriminant < -2 * arc.radius * tolerance) {
+        return [];
+    }
+    const root = Math.sqrt(Math.max(0, discriminant));
+    const distances = root > 0 ? [-b - root, -b + root] : [-b];
+
+    const result: [number, number][] = [];
+    distances.forEach((distance) => {
+        const t = distance / length;
+        if (!isParameter(t)) {
+            return;
+        }
+        const u = getArcPointParameter(arc, getSegmentPointAt(line, clamp(t)), tolerance);
+        if (u !== null) {
+            result.push([clamp(t), u]);
+        }
+    });
+    return result;
+}
+
+function getArcIntersections(a: ArcSegment, b: ArcSegment, tolerance: number): [number, number][] {
+    const v = Vector2.subtract(b.center, a.center);
+    const d = v.length();
+
+    // concentric circles do not cross (overlaps are split at the touching end points)
+    if (d <= tolerance || d > a.radius + b.radius + tolerance) {
+        return [];
+    }
+    if (d < Math.abs(a.radius - b.radius) - tolerance) {
+        return [];
+    }
+
+    // the distance of the chord to the first center and the half length of the chord
+    const x = (d * d + a.radius * a.radius - b.radius * b.radius) / (2 * d);
+    const h = Math.sqrt(Math.max(0, a.radius * a.radius - x * x));
+    const base = Vector2.add(a.center, v.multiplyScalar(x / d));
+    const offset = new Vector2(-v.y, v.x).multiplyScalar(h / d);
+    const points = h > 0 ? [Vector2.add(base, offset), Vector2.subtract(base, offset)] : [base];
+
+    const result: [number, number][] = [];
+    points.forEach((p) => {
+        const ta = getArcPointParameter(a, p, tolerance);
+        const tb = getArcPointParameter(b, p, tolerance);
+        if (ta !== null && tb !== null) {
+            result.push([ta, tb]);
+        }
+    });
+    return result;
+}
+
+// searches the intersections of curves by the subdivision of their bounding boxes and
+// refines the candidates with newton's method
+function getCurveIntersections(
+    a: RoundedPolygonSegment,
+    b: RoundedPolygonSegment,
+    tolerance: number
+): [number, number][] {
+    const result: [number, number][] = [];
+    const leafSize = tolerance * 1e5;
+    let budget = SUBDIVISION_BUDGET;
+
+    const search = (a0: number, a1: number, b0: number, b1: number) => {
+        if (--budget < 0) {
+            return;
+        }
+
+        const boundsA = getSegmentBounds(getSubSegment(a, a0, a1));
+        const boundsB = getSegmentBounds(getSubSegment(b, b0, b1));
+        if (!overlaps(boundsA, boundsB, tolerance)) {
+            return;
+        }
+
+        if (Math.max(getBoundsSize(boundsA), getBoundsSize(boundsB)) < leafSize) {
+            const candidate = refineIntersection(a, b, (a0 + a1) / 2, (b0 + b1) / 2, tolerance);
+            if (
+                candidate &&
+                !result.some(
+                    ([ta, tb]) => Math.abs(ta - candidate[0]) + Math.abs(tb - candidate[1]) < 1e-6
+                )
+            ) {
+                result.push(candidate);
+            }
+            return;
+        }
+
+        const am = (a0 + a1) / 2;
+        const bm = (b0 + b1) / 2;
+        search(a0, am, b0, bm);
+        search(a0, am, bm, b1);
+        search(am, a1, b0, bm);
+        search(am, a1, bm, b1);
+    };
+
+    search(0, 1, 0, 1);
+    return result;
+}
+
+function refineIntersection(
+    a: RoundedPolygonSegment,
+    b: RoundedPolygonSegment,
+    ta: number,
+    tb: number,
+    tolerance: number
+): [number, number] | null {
+    for (let i = 0; i < 16; i++) {
+        const f = Vector2.subtract(getSegmentPointAt(a, ta), getSegmentPointAt(b, tb));
+        if (f.length() <= tolerance) {
+            return [ta, tb];
+        }
+
+        // solve the linearized equation a(ta + dta) = b(tb + dtb)
+        const da = getSegmentDerivative(a, ta);
+        const db = getSegmentDerivative(b, tb);
+        const determinant = -da.cross(db);
+        if (Math.abs(determinant) < 1e-12) {
+            break;
+        }
+        ta = clamp(ta + f.cross(db) / determinant);
+        tb = clamp(tb + f.cross(da) / determinant);
+    }
+
+    const f = Vector2.subtract(getSegmentPointAt(a, ta), getSegmentPointAt(b, tb));
+    return f.length() <= tolerance ? [ta, tb] : null;
+}
+
+// returns the curve parameter of a point on the circle of the arc, or null if the point
+// is not covered by the arc
+function getArcPointParameter(arc: ArcSegment, point: Vector2, tolerance: number): number | null {
+    const t = getArcParameter(arc, point);
+    if (t <= 1) {
+        return t;
+    }
+
+    // the points close to the end points are rounded to the end points
+    if (Vector2.subtract(point, arc.start).length() <= tolerance) {
+        return 0;
+    }
+    if (Vector2.subtract(point, arc.end).length() <= tolerance) {
+        return 1;
+    }
+    return null;
+}
+
+// splits the segments of the outline at the points where the end points of the other
+// outline lie on them (e.g. at the ends of common parts)
+function addTouchingPoints(
+    outline: RoundedPolygonSegment[],
+    other: RoundedPolygonSegment[],
+    splits: number[][],
+    tolerance: number
+): void {
+    outline.forEach(({ start }) => {
+        other.forEach((segment, i) => {
+            const { min, max } = getSegmentBounds(segment);
+            if (
+                start.x < min.x - tolerance ||
+                start.x > max.x + tolerance ||
+                start.y < min.y - tolerance ||
+                start.y > max.y + tolerance
+            ) {
+                return;
+            }
+
+            const t = getSegmentClosestParameter(segment, start);
+            if (Vector2.subtract(getSegmentPointAt(segment, t), start).length() <= tolerance) {
+                splits[i].push(t);
+            }
+        });
+    });
+}
+
+// splits each segment of the outline at the given curve parameters
+function splitOutline(
+    outline: RoundedPolygonSegment[],
+    splits: number[][],
+    tolerance: number
+): Piece[] {
+    const pieces: Piece[] = [];
+    outline.forEach((source, i) => {
+        // skip the splits which are too close to the previous split or to the end point
+        const parameters = [0];
+        splits[i]
+            .slice()
+            .sort((a, b) => a - b)
+            .forEach((t) => {
+                const p = getSegmentPointAt(source, t);
+                const previous = getSegmentPointAt(source, parameters[parameters.length - 1]);
+                if (
+                    Vector2.subtract(p, previous).length() > tolerance &&
+                    Vector2.subtract(p, source.end).length() > tolerance
+                ) {
+                    parameters.push(t);
+                }
+            });
+        parameters.push(1);
+
+        for (let j = 1; j < parameters.length; j++) {
+            const t0 = parameters[j - 1];
+            const t1 = parameters[j];
+            pieces.push({
+                segment: getSubSegment(source, t0, t1),
+                source,
+                t0,
+                t1,
+                reversed: false
+            });
+        }
+    });
+    return pieces;
+}
+
+// connects the pieces to closed contours
+function assembleContours(pieces: Piece[], tolerance: number): RoundedPolygonSegment[][] {
+    const unused = pieces.slice();
+    const contours: RoundedPolygonSegment[][] = [];
+
+    while (unused.length) {
+        const chain = unused.splice(0, 1);
+        const start = chain[0].segment.start;
+
+        for (;;) {
+            const end = chain[chain.length - 1].segment.end;
+            if (chain.length > 1 && Vector2.subtract(end, start).length() <= tolerance) {
+                break;
+            }
+
+            // continue with the closest piece which starts at the end of the chain
+            let next = -1;
+            let distance = tolerance;
+            unused.forEach((piece, i) => {
+                const d = Vector2.subtract(piece.segment.start, end).length();
+                if (d <= distance) {
+                    next = i;
+                    distance = d;
+                }
+            });
+            if (next === -1) {
+                break;
+            }
+            chain.push(unused.splice(next, 1)[0]);
+        }
+
+        contours.push(connectPieces(mergePieces(chain), tolerance));
+    }
+
+    return contours;
+}
+
+// merges the consecutive pieces of the same segment (including the first and the last piece)
+function mergePieces(chain: Piece[]): Piece[] {
+    const adjacent = (p: Piece, q: Piece) =>
+        p.source === q.source &&
+        p.reversed === q.reversed &&
+        (p.reversed ? p.t0 === q.t1 : p.t1 === q.t0);
+    const merge = (p: Piece, q: Piece): Piece => {
+        const t0 = Math.min(p.t0, q.t0);
+        const t1 = Math.max(p.t1, q.t1);
+        const segment = getSubSegment(p.source, t0, t1);
+        return { ...p, t0, t1, segment: p.reversed ? reverseSegment(segment) : segment };
+    };
+
+    const merged: Piece[] = [];
+    chain.forEach((piece) => {
+        const last = merged[merged.length - 1];
+        if (last && adjacent(last, piece)) {
+            merged[merged.length - 1] = merge(last, piece);
+        } else {
+            merged.push(piece);
+        }
+    });
+
+    if (merged.length > 1 && adjacent(merged[merged.length - 1], merged[0])) {
+        merged[0] = merge(merged.pop() as Piece, merged[0]);
+    }
+    return merged;
+}
+
+// connects the end points of the pieces exactly and closes the contour
+function connectPieces(chain: Piece[], tolerance: number): RoundedPolygonSegment[] {
+    const segments = chain.map((piece) => piece.segment);
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    if (Vector2.subtract(last.end, first.start).length() > tolerance) {
+        segments.push({ type: 'line', start: last.end, end: first.start });
+    }
+
+    // lines and arcs of both outlines which continue each other are joined (e.g. at the ends
+    // of a common edge)
+    const joined: RoundedPolygonSegment[] = [];
+    segments.forEach((segment) => {
+        const last = joined[joined.length - 1];
+        const merged = last && joinSegments(last, segment, tolerance);
+        if (merged) {
+            joined[joined.length - 1] = merged;
+        } else {
+            joined.push(segment);
+        }
+    });
+    const wrapped =
+        joined.length > 2 && joinSegments(joined[joined.length - 1], joined[0], tolerance);
+    if (wrapped) {
+        joined.pop();
+        joined[0] = wrapped;
+    }
+
+    return joined.map((segment, i) => ({
+        ...segment,
+        start: joined[(i + joined.length - 1) % joined.length].end
+    }));
+}
+
+// returns the segment which replaces two connected lines or arcs, or null if the second
+// segment does not continue the first one
+function joinSegments(
+    a: RoundedPolygonSegment,
+    b: RoundedPolygonSegment,
+    tolerance: number
+): RoundedPolygonSegment | null {
+    if (a.type === 'line' && b.type === 'line') {
+        const da = Vector2.subtract(a.end, a.start);
+        const db = Vector2.subtract(b.end, b.start);
+        const collinear = Math.abs(da.cross(db)) <= tolerance * (da.length() + db.length());
+        return collinear && da.dot(db) > 0 ? { type: 'line', start: a.start, end: b.end } : null;
+    }
+
+    if (a.type === 'arc' && b.type === 'arc') {
+        const concentric =
+            Vector2.subtract(a.center, b.center).length() <= tolerance &&
+            Math.abs(a.radius - b.radius) <= tolerance &&
+            a.radiusY === b.radiusY &&
+            a.rotation === b.rotation &&
+            a.sweep === b.sweep;
+        // a full circle can not be drawn as a single arc
+        return concentric && a.angle + b.angle < Math.PI * 1.5
+            ? { ...a, end: b.end, angle: a.angle + b.angle }
+            : null;
+    }
+
+    return null;
+}
+
+function getWinding(outline: RoundedPolygonSegment[], point: Vector2): number {
+    return outline.reduce((w, s) => w + getSegmentWinding(s, point), 0);
+}
+
+// returns true if the point lies on one of the segments of the outline
+function isOnOutline(outline: RoundedPolygonSegment[], point: Vector2, tolerance: number): boolean {
+    return outline.some((segment) => {
+        if (!overlaps(getSegmentBounds(segment), { min: point, max: point }, tolerance)) {
+            return false;
+        }
+        const t = getSegmentClosestParameter(segment, point);
+        return Vector2.subtract(getSegmentPointAt(segment, t), point).length() <= tolerance;
+    });
+}
+
+function getBoundsOf(segments: RoundedPolygonSegment[]): Bounds {
+    return segments
+        .map((s) => getSegmentBounds(s))
+        .reduce((a, b) => ({
+            min: new Vector2(Math.min(a.min.x, b.min.x), Math.min(a.min.y, b.min.y)),
+            max: new Vector2(Math.max(a.max.x, b.max.x), Math.max(a.max.y, b.max.y))
+        }));
+}
+
+function getBoundsSize({ min, max }: Bounds): number {
+    return Math.max(max.x - min.x, max.y - min.y);
+}
+
+function overlaps(a: Bounds, b: Bounds, tolerance: number): boolean {
+    return (
+        a.min.x <= b.max.x + tolerance &&
+        b.min.x <= a.max.x + tolerance &&
+        a.min.y <= b.max.y + tolerance &&
+        b.min.y <= a.max.y + tolerance
+    );
+}
+
+// returns true if the value is a curve parameter (with a small tolerance for rounding errors)
+function isParameter(t: number): boolean {
+    return t >= -1e-9 && t <= 1 + 1e-9;
+}
+
+function clamp(t: number): number {
+    return Math.min(1, Math.max(0, t));
+}
@@ -0,0 +1,125 @@
+import { RoundedPolygon } from './rounded-polygon';
+import {
+    createDomRenderer,
+    RoundedPolygonClip,
+    RoundedPolygonClipMode
+} from './rounded-polygon-clip';
+import { Vector2 } from './vector2';
+
+// the resize observers report the size of the host elements before the next frame
+function waitForResize(): Promise<void> {
+    return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)));
+}
+
+describe('RoundedPolygonClip', () => {
+    let host: HTMLElement;
+    let styles: Map<string, string>;
+    let supported: string[];
+
+    // creates a clip path of the host element whose styles are recorded, so that the
+    // css values do not depend on the support of the browser
+    function createClip(mode: RoundedPolygonClipMode): RoundedPolygonClip {
+        const renderer = createDomRenderer(document);
+        const clip = new RoundedPolygonClip(host, {
+            renderer: {
+                ...renderer,
+                setStyle: (element, style, value) => styles.set(style, value),
+                removeStyle: (element, style) => styles.delete(style)
+            }
+        });
+        clip.mode = mode;
+        clip.shape = 'cookie-8';
+        return clip;
+    }
+
+    beforeEach(() => {
+        host = document.createElement('div');
+        document.body.appendChild(host);
+        styles = new Map();
+        supported = [];
+        spyOn(CSS, 'supports').and.callFake((property: string, value?: string) =>
+            supported.some((name) => value?.startsWith(`${name}(`))
+        );
+    });
+
+    afterEach(() => host.remove());
+
+    it('should apply the svg clip path by default', () => {
+        supported = ['path', 'shape'];
+        const clip = createClip('svg');
+
+        expect(styles.get('clip-path')).toMatch(/^url\(#/);
+        expect(host.children.length).toBe(1);
+
+        clip.destroy();
+        expect(host.children.length).toBe(0);
+        expect(styles.has('clip-path')).toBeFalse();
+    });
+
+    it('should apply the css shape function', () => {
+        supported = ['shape'];
+        const clip = createClip('shape');
+
+        expect(styles.get('clip-path')).toMatch(/^shape\(from [\d.]+% [\d.]+%, /);
+        expect(host.children.length).toBe(0);
+        clip.destroy();
+    });
+
+    it('should apply the css path function once the host is measured', async () => {
+        host.style.width = '100px';
+        host.style.height = '50px';
+        supported = ['path'];
+        const clip = createClip('path');
+
+        // the path is in pixel space, until the host is measured the svg clip path is applied
+        expect(styles.get('clip-path')).toMatch(/^url\(#/);
+        expect(host.children.length).toBe(1);
+
+        await waitForResize();
+        expect(styles.get('clip-path')).toMatch(/^path\('M/);
+        expect(host.children.length).toBe(0);
+        clip.destroy();
+    });
+
+    it('should measure the border box of the host', async () => {
+        // the fractional size of a host with a padding and a border
+        host.style.boxSizing = 'content-box';
+        host.style.width = '100.5px';
+        host.style.height = '50.5px';
+        host.style.padding = '10px';
+        host.style.border = '2px solid';
+        supported = ['path'];
+        const clip = createClip('path');
+
+        await waitForResize();
+        const polygon = clip.polygon as RoundedPolygon;
+        const d = polygon.getSVGPathData(new Vector2(124.5, 74.5), new Vector2(62.25, 37.25), 2);
+        expect(styles.get('clip-path')).toBe(`path('${d}')`);
+        clip.destroy();
+    });
+
+    it('should fall back to the svg clip path if the css function is not supported', () => {
+        // the shape mode does not fall back to the path function
+        supported = ['path'];
+        const shape = createClip('shape');
+        expect(styles.get('clip-path')).toMatch(/^url\(#/);
+        expect(host.children.length).toBe(1);
+        shape.destroy();
+
+        supported = [];
+        const path = createClip('path');
+        expect(styles.get('clip-path')).toMatch(/^url\(#/);
+        expect(host.children.length).toBe(1);
+        path.destroy();
+    });
+
+    it('should check the support of the css functions once', () => {
+        supported = ['shape'];
+        const clip = createClip('shape');
+        clip.shape = 'circle';
+        clip.shape = 'square';
+
+        expect(CSS.supports).toHaveBeenCalledTimes(1);
+        clip.destroy();
+    });
+});
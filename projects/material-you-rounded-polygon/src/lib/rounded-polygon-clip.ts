@@ -0,0 +1,642 @@
+import {
+    DEFAULT_ROUNDED_POLYGON_CONFIG,
+    resolveRoundedPolygonConfig,
+    RoundedPolygonConfig,
+    RoundedPolygonPresetName
+} from './rounded-polygon-config';
+import { Easing, EasingFunction } from './easing';
+import { RoundedPolygon } from './rounded-polygon';
+import { RoundedPolygonMorph } from './rounded-polygon-morph';
+import { RoundedPolygonShapeRegistry } from './rounded-polygon-registry';
+import {
+    createRoundedPolygonShape,
+    getRoundedPolygonTransform,
+    RoundedPolygonFit,
+    RoundedPolygonTransform
+} from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+// a random token which prevents id collisions with other applications (or other
+// bundles of this library) on the same page
+const ID_TOKEN = Math.random().toString(36).slice(2, 8);
+
+/**
+ * The value of a clip path shape, which is either the name of a preset or a
+ * (partial) configuration.
+ */
+export type RoundedPolygonClipShape = RoundedPolygonPresetName | Partial<RoundedPolygonConfig>;
+
+/**
+ * The output modes of the clip path.
+ *
+ * - `svg`: An svg `<clipPath>` element gets injected into the host element and is
+ *   referenced with `url(#id)` (default).
+ * - `path`: The css `path()` function is applied to the host element directly. The path
+ *   is in pixel space and gets updated whenever the host is resized.
+ * - `shape`: The css `shape()` function is applied to the host element directly. In the
+ *   `bounding-box` sizing mode, the coordinates are percentages, so that the shape is
+ *   responsive without measuring the host.
+ *
+ * The css modes do not depend on svg references, which break within the shadow dom. Both
+ * css modes fall back to `svg` if the browser does not support them.
+ */
+export type RoundedPolygonClipMode = 'svg' | 'path' | 'shape';
+
+/**
+ * The dom operations which are used to create the clip path. The Angular `Renderer2`
+ * implements this interface, so that the directive can pass its renderer. The
+ * default implementation uses the dom api of the host element's document.
+ *
+ * The elements are opaque to the clip path, they are only passed back to the renderer.
+ */
+export interface RoundedPolygonClipRenderer {
+    createElement(name: string, namespace: 'svg'): unknown;
+    setAttribute(element: unknown, name: string, value: string): void;
+    appendChild(parent: unknown, child: unknown): void;
+    removeChild(parent: unknown, child: unknown): void;
+    setStyle(element: unknown, style: string, value: string): void;
+    removeStyle(element: unknown, style: string): void;
+}
+
+/**
+ * The options of a {@link RoundedPolygonClip}.
+ */
+export interface RoundedPolygonClipOptions {
+    /**
+     * The renderer which performs the dom operations (see {@link RoundedPolygonClipRenderer}).
+     */
+    renderer?: RoundedPolygonClipRenderer;
+
+    /**
+     * Wraps the registration of the animation frame and resize observer callbacks, e.g. to
+     * run them outside of the Angular zone.
+     */
+    runOutside?: (callback: () => void) => void;
+
+    /**
+     * Receives the warnings about corrected shape input (see {@link RoundedPolygon.warnings}).
+     */
+    onWarning?: (message: string) => void;
+
+    /**
+     * Shares the svg clip paths of identical shapes with other clip paths of the document
+     * (see {@link RoundedPolygonShapeRegistry}). The morphs are drawn with the own clip path.
+     */
+    registry?: RoundedPolygonShapeRegistry;
+}
+
+/**
+ * This class draws a rounded svg polygon which gets applied as a clip-path to a host
+ * element. It is the framework independent implementation of the clip path adapters
+ * (the Angular directive, the custom element and the React hook).
+ *
+ * When the shape changes, the clip path morphs from the previous to the new shape. The
+ * animation can be configured with the `morphDuration` and `morphEasing` properties or
+ * driven manually by the `morphProgress` property.
+ *
+ * @example
+ *
+ * const clip = new RoundedPolygonClip(element);
+ * clip.shape = 'cookie-8';
+ * clip.fit = 'contain';
+ * // remove the clip path and all listeners
+ * clip.destroy();
+ */
+export class RoundedPolygonClip {
+    // this static variable is necessary for applying unique ids to the svg clip paths
+    private static _instanceCount = 0;
+
+    /**
+     * The duration of the morph between two shapes in milliseconds. A value
+     * of 0 disables the animation. Default is 300.
+     */
+    public morphDuration = 300;
+
+    /**
+     * The easing function of the morph animation. Default is the material standard easing.
+     */
+    public morphEasing: EasingFunction = Easing.standard;
+
+    // the unique id of the clip path of this instance
+    private readonly _id = `rounded-polygon-clip-path-${ID_TOKEN}-${RoundedPolygonClip._instanceCount++}`;
+
+    private readonly _renderer: RoundedPolygonClipRenderer;
+
+    private _config: RoundedPolygonConfig = {
+        ...DEFAULT_ROUNDED_POLYGON_CONFIG
+    };
+
+    // the rounded polygon of the current configuration
+    private _polygon: RoundedPolygon | null = null;
+
+    // the svg element which contains the clip path definition
+    private _svgElement: unknown = null;
+
+    // the clip path element and its path
+    private _clipPathElement: unknown = null;
+    private _pathElement: unknown = null;
+
+    // the id of the shared clip path of the registry, which is used instead of the own one
+    private _sharedId: string | null = null;
+
+    // the morph from the previously visible shape to the current shape
+    private _morph: RoundedPolygonMorph | null = null;
+
+    // the (eased) progress of the current morph
+    private _morphProgress = 1;
+
+    // the manually controlled progress of the morph
+    private _manualProgress: number | null = null;
+
+    private _animationFrame: number | null = null;
+
+    private _fit: RoundedPolygonFit = 'bounding-box';
+
+    private _mode: RoundedPolygonClipMode = 'svg';
+
+    // the css clip path functions which are supported by the browser (checked once per clip path)
+    private _cssSupport: { path?: boolean; shape?: boolean } = {};
+
+    // the size of the host element in pixels (only measured for the pixel space sizing modes)
+    private _hostSize: Vector2 | null = null;
+
+    private _resizeObserver: ResizeObserver | null = null;
+
+    // the listeners which follow the drawing of the clip path (e.g. an outline layer)
+    private _drawListeners: (() => void)[] = [];
+
+    /**
+     * Creates the clip path controller of the host element. The clip path gets applied as
+     * soon as the first shape is set.
+     *
+     * @param host The element which gets clipped
+     * @param options See {@link RoundedPolygonClipOptions}
+     */
+    constructor(
+        public readonly host: HTMLElement,
+        private options: RoundedPolygonClipOptions = {}
+    ) {
+        this._renderer = options.renderer ?? createDomRenderer(host.ownerDocument);
+    }
+
+    /**
+     * The resolved configuration of the current shape.
+     */
+    public get config(): RoundedPolygonConfig {
+        return this._config;
+    }
+
+    /**
+     * The rounded polygon of the current shape in the coordinate system of the sizing
+     * mode (null until the first shape is set).
+     */
+    public get polygon(): RoundedPolygon | null {
+        return this._polygon;
+    }
+
+    /**
+     * The shape which is currently visible. These are the outline points of the intermediate
+     * shape while a morph is in progress, otherwise it is the current rounded polygon.
+     */
+    public get visibleShape(): RoundedPolygon | Vector2[] | null {
+        if (this._morph && this._morphProgress < 1) {
+            return this._morph.getPointsAt(this._morphProgress);
+        }
+        return this._polygon;
+    }
+
+    /**
+     * Sets the shape of the clip path, which is either the name of a preset shape (see
+     * {@link ROUNDED_POLYGON_PRESETS}) or a (partial) configuration.
+     */
+    public set shape(value: RoundedPolygonClipShape) {
+        this._config = resolveRoundedPolygonConfig(value);
+        this.updateResizeObserver();
+        this.updateShape();
+    }
+
+    /**
+     * Manually controls the progress (number between 0 and 1) of the morph from the previous
+     * to the current shape. While this value is set, the automatic animation is disabled.
+     */
+    public get morphProgress(): number | null {
+        return this._manualProgress;
+    }
+
+    public set morphProgress(value: number | null) {
+        this._manualProgress = value;
+
+        if (value !== null) {
+            this.cancelAnimation();
+            this._morphProgress = value;
+            this.drawMorph();
+        }
+    }
+
+    /**
+     * The sizing mode of the clip path (see {@link RoundedPolygonFit}). Default is `bounding-box`.
+     */
+    public get fit(): RoundedPolygonFit {
+        return this._fit;
+    }
+
+    public set fit(value: RoundedPolygonFit) {
+        this._fit = value;
+        this.updateResizeObserver();
+
+        if (this._polygon) {
+            this.updateShape(false);
+        }
+    }
+
+    /**
+     * The output mode of the clip path (see {@link RoundedPolygonClipMode}). Default is `svg`.
+     */
+    public get mode(): RoundedPolygonClipMode {
+        return this._mode;
+    }
+
+    public set mode(value: RoundedPolygonClipMode) {
+        this._mode = value;
+        this.updateResizeObserver();
+
+        if (this._polygon) {
+            this.updateShape(false);
+        }
+    }
+
+    /**
+     * Registers a listener which gets called whenever the clip path has been drawn,
+     * including each frame of a morph (see {@link visibleShape}).
+     *
+     * @param listener The function which gets called after drawing
+     * @returns A function which removes the listener
+     */
+    public addDrawListener(listener: () => void): () => void {
+        this._drawListeners.push(listener);
+        return () => (this._drawListeners = this._drawListeners.filter((l) => l !== listener));
+    }
+
+    /**
+     * Stops the animation and the observation of the host element and removes
+     * the clip path from the host element.
+     */
+    public destroy(): void {
+        this.cancelAnimation();
+        this.disconnectResizeObserver();
+
+        // remove the clip path from the host element
+        this._renderer.removeStyle(this.host, 'clip-path');
+        this.removeSvgElement();
+        this.releaseSharedClipPath();
+    }
+
+    private updateShape(morph: boolean = true): void {
+        // the shape which is currently visible is the starting point of the morph
+        let from: RoundedPolygon | Vector2[] | null = morph ? this._polygon : null;
+        if (morph && this._morph && this._morphProgress < 1) {
+            from = this._morph.getPointsAt(this._morphProgress);
+        }
+
+        this.cancelAnimation();
+        this._polygon = createRoundedPolygonShape(this._config, this._fit, this._hostSize);
+        if (this.options.onWarning && this._polygon.warnings.length > 0) {
+            // report the corrections of the input vertices
+            this.options.onWarning(this._polygon.warnings.join(' '));
+        }
+
+        if (from) {
+            // without animation frames (e.g. during server side rendering) the morph
+            // jumps to the new shape
+            const animated = this.morphDuration > 0 && typeof requestAnimationFrame === 'function';
+            this._morph = new RoundedPolygonMorph(
+                from,
+                this._polygon,
+                undefined,
+                this.getMorphTolerance()
+            );
+            this._morphProgress = this._manualProgress ?? (animated ? 0 : 1);
+        } else {
+            // the initial shape is drawn without a morph
+            this._morph = null;
+            this._morphProgress = 1;
+        }
+
+        this.drawClipPath();
+
+        if (this._manualProgress === null && this._morphProgress < 1) {
+            this.startAnimation();
+        }
+    }
+
+    private drawClipPath(): void {
+        if (this.getOutputMode() !== 'svg') {
+            // the css modes apply the clip path to the host element directly
+            this.removeSvgElement();
+            this.releaseSharedClipPath();
+            this.drawMorph();
+            return;
+        }
+
+        if (this.drawSharedClipPath()) {
+            return;
+        }
+        this.releaseSharedClipPath();
+
+        if (!this._svgElement) {
+            this.createSvgElement();
+        }
+
+        // the pixel space sizing modes use the coordinate system of the host element
+        this._renderer.setAttribute(
+            this._clipPathElement,
+            'clipPathUnits',
+            this.getDrawFit() === 'bounding-box' ? 'objectBoundingBox' : 'userSpaceOnUse'
+        );
+
+        // update the path of the clip path in place
+        this._renderer.setAttribute(this._pathElement, 'd', this.createShapePath('svg'));
+        this._drawListeners.forEach((listener) => listener());
+    }
+
+    // references the shared clip path of the current shape, if there is a registry and the
+    // shape can be shared
+    private drawSharedClipPath(): boolean {
+        const registry = this.options.registry;
+        const morphing = this._morph !== null && this._morphProgress < 1;
+        if (!registry || morphing || this.getDrawFit() !== 'bounding-box') {
+            return false;
+        }
+
+        // the new clip path is acquired first, so that an unchanged shape is not recreated
+        const id = registry.acquire(this._config);
+        if (id === null) {
+            return false;
+        }
+        this.releaseSharedClipPath();
+        this._sharedId = id;
+
+        this.removeSvgElement();
+        this._renderer.setStyle(this.host, 'clip-path', `url(#${id})`);
+        this._drawListeners.forEach((listener) => listener());
+        return true;
+    }
+
+    private releaseSharedClipPath(): void {
+        if (this._sharedId !== null) {
+            this.options.registry?.release(this._sharedId);
+            this._sharedId = null;
+        }
+    }
+
+    // until the host is measured (e.g. during server side rendering), the shapes of the
+    // pixel space sizing modes are stretched to the bounding box
+    private getDrawFit(): RoundedPolygonFit {
+        return this._hostSize ? this._fit : 'bounding-box';
+    }
+
+    // the outlines of the morph deviate less than a quarter pixel from the exact shapes
+    private getMorphTolerance(): number | undefined {
+        const size = this._hostSize;
+        if (!size) {
+            return undefined;
+        }
+        if (this._fit === 'bounding-box') {
+            return 0.25 / Math.max(size.x, size.y);
+        }
+        const transform = getRoundedPolygonTransform(this._fit, size) as RoundedPolygonTransform;
+        return 0.25 / (transform.scale as number);
+    }
+
+    // returns the output mode which is supported by the browser, the css path is in pixel
+    // space and falls back to the svg clip path until the host is measured
+    private getOutputMode(): RoundedPolygonClipMode {
+        if (this._mode === 'svg' || !this.supportsClipPath(this._mode)) {
+            return 'svg';
+        }
+        return this._mode === 'path' && !this._hostSize ? 'svg' : this._mode;
+    }
+
+    // returns true if the browser supports the css function as the value of the clip-path property
+    private supportsClipPath(type: 'path' | 'shape'): boolean {
+        if (this._cssSupport[type] === undefined) {
+            const value =
+                type === 'path'
+                    ? "path('M0,0L1,0L0,1Z')"
+                    : 'shape(from 0 0, line to 1px 0, line to 0 1px, close)';
+            this._cssSupport[type] =
+                typeof CSS !== 'undefined' &&
+                typeof CSS.supports === 'function' &&
+                CSS.supports('clip-path', value);
+        }
+        return this._cssSupport[type] as boolean;
+    }
+
+    // the host size is required by the pixel space sizing modes, the css path mode and the
+    // pixel offsets of the shape
+    private updateResizeObserver(): void {
+        const offset = this._config.inset || this._config.outset;
+        const path = this._mode === 'path' && this.supportsClipPath('path');
+        if (this._fit !== 'bounding-box' || path || offset) {
+            this.observeHostSize();
+        } else {
+            this.disconnectResizeObserver();
+            this._hostSize = null;
+        }
+    }
+
+    private observeHostSize(): void {
+        if (this._resizeObserver || typeof ResizeObserver === 'undefined') {
+            return;
+        }
+
+        // the resize callbacks do not need to trigger the change detection
+        this.runOutside(() => {
+            this._resizeObserver = new ResizeObserver((entries) => {
+                if (entries.length === 0) {
+                    return;
+                }
+
+                const { x: width, y: height } = getResizeEntrySize(entries[entries.length - 1]);
+                if (!this._hostSize || this._hostSize.x !== width || this._hostSize.y !== height) {
+                    this._hostSize = new Vector2(width, height);
+                    if (this._polygon) {
+                        this.updateShape(false);
+                    }
+                }
+            });
+            this._resizeObserver.observe(this.host, { box: 'border-box' });
+        });
+    }
+
+    private disconnectResizeObserver(): void {
+        if (this._resizeObserver) {
+            this._resizeObserver.disconnect();
+            this._resizeObserver = null;
+        }
+    }
+
+    private createSvgElement(): void {
+        const svg = this._renderer.createElement('svg', 'svg');
+        this._renderer.setAttribute(svg, 'width', '0');
+        this._renderer.setAttribute(svg, 'height', '0');
+        this._renderer.setAttribute(svg, 'viewBox', '-0.5 -0.5 1 1');
+        this._renderer.setAttribute(svg, 'aria-hidden', 'true');
+
+        const defs = this._renderer.createElement('defs', 'svg');
+        const clipPath = this._renderer.createElement('clipPath', 'svg');
+        this._renderer.setAttribute(clipPath, 'id', this._id);
+        const path = this._renderer.createElement('path', 'svg');
+        this._renderer.setAttribute(path, 'fill', '#FFFFFF');
+        this._renderer.setAttribute(path, 'stroke', '#000000');
+
+        this._renderer.appendChild(clipPath, path);
+        this._renderer.appendChild(defs, clipPath);
+        this._renderer.appendChild(svg, defs);
+
+        // append the svg clip path to the host element
+        this._renderer.appendChild(this.host, svg);
+        this._svgElement = svg;
+        this._clipPathElement = clipPath;
+        this._pathElement = path;
+
+        // apply the clip path to the host element
+        this._renderer.setStyle(this.host, 'clip-path', `url(#${this._id})`);
+    }
+
+    private removeSvgElement(): void {
+        if (this._svgElement) {
+            this._renderer.removeChild(this.host, this._svgElement);
+            this._svgElement = null;
+            this._clipPathElement = null;
+            this._pathElement = null;
+        }
+    }
+
+    private drawMorph(): void {
+        const mode = this.getOutputMode();
+        if (mode !== 'svg') {
+            this._renderer.setStyle(this.host, 'clip-path', this.createShapePath(mode));
+        } else if (this.options.registry) {
+            // switches between the own clip path of the morph and the shared clip path
+            this.drawClipPath();
+            return;
+        } else if (this._pathElement) {
+            this._renderer.setAttribute(this._pathElement, 'd', this.createShapePath(mode));
+        }
+        this._drawListeners.forEach((listener) => listener());
+    }
+
+    private startAnimation(): void {
+        // the animation frames do not need to trigger the change detection
+        this.runOutside(() => {
+            const start = performance.now();
+            const step = (time: number) => {
+                const t = Math.min(1, (time - start) / this.morphDuration);
+                this._morphProgress = t < 1 ? this.morphEasing(t) : 1;
+                this.drawMorph();
+                this._animationFrame = t < 1 ? requestAnimationFrame(step) : null;
+            };
+            this._animationFrame = requestAnimationFrame(step);
+        });
+    }
+
+    private cancelAnimation(): void {
+        if (this._animationFrame !== null) {
+            cancelAnimationFrame(this._animationFrame);
+            this._animationFrame = null;
+        }
+    }
+
+    // returns the svg path data or the css clip path value of the current shape
+    private createShapePath(mode: RoundedPolygonClipMode): string {
+        const transform = this.getTransform(mode);
+        if (!transform || !this._polygon) {
+            return '';
+        }
+
+        const { scale, translate, precision } = transform;
+        const progress = this._morph && this._morphProgress < 1 ? this._morphProgress : null;
+
+        if (mode === 'shape') {
+            const unit = this.getDrawFit() === 'bounding-box' ? '%' : 'px';
+            return this._morph && progress !== null
+                ? this._morph.getCSSShape(progress, scale, translate, precision, unit)
+                : this._polygon.getCSSShape(scale, translate, precision, unit);
+        }
+
+        const d =
+            this._morph && progress !== null
+                ? this._morph.getSVGPathData(progress, scale, translate, precision)
+                : this._polygon.getSVGPathData(scale, translate, precision);
+        return mode === 'path' ? `path('${d}')` : d;
+    }
+
+    private getTransform(mode: RoundedPolygonClipMode): RoundedPolygonTransform | null {
+        const fit = this.getDrawFit();
+        if (fit !== 'bounding-box' || mode === 'svg') {
+            return getRoundedPolygonTransform(fit, this._hostSize);
+        }
+
+        if (mode === 'shape') {
+            // percentages of the reference box
+            return { scale: 100, translate: new Vector2(50, 50), precision: 2 };
+        }
+
+        // the css path is in pixels, therefore the bounding box needs to be stretched
+        const { x: width, y: height } = this._hostSize as Vector2;
+        return {
+            scale: new Vector2(width, height),
+            translate: new Vector2(width / 2, height / 2),
+            precision: 2
+        };
+    }
+
+    private runOutside(callback: () => void): void {
+        if (this.options.runOutside) {
+            this.options.runOutside(callback);
+        } else {
+            callback();
+        }
+    }
+}
+
+/**
+ * Creates a renderer which uses the dom api of the given document.
+ */
+export function createDomRenderer(document: Document): RoundedPolygonClipRenderer {
+    return {
+        createElement: (name) => document.createElementNS('http://www.w3.org/2000/svg', name),
+        setAttribute: (element, name, value) => (element as Element).setAttribute(name, value),
+        appendChild: (parent, child) => (parent as Node).appendChild(child as Node),
+        removeChild: (parent, child) => (parent as Node).removeChild(child as Node),
+        setStyle: (element, style, value) =>
+            (element as ElementCSSInlineStyle).style.setProperty(style, value),
+        removeStyle: (element, style) =>
+            (element as ElementCSSInlineStyle).style.removeProperty(style)
+    };
+}
+
+/**
+ * Returns the size of the border box of an observed element, which is the reference box of
+ * the clip paths. Browsers without the `borderBoxSize` of the resize entries report the
+ * size of the content rect.
+ *
+ * @param entry The latest resize observer entry of the element
+ */
+export function getResizeEntrySize(entry: ResizeObserverEntry): Vector2 {
+    // older browsers report a single size instead of the sizes of the fragments
+    const box = entry.borderBoxSize as ResizeObserverSize | readonly ResizeObserverSize[];
+    const size = (Array.isArray(box) ? box[0] : box) as ResizeObserverSize | undefined;
+    if (!size) {
+        return new Vector2(entry.contentRect.width, entry.contentRect.height);
+    }
+
+    // the inline size is the height of the vertical writing modes
+    const vertical =
+        typeof getComputedStyle === 'function' &&
+        /^(vertical|sideways)/.test(getComputedStyle(entry.target).writingMode);
+    return vertical
+        ? new Vector2(size.blockSize, size.inlineSize)
+        : new Vector2(size.inlineSize, size.blockSize);
+}
@@ -0,0 +1,116 @@
+import {
+    createSVGPathData,
+    drawSegmentPath,
+    RoundedPolygonPathOptions
+} from './rounded-polygon-path';
+import {
+    Bounds,
+    getSegmentBounds,
+    getSegmentMoments,
+    getSegmentWinding,
+    RoundedPolygonSegment
+} from './rounded-polygon-segment';
+import { Vector2 } from './vector2';
+
+/**
+ * A shape which consists of several closed outlines (contours) of lines, arcs and cubic
+ * bézier curves, e.g. the result of a boolean operation (see {@link combineRoundedPolygons}).
+ *
+ * The outer contours have a positive orientation (the interior lies on the left side of the
+ * outline) and the contours of holes have a negative orientation, so that the shape gets
+ * filled correctly with both the `nonzero` and the `evenodd` fill rule.
+ */
+export class RoundedPolygonCompound {
+    /**
+     * @param contours The segments of each closed contour
+     */
+    constructor(public readonly contours: RoundedPolygonSegment[][] = []) {}
+
+    /**
+     * Returns the segments of all contours.
+     */
+    public getSegments(): RoundedPolygonSegment[] {
+        return this.contours.reduce(
+            (list, contour) => list.concat(contour),
+            [] as RoundedPolygonSegment[]
+        );
+    }
+
+    /**
+     * Returns the exact axis aligned bounding box of all contours.
+     */
+    public getBounds(): Bounds {
+        const segments = this.getSegments();
+        if (!segments.length) {
+            return { min: new Vector2(0, 0), max: new Vector2(0, 0) };
+        }
+
+        return segments
+            .map((s) => getSegmentBounds(s))
+            .reduce((a, b) => ({
+                min: new Vector2(Math.min(a.min.x, b.min.x), Math.min(a.min.y, b.min.y)),
+                max: new Vector2(Math.max(a.max.x, b.max.x), Math.max(a.max.y, b.max.y))
+            }));
+    }
+
+    /**
+     * Returns the enclosed area (the area of the holes is subtracted).
+     */
+    public getArea(): number {
+        return Math.abs(this.getSegments().reduce((a, s) => a + getSegmentMoments(s).area, 0));
+    }
+
+    /**
+     * Returns true if the given point lies inside the shape (non-zero winding rule).
+     * Points on the outline may be reported as inside or outside.
+     */
+    public containsPoint(point: Vector2): boolean {
+        return this.getSegments().reduce((w, s) => w + getSegmentWinding(s, point), 0) !== 0;
+    }
+
+    /**
+     * Returns the svg path data of the shape. Each contour becomes a sub path.
+     *
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     * @param precision The number of decimal values used within the path data
+     * @param options The formatting options (see {@link RoundedPolygonPathOptions})
+     */
+    public getSVGPathData(
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0),
+        precision: number = 2,
+        options: RoundedPolygonPathOptions = {}
+    ): string {
+        return createSVGPathData(this.contours, scale, translate, precision, options);
+    }
+
+    /**
+     * Adds the contours as closed sub paths to the given canvas path, which is either a
+     * `CanvasRenderingContext2D` or a `Path2D`.
+     *
+     * @param path The canvas context or Path2D object to draw into
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     */
+    public drawPath(
+        path: CanvasPath,
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0)
+    ): void {
+        drawSegmentPath(path, this.contours, scale, translate);
+    }
+
+    /**
+     * Creates a `Path2D` object of the shape, which can be filled, stroked or used as a
+     * clipping region of a canvas context.
+     *
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     */
+    public getPath2D(scale: number | Vector2 = 1, translate: Vector2 = new Vector2(0, 0)): Path2D {
+        const path = new Path2D();
+        this.drawPath(path, scale, translate);
+        return path;
+    }
+}
@@ -0,0 +1,339 @@
+import { CornerRadius } from './rounded-polygon';
+import { Vector2 } from './vector2';
+
+/**
+ * A vertex in normalized coordinates. The vertices lie within the unit circle (the
+ * same space as the outer radius of the star polygons), where (0, 0) is the center
+ * of the shape and the y axis points down.
+ */
+export type RoundedPolygonVertex = [number, number] | Vector2;
+
+/**
+ * A list of normalized vertices or a function which generates them from the
+ * current configuration.
+ */
+export type RoundedPolygonVertices =
+    | RoundedPolygonVertex[]
+    | ((config: RoundedPolygonConfig) => RoundedPolygonVertex[]);
+
+/**
+ * The configuration settings of a rounded polygon shape (e.g. the input of the
+ * clip path directive or the attributes of the custom element).
+ */
+export interface RoundedPolygonConfig {
+    /**
+     * Number of corners
+     */
+    cornerCount: number;
+
+    /**
+     * The outer radius of the polygon (number between 0 and 1). Default is 1 which is
+     * equal to 100% of the available space.
+     */
+    outerRadius: number;
+
+    /**
+     * The ratio of the inner radius to the outer radius of the
+     * polygon (number between 0 and 1). A value of 1 will result in
+     * a convex polygon. Default is 0.5.
+     */
+    innerRadiusRatio: number;
+
+    /**
+     * The radius of the corners (number between 0 and 1). Whe set to 1,
+     * the maximal possible corner radius depending on the corner angle
+     * will be used. Default is 1.
+     */
+    cornerRadius: number;
+
+    /**
+     * A list with the radius of each corner which overrides all other corner radius
+     * settings. The list gets repeated if it is shorter than the list of vertices. Each
+     * radius is either a ratio (number between 0 and 1) or an absolute radius in normalized
+     * coordinates (e.g. `{ radius: 0.2 }`, see {@link CornerRadius}).
+     */
+    cornerRadii?: CornerRadius[];
+
+    /**
+     * The radius of the outer corners of the star polygon (a ratio or an absolute radius like
+     * the {@link cornerRadii}). Overrides the `cornerRadius` for the outer corners if set.
+     */
+    outerCornerRadius?: CornerRadius;
+
+    /**
+     * The radius of the inner corners of the star polygon (a ratio or an absolute radius like
+     * the {@link cornerRadii}). Overrides the `cornerRadius` for the inner corners if set.
+     */
+    innerCornerRadius?: CornerRadius;
+
+    /**
+     * The smoothing of the corners (number between 0 and 1). A value greater than 0 replaces
+     * a part of the circular corner arcs with curves which smoothly blend into the
+     * straight edges (similar to the corner smoothing of figma). Default is 0.
+     */
+    cornerSmoothing: number;
+
+    /**
+     * The rotation of the polygon in degrees. Default is 0.
+     */
+    tilt: number;
+
+    /**
+     * Custom vertices of the polygon in normalized coordinates (see {@link RoundedPolygonVertex})
+     * or a function which generates them. When set, the vertices replace the star polygon and
+     * the `cornerCount` and `innerRadiusRatio` settings are ignored.
+     */
+    vertices?: RoundedPolygonVertices;
+
+    /**
+     * Moves the outline inwards by the given distance in pixels (e.g. for inner tonal
+     * layers). The corner radii shrink by the distance (see {@link RoundedPolygon.offset}).
+     * Default is 0.
+     */
+    inset?: number;
+
+    /**
+     * Moves the outline outwards by the given distance in pixels (e.g. for a focus ring
+     * around an element). The corner radii grow by the distance. Default is 0.
+     */
+    outset?: number;
+}
+
+/**
+ * The default configuration object.
+ */
+export const DEFAULT_ROUNDED_POLYGON_CONFIG: RoundedPolygonConfig = {
+    cornerCount: 4,
+    outerRadius: 1,
+    innerRadiusRatio: 0.4,
+    cornerRadius: 1,
+    cornerSmoothing: 0,
+    tilt: 0
+};
+
+/**
+ * A preset is a (partial) configuration which gets merged with the default configuration.
+ */
+export type RoundedPolygonPreset = Partial<RoundedPolygonConfig>;
+
+/**
+ * The names of the available shape presets.
+ */
+export type RoundedPolygonPresetName =
+    | 'circle'
+    | 'square'
+    | 'slanted-square'
+    | 'arch'
+    | 'fan'
+    | 'arrow'
+    | 'semicircle'
+    | 'oval'
+    | 'pill'
+    | 'triangle'
+    | 'diamond'
+    | 'clamshell'
+    | 'pentagon'
+    | 'gem'
+    | 'sunny'
+    | 'very-sunny'
+    | 'cookie-4'
+    | 'cookie-6'
+    | 'cookie-7'
+    | 'cookie-8'
+    | 'clover-4'
+    | 'clover-8'
+    | 'burst'
+    | 'soft-burst'
+    | 'boom'
+    | 'soft-boom'
+    | 'flower'
+    | 'puffy'
+    | 'ghost-ish'
+    | 'heart';
+
+// creates the vertices of a rectangle with the given aspect ratio which lie on the unit circle
+function rectangle(width: number, height: number): [number, number][] {
+    const x = width / Math.hypot(width, height);
+    const y = height / Math.hypot(width, height);
+    return [
+        [-x, -y],
+        [x, -y],
+        [x, y],
+        [-x, y]
+    ];
+}
+
+// creates the vertices of a regular polygon with the given radius
+function regularPolygon(
+    corners: number,
+    radiusX: number = 1,
+    radiusY: number = radiusX,
+    startAngle: number = -90
+): [number, number][] {
+    const vertices: [number, number][] = [];
+    for (let i = 0; i < corners; i++) {
+        const angle = (startAngle + (i * 360) / corners) * (Math.PI / 180);
+        vertices.push([Math.cos(angle) * radiusX, Math.sin(angle) * radiusY]);
+    }
+    return vertices;
+}
+
+/**
+ * The catalogue of the material 3 shapes.
+ */
+export const ROUNDED_POLYGON_PRESETS: Record<RoundedPolygonPresetName, RoundedPolygonPreset> = {
+    circle: { cornerCount: 4, innerRadiusRatio: 1, cornerRadius: 1 },
+    square: { vertices: rectangle(1, 1), cornerRadius: 0.3 },
+    'slanted-square': {
+        vertices: [
+            [-0.62, -0.78],
+            [0.78, -0.62],
+            [0.62, 0.78],
+            [-0.78, 0.62]
+        ],
+        cornerRadius: 0.5
+    },
+    arch: { vertices: rectangle(1, 1), cornerRadii: [1, 1, 0.25, 0.25] },
+    fan: { vertices: rectangle(1, 1), cornerRadii: [0.15, 1, 1, 1] },
+    arrow: {
+        vertices: [
+            [0, -1],
+            [0.75, 0.65],
+            [0, 0.3],
+            [-0.75, 0.65]
+        ],
+        cornerRadius: 0.35
+    },
+    semicircle: {
+        vertices: [
+            [-0.9, -0.45],
+            [0.9, -0.45],
+            [0.9, 0.1],
+            [0.45, 0.55],
+            [-0.45, 0.55],
+            [-0.9, 0.1]
+        ],
+        cornerRadii: [0.15, 0.15, 1, 1, 1, 1]
+    },
+    oval: { vertices: regularPolygon(8, 1, 0.65, 22.5), cornerRadius: 1, tilt: 315 },
+    pill: { vertices: rectangle(2, 1), cornerRadius: 1, tilt: 315 },
+    triangle: { vertices: regularPolygon(3), cornerRadius: 0.3 },
+    diamond: {
+        vertices: [
+            [0, -1],
+            [0.8, 0],
+            [0, 1],
+            [-0.8, 0]
+        ],
+        cornerRadius: 0.35
+    },
+    clamshell: { vertices: regularPolygon(6, 1, 0.75, 0), cornerRadius: 0.5 },
+    pentagon: { vertices: regularPolygon(5), cornerRadius: 0.35 },
+    gem: {
+        vertices: regularPolygon(6, 0.9, 1, -90),
+        cornerRadii: [0.6, 0.3, 0.3, 0.6, 0.3, 0.3]
+    },
+    sunny: { cornerCount: 8, innerRadiusRatio: 0.8, cornerRadius: 0.5 },
+    'very-sunny': { cornerCount: 8, innerRadiusRatio: 0.65, cornerRadius: 0.5 },
+    'cookie-4': { cornerCount: 4, innerRadiusRatio: 0.75, cornerRadius: 1 },
+    'cookie-6': { cornerCount: 6, innerRadiusRatio: 0.8, cornerRadius: 1 },
+    'cookie-7': { cornerCount: 7, innerRadiusRatio: 0.8, cornerRadius: 1 },
+    'cookie-8': { cornerCount: 8, innerRadiusRatio: 0.82, cornerRadius: 1 },
+    'clover-4': {
+        cornerCount: 4,
+        innerRadiusRatio: 0.35,
+        outerCornerRadius: 1,
+        innerCornerRadius: 0.3,
+        tilt: 45
+    },
+    'clover-8': {
+        cornerCount: 8,
+        innerRadiusRatio: 0.65,
+        outerCornerRadius: 1,
+        innerCornerRadius: 0.3
+    },
+    burst: { cornerCount: 12, innerRadiusRatio: 0.7, cornerRadius: 0.15 },
+    'soft-burst': { cornerCount: 10, innerRadiusRatio: 0.7, cornerRadius: 0.7 },
+    boom: { cornerCount: 15, innerRadiusRatio: 0.42, cornerRadius: 0.15 },
+    'soft-boom': { cornerCount: 16, innerRadiusRatio: 0.42, cornerRadius: 0.7 },
+    flower: {
+        cornerCount: 8,
+        innerRadiusRatio: 0.6,
+        outerCornerRadius: 1,
+        innerCornerRadius: 0.6
+    },
+    puffy: {
+        cornerCount: 6,
+        innerRadiusRatio: 0.75,
+        outerCornerRadius: 1,
+        innerCornerRadius: 0.5,
+        tilt: 30
+    },
+    'ghost-ish': {
+        vertices: [
+            [-0.7, -0.7],
+            [0.7, -0.7],
+            [0.7, 0.7],
+            [0.23, 0.45],
+            [0, 0.7],
+            [-0.23, 0.45],
+            [-0.7, 0.7]
+        ],
+        cornerRadii: [1, 1, 0.5, 0.5, 0.5, 0.5, 0.5]
+    },
+    heart: {
+        vertices: [
+            [0, -0.45],
+            [0.45, -0.85],
+            [0.95, -0.3],
+            [0, 0.95],
+            [-0.95, -0.3],
+            [-0.45, -0.85]
+        ],
+        cornerRadii: [0.3, 1, 1, 0.3, 1, 1]
+    }
+};
+
+/**
+ * Resolves a preset name or a (partial) configuration to a complete configuration. Missing
+ * values are taken from the {@link DEFAULT_ROUNDED_POLYGON_CONFIG} and all values are
+ * clamped to their valid ranges.
+ *
+ * @param value The name of a preset or a (partial) configuration
+ * @throws {Error} If the preset name is unknown
+ */
+export function resolveRoundedPolygonConfig(
+    value: RoundedPolygonPresetName | Partial<RoundedPolygonConfig> | null | undefined
+): RoundedPolygonConfig {
+    // resolve the preset shapes
+    if (typeof value === 'string') {
+        const preset = ROUNDED_POLYGON_PRESETS[value];
+        if (!preset) {
+            throw new Error(`Unknown rounded polygon preset "${value}".`);
+        }
+        value = preset;
+    }
+
+    // overwrite the default configuration
+    const config: RoundedPolygonConfig = { ...DEFAULT_ROUNDED_POLYGON_CONFIG, ...value };
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    const clampRadius = (r: CornerRadius): CornerRadius =>
+        typeof r === 'number' ? clamp(r) : { radius: Math.max(0, r.radius) };
+
+    // clamp values to valid ranges
+    config.cornerCount = Math.max(3, config.cornerCount);
+    config.outerRadius = clamp(config.outerRadius);
+    config.innerRadiusRatio = clamp(config.innerRadiusRatio);
+    config.tilt = Math.min(360, Math.max(0, config.tilt));
+    config.cornerRadius = clamp(config.cornerRadius);
+    config.cornerSmoothing = clamp(config.cornerSmoothing);
+    if (config.cornerRadii) {
+        config.cornerRadii = config.cornerRadii.map(clampRadius);
+    }
+    config.outerCornerRadius = clampRadius(config.outerCornerRadius ?? config.cornerRadius);
+    config.innerCornerRadius = clampRadius(config.innerCornerRadius ?? config.cornerRadius);
+    config.inset = Math.max(0, config.inset || 0);
+    config.outset = Math.max(0, config.outset || 0);
+
+    return config;
+}
@@ -0,0 +1,93 @@
+import { RoundedPolygon } from './rounded-polygon';
+import { resolveRoundedPolygonConfig, RoundedPolygonVertex } from './rounded-polygon-config';
+import { createRoundedPolygonShape } from './rounded-polygon-shape';
+import {
+    fromRoundedPolygonJSON,
+    RoundedPolygonValidationError,
+    toRoundedPolygonJSON,
+    validateRoundedPolygonJSON
+} from './rounded-polygon-json';
+import { Vector2 } from './vector2';
+
+describe('RoundedPolygonJSON', () => {
+    it('should restore serialized polygons', () => {
+        const config = { cornerCount: 6, innerRadiusRatio: 0.6, cornerSmoothing: 0.5 };
+        const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig(config));
+        const json = JSON.stringify(toRoundedPolygonJSON(polygon, config));
+        const copy = fromRoundedPolygonJSON(json);
+
+        expect(copy.getSVGPathData(100, new Vector2(0, 0), 6)).toEqual(
+            polygon.getSVGPathData(100, new Vector2(0, 0), 6)
+        );
+        expect(JSON.parse(json).config).toEqual(config);
+    });
+
+    it('should store generated vertices as coordinates', () => {
+        const vertices = (): RoundedPolygonVertex[] => [new Vector2(0, -1), [1, 1], [-1, 1]];
+        const config = { vertices };
+        const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig(config));
+        const json = toRoundedPolygonJSON(polygon, config);
+
+        expect(json.config?.vertices).toEqual([
+            [0, -1],
+            [1, 1],
+            [-1, 1]
+        ]);
+        expect(validateRoundedPolygonJSON(json)).toEqual([]);
+    });
+
+    it('should reject unknown schema versions', () => {
+        const square = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 1), new Vector2(0, 1)];
+        const json = { ...toRoundedPolygonJSON(RoundedPolygon.createFromVertices(square)) };
+
+        expect(() => fromRoundedPolygonJSON({ ...json, version: 2 })).toThrowError(
+            RoundedPolygonValidationError,
+            /Unsupported schema version 2/
+        );
+        expect(validateRoundedPolygonJSON({ ...json, version: undefined })).toEqual([
+            '"version" is missing.'
+        ]);
+    });
+
+    it('should list all validation errors', () => {
+        const errors = validateRoundedPolygonJSON({
+            version: 1,
+            vertices: [
+                [0, 0],
+                [1, 0],
+                [1, NaN]
+            ],
+            radii: [0.1, -1],
+            smoothing: 2,
+            config: { cornerCount: '6', color: 'red' }
+        });
+
+        expect(errors).toEqual([
+            '"vertices[2]" must be an [x, y] pair of finite numbers.',
+            '"radii[1]" must be a number greater than or equal to 0.',
+            '"radii" must contain one radius per vertex.',
+            '"smoothing" must be a number between 0 and 1.',
+            '"config.cornerCount" must be a number.',
+            '"config.color" is not a known configuration property.'
+        ]);
+        expect(() => fromRoundedPolygonJSON('{')).toThrowError(RoundedPolygonValidationError);
+    });
+
+    it('should validate the absolute corner radii of the configuration', () => {
+        const square = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 1), new Vector2(0, 1)];
+        const json = toRoundedPolygonJSON(RoundedPolygon.createFromVertices(square), {
+            cornerRadii: [0.5, { radius: 0.1 }],
+            outerCornerRadius: { radius: 0.2 }
+        });
+        expect(validateRoundedPolygonJSON(JSON.parse(JSON.stringify(json)))).toEqual([]);
+
+        const errors = validateRoundedPolygonJSON({
+            ...json,
+            config: { cornerRadii: [{ r: 0.1 }], innerCornerRadius: { radius: -1 } }
+        });
+        expect(errors).toEqual([
+            '"config.cornerRadii" must be an array of numbers or objects with a radius.',
+            '"config.innerCornerRadius" must be a number or an object with a radius.'
+        ]);
+    });
+});
@@ -0,0 +1,347 @@
+import { RoundedPolygonConfig, resolveRoundedPolygonConfig } from './rounded-polygon-config';
+import { RoundedPolygon, RoundedPolygonError } from './rounded-polygon';
+import { Vector2 } from './vector2';
+
+/**
+ * The current version of the rounded polygon JSON schema. The version gets increased
+ * with every change of the format which is not backwards compatible.
+ */
+export const ROUNDED_POLYGON_JSON_VERSION = 1;
+
+/**
+ * The configuration within the JSON format. It equals the {@link RoundedPolygonConfig},
+ * except that generated vertices are stored as a plain list of coordinates.
+ */
+export type RoundedPolygonJSONConfig = Partial<Omit<RoundedPolygonConfig, 'vertices'>> & {
+    vertices?: [number, number][];
+};
+
+/**
+ * The serialized form of a rounded polygon (see {@link ROUNDED_POLYGON_JSON_SCHEMA}), e.g. to
+ * exchange shapes with design tools.
+ */
+export interface RoundedPolygonJSON {
+    /**
+     * The version of the schema (see {@link ROUNDED_POLYGON_JSON_VERSION}).
+     */
+    version: number;
+
+    /**
+     * The corner vertices of the polygon in the coordinate system of the polygon.
+     */
+    vertices: [number, number][];
+
+    /**
+     * The absolute radius of each corner (in the same units as the vertices).
+     */
+    radii: number[];
+
+    /**
+     * The corner smoothing (number between 0 and 1).
+     */
+    smoothing: number;
+
+    /**
+     * The configuration which the polygon has been created from (optional). It allows
+     * editors to restore the settings of a shape.
+     */
+    config?: RoundedPolygonJSONConfig;
+}
+
+// the json schema of a list of points
+const POINTS_SCHEMA = {
+    type: 'array',
+    items: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 2,
+        maxItems: 2
+    }
+};
+
+// the json schema of a corner radius (a ratio or an absolute radius)
+const CORNER_RADIUS_SCHEMA = {
+    oneOf: [
+        { type: 'number' },
+        {
+            type: 'object',
+            required: ['radius'],
+            additionalProperties: false,
+            properties: { radius: { type: 'number', minimum: 0 } }
+        }
+    ]
+};
+
+/**
+ * The JSON schema (draft 07) of the {@link RoundedPolygonJSON} format.
+ */
+export const ROUNDED_POLYGON_JSON_SCHEMA = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Rounded polygon',
+    type: 'object',
+    required: ['version', 'vertices', 'radii', 'smoothing'],
+    additionalProperties: false,
+    properties: {
+        $schema: { type: 'string' },
+        version: { const: ROUNDED_POLYGON_JSON_VERSION },
+        vertices: { ...POINTS_SCHEMA, minItems: 3 },
+        radii: { type: 'array', items: { type: 'number', minimum: 0 } },
+        smoothing: { type: 'number', minimum: 0, maximum: 1 },
+        config: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+                cornerCount: { type: 'number' },
+                outerRadius: { type: 'number' },
+                innerRadiusRatio: { type: 'number' },
+                cornerRadius: { type: 'number' },
+                cornerRadii: { type: 'array', items: CORNER_RADIUS_SCHEMA },
+                outerCornerRadius: CORNER_RADIUS_SCHEMA,
+                innerCornerRadius: CORNER_RADIUS_SCHEMA,
+                cornerSmoothing: { type: 'number' },
+                tilt: { type: 'number' },
+                vertices: POINTS_SCHEMA,
+                inset: { type: 'number' },
+                outset: { type: 'number' }
+            }
+        }
+    }
+} as const;
+
+// the value types of the configuration fields which are used for the validation
+const CONFIG_FIELDS: Record<keyof RoundedPolygonConfig, 'number' | 'radius' | 'radii' | 'points'> =
+    {
+        cornerCount: 'number',
+        outerRadius: 'number',
+        innerRadiusRatio: 'number',
+        cornerRadius: 'number',
+        cornerRadii: 'radii',
+        outerCornerRadius: 'radius',
+        innerCornerRadius: 'radius',
+        cornerSmoothing: 'number',
+        tilt: 'number',
+        vertices: 'points',
+        inset: 'number',
+        outset: 'number'
+    };
+
+/**
+ * The error which is thrown if a value does not match the {@link ROUNDED_POLYGON_JSON_SCHEMA}.
+ */
+export class RoundedPolygonValidationError extends RoundedPolygonError {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid rounded polygon JSON:\n${errors.map((e) => `- ${e}`).join('\n')}`);
+        this.name = 'RoundedPolygonValidationError';
+        Object.setPrototypeOf(this, RoundedPolygonValidationError.prototype);
+    }
+}
+
+/**
+ * Serializes a rounded polygon to the JSON format. The resulting object can be passed
+ * to `JSON.stringify` and gets restored with {@link fromRoundedPolygonJSON}.
+ *
+ * @param polygon The polygon to serialize
+ * @param config The configuration which the polygon has been created from (optional)
+ * @throws {RoundedPolygonError} If the polygon is empty or has elliptical corners (see {@link RoundedPolygon.transform})
+ */
+export function toRoundedPolygonJSON(
+    polygon: RoundedPolygon,
+    config?: Partial<RoundedPolygonConfig>
+): RoundedPolygonJSON {
+    if (polygon.arcs.length < 3) {
+        throw new RoundedPolygonError('An empty rounded polygon can not be serialized.');
+    }
+    if (polygon.arcs.some((arc) => arc.radiusY !== undefined)) {
+        // the format stores the corner radii of circular corners only
+        throw new RoundedPolygonError(
+            'A rounded polygon with elliptical corners can not be serialized.'
+        );
+    }
+
+    const json: RoundedPolygonJSON = {
+        version: ROUNDED_POLYGON_JSON_VERSION,
+        vertices: polygon.arcs.map(({ corner }) => [corner.vertex.x, corner.vertex.y]),
+        radii: polygon.arcs.map((arc) => arc.radius),
+        smoothing: polygon.smoothing
+    };
+
+    if (config) {
+        // generated vertices are stored with the values of the current configuration
+        const { vertices, ...settings } = config;
+        const points =
+            typeof vertices === 'function'
+                ? vertices(resolveRoundedPolygonConfig(config))
+                : vertices;
+        json.config = { ...settings };
+        if (points) {
+            json.config.vertices = points.map((v) => (v instanceof Vector2 ? [v.x, v.y] : [...v]));
+        }
+    }
+
+    return json;
+}
+
+/**
+ * Validates a value against the {@link ROUNDED_POLYGON_JSON_SCHEMA} and returns the list of
+ * errors (an empty list if the value is valid).
+ *
+ * @param value The value to validate (e.g. the result of `JSON.parse`)
+ */
+export function validateRoundedPolygonJSON(value: unknown): string[] {
+    if (!isObject(value)) {
+        return ['The value must be an object.'];
+    }
+
+    // an unknown version can not be validated any further
+    if (value.version === undefined) {
+        return ['"version" is missing.'];
+    }
+    if (value.version !== ROUNDED_POLYGON_JSON_VERSION) {
+        return [
+            `Unsupported schema version ${JSON.stringify(value.version)} ` +
+                `(supported version: ${ROUNDED_POLYGON_JSON_VERSION}).`
+        ];
+    }
+
+    const errors: string[] = [];
+    const known = Object.keys(ROUNDED_POLYGON_JSON_SCHEMA.properties);
+    Object.keys(value)
+        .filter((key) => !known.includes(key))
+        .forEach((key) => errors.push(`"${key}" is not a known property.`));
+
+    errors.push(...validatePoints(value.vertices, 'vertices', 3));
+
+    if (!Array.isArray(value.radii)) {
+        errors.push('"radii" must be an array of numbers.');
+    } else {
+        value.radii.forEach((radius, i) => {
+            if (!isNumber(radius) || radius < 0) {
+                errors.push(`"radii[${i}]" must be a number greater than or equal to 0.`);
+            }
+        });
+        if (Array.isArray(value.vertices) && value.radii.length !== value.vertices.length) {
+            errors.push('"radii" must contain one radius per vertex.');
+        }
+    }
+
+    if (!isNumber(value.smoothing) || value.smoothing < 0 || value.smoothing > 1) {
+        errors.push('"smoothing" must be a number between 0 and 1.');
+    }
+
+    if (value.config !== undefined) {
+        errors.push(...validateConfig(value.config));
+    }
+
+    return errors;
+}
+
+/**
+ * Validates a value against the {@link ROUNDED_POLYGON_JSON_SCHEMA} and returns it as typed
+ * JSON object.
+ *
+ * @param value The value or a JSON string
+ * @throws {RoundedPolygonValidationError} If the value is not valid
+ */
+export function parseRoundedPolygonJSON(value: unknown): RoundedPolygonJSON {
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value);
+        } catch (e) {
+            throw new RoundedPolygonValidationError([`The value is not valid JSON (${e}).`]);
+        }
+    }
+
+    const errors = validateRoundedPolygonJSON(value);
+    if (errors.length) {
+        throw new RoundedPolygonValidationError(errors);
+    }
+    return value as RoundedPolygonJSON;
+}
+
+/**
+ * Rebuilds a rounded polygon from the JSON format (see {@link toRoundedPolygonJSON}).
+ *
+ * @param value The value or a JSON string
+ * @throws {RoundedPolygonValidationError} If the value is not valid
+ */
+export function fromRoundedPolygonJSON(value: unknown): RoundedPolygon {
+    const json = parseRoundedPolygonJSON(value);
+    return RoundedPolygon.createFromVertices(
+        json.vertices.map(([x, y]) => new Vector2(x, y)),
+        json.radii.map((radius) => ({ radius })),
+        json.smoothing
+    );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value);
+}
+
+// a ratio or an object with an absolute radius (see {@link CornerRadius})
+function isCornerRadius(value: unknown): boolean {
+    if (isNumber(value)) {
+        return true;
+    }
+    return (
+        isObject(value) &&
+        Object.keys(value).every((key) => key === 'radius') &&
+        isNumber(value.radius) &&
+        value.radius >= 0
+    );
+}
+
+function validatePoints(value: unknown, path: string, minLength = 0): string[] {
+    if (!Array.isArray(value)) {
+        return [`"${path}" must be an array of [x, y] coordinates.`];
+    }
+
+    const errors: string[] = [];
+    if (value.length < minLength) {
+        errors.push(`"${path}" must contain at least ${minLength} points.`);
+    }
+    value.forEach((point, i) => {
+        if (!Array.isArray(point) || point.length !== 2 || !point.every(isNumber)) {
+            errors.push(`"${path}[${i}]" must be an [x, y] pair of finite numbers.`);
+        }
+    });
+    return errors;
+}
+
+function validateConfig(value: unknown): string[] {
+    if (!isObject(value)) {
+        return ['"config" must be an object.'];
+    }
+
+    const errors: string[] = [];
+    Object.keys(value).forEach((key) => {
+        const path = `config.${key}`;
+        const field = value[key];
+        switch (CONFIG_FIELDS[key as keyof RoundedPolygonConfig]) {
+            case 'number':
+                if (!isNumber(field)) {
+                    errors.push(`"${path}" must be a number.`);
+                }
+                break;
+            case 'radius':
+                if (!isCornerRadius(field)) {
+                    errors.push(`"${path}" must be a number or an object with a radius.`);
+                }
+                break;
+            case 'radii':
+                if (!Array.isArray(field) || !field.every(isCornerRadius)) {
+                    errors.push(`"${path}" must be an array of numbers or objects with a radius.`);
+                }
+                break;
+            case 'points':
+                errors.push(...validatePoints(field, path));
+                break;
+            default:
+                errors.push(`"${path}" is not a known configuration property.`);
+        }
+    });
+    return errors;
+}
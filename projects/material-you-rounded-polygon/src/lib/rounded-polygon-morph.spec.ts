@@ -0,0 +1,102 @@
+import {
+    resolveRoundedPolygonConfig,
+    ROUNDED_POLYGON_PRESETS,
+    RoundedPolygonPresetName,
+    RoundedPolygonVertex
+} from './rounded-polygon-config';
+import { RoundedPolygonMorph } from './rounded-polygon-morph';
+import { createRoundedPolygonShape } from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+// returns the signed area of the closed polyline (positive for the winding of the shapes)
+function getArea(points: Vector2[]): number {
+    return points.reduce((sum, p, i) => sum + p.cross(points[(i + 1) % points.length]), 0) / 2;
+}
+
+// returns the distance of the point to the closed polyline
+function getPolylineDistance(points: Vector2[], p: Vector2): number {
+    return points.reduce((distance, a, i) => {
+        const v = Vector2.subtract(points[(i + 1) % points.length], a);
+        const w = Vector2.subtract(p, a);
+        const t = v.dot(v) > 0 ? Math.min(1, Math.max(0, w.dot(v) / v.dot(v))) : 0;
+        return Math.min(distance, Vector2.subtract(w, v.multiplyScalar(t)).length());
+    }, Infinity);
+}
+
+describe('RoundedPolygonMorph', () => {
+    it('should interpolate between the outlines', () => {
+        const from = createRoundedPolygonShape(resolveRoundedPolygonConfig('square'));
+        const to = createRoundedPolygonShape(resolveRoundedPolygonConfig('circle'));
+        const morph = new RoundedPolygonMorph(from, to, 64);
+        const origin = new Vector2(0, 0);
+
+        // the sample count is increased to include the end points of the arcs
+        expect(morph.getPointsAt(0.5).length).toBeGreaterThanOrEqual(64);
+        expect(morph.getPointsAt(0).length).toBe(morph.getPointsAt(1).length);
+        expect(morph.getSVGPathData(0)).toBe(from.getSVGPathData());
+        expect(morph.getSVGPathData(1)).toBe(to.getSVGPathData());
+        expect(morph.getCSSShape(1, 10, origin, 2, '%')).toBe(to.getCSSShape(10, origin, 2, '%'));
+
+        const area = getArea(morph.getPointsAt(0.5));
+        expect(area).toBeGreaterThan(Math.min(from.getArea(), to.getArea()) * 0.95);
+        expect(area).toBeLessThan(Math.max(from.getArea(), to.getArea()));
+    });
+
+    it('should keep the rotation of rotated shapes small', () => {
+        const config = resolveRoundedPolygonConfig('cookie-8');
+        const from = createRoundedPolygonShape(config);
+        const to = createRoundedPolygonShape({ ...config, tilt: config.tilt + 45 });
+        const morph = new RoundedPolygonMorph(from, to);
+
+        // the eight lobes of the cookie are symmetric under a rotation of 45 degrees
+        morph.getPointsAt(0.5).forEach((p, i) => {
+            expect(Vector2.subtract(p, morph.getPointsAt(0)[i]).length()).toBeLessThan(0.02);
+        });
+    });
+
+    it('should morph between outlines with opposite windings', () => {
+        const vertices = ROUNDED_POLYGON_PRESETS.square.vertices as RoundedPolygonVertex[];
+        const from = createRoundedPolygonShape(resolveRoundedPolygonConfig('square'));
+        const reversed = createRoundedPolygonShape(
+            resolveRoundedPolygonConfig({ cornerRadius: 0.3, vertices: [...vertices].reverse() })
+        );
+
+        [reversed, reversed.toPolyline(0.001)].forEach((to) => {
+            const morph = new RoundedPolygonMorph(from, to);
+            [0, 0.25, 0.5, 0.75, 1].forEach((progress) => {
+                expect(getArea(morph.getPointsAt(progress)))
+                    .withContext(`progress ${progress}`)
+                    .toBeCloseTo(getArea(morph.getPointsAt(0)), 2);
+            });
+        });
+    });
+
+    it('should not cut off the corners at the start and the end of the morph', () => {
+        // the deviation in pixels of a 200px host
+        const size = 200;
+        const circle = createRoundedPolygonShape(resolveRoundedPolygonConfig('circle'));
+
+        (['boom', 'soft-boom', 'burst'] as RoundedPolygonPresetName[]).forEach((name) => {
+            const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig(name));
+            const morphs = [
+                { morph: new RoundedPolygonMorph(polygon, circle), progress: 0 },
+                { morph: new RoundedPolygonMorph(circle, polygon), progress: 1 }
+            ];
+
+            morphs.forEach(({ morph, progress }) => {
+                const points = morph.getPointsAt(progress);
+                const outline = polygon.toPolyline(0.0001);
+                const gap = Math.max(...outline.map((p) => getPolylineDistance(points, p)));
+                expect(gap * size)
+                    .withContext(`${name} ${progress}`)
+                    .toBeLessThan(0.25);
+
+                points.forEach((p) => {
+                    expect(Math.abs(polygon.getSignedDistance(p)) * size)
+                        .withContext(`${name} ${progress}`)
+                        .toBeLessThan(0.25);
+                });
+            });
+        });
+    });
+});
@@ -0,0 +1,229 @@
+import { RoundedPolygon } from './rounded-polygon';
+import { Vector2 } from './vector2';
+
+/**
+ * The shapes which can be morphed. Either a rounded polygon or the outline points of
+ * a closed shape (e.g. the current state of another morph).
+ */
+export type RoundedPolygonMorphSource = RoundedPolygon | Vector2[];
+
+/**
+ * This class blends between two rounded polygons. The polygons may have a different
+ * number of corners, different corner radii and rotations.
+ *
+ * Both outlines get sampled with the same number of points. The samples contain the corners
+ * and the end points of the arcs, so that the outlines are exact within the given tolerance
+ * (the polygon at the start and the end of the morph does not jump when it is replaced by
+ * the exact path). The other samples are distributed evenly along the outline. The
+ * samples of the target shape get aligned to the samples of the source shape to keep the
+ * rotation during the morph as small as possible (outlines with opposite windings are
+ * traversed in the reversed order). The intermediate shapes are then created by
+ * interpolating the corresponding samples.
+ */
+export class RoundedPolygonMorph {
+    private fromPoints: Vector2[];
+    private toPoints: Vector2[];
+
+    /**
+     * Creates a new morph between the two shapes.
+     *
+     * @param from The shape at the progress value 0
+     * @param to The shape at the progress value 1
+     * @param sampleCount The minimum number of points which are used to describe the intermediate shapes
+     * @param tolerance The maximum distance of the sampled outlines to the exact outlines of the polygons (in the units of the polygon vertices)
+     */
+    constructor(
+        public readonly from: RoundedPolygonMorphSource,
+        public readonly to: RoundedPolygonMorphSource,
+        public readonly sampleCount: number = 128,
+        public readonly tolerance: number = 0.001
+    ) {
+        const fromOutline = getOutline(from, tolerance);
+        const toOutline = getOutline(to, tolerance);
+        // both outlines need the same number of samples
+        const count = Math.max(sampleCount, fromOutline.length, toOutline.length);
+
+        this.fromPoints = sampleOutline(fromOutline, count);
+        this.toPoints = alignOutline(this.fromPoints, sampleOutline(toOutline, count));
+    }
+
+    /**
+     * Returns the outline points of the intermediate shape.
+     *
+     * @param progress The morph progress (0 is equal to the source and 1 to the target shape)
+     */
+    public getPointsAt(progress: number): Vector2[] {
+        return this.fromPoints.map((f, i) => {
+            const t = this.toPoints[i];
+            return new Vector2(f.x + (t.x - f.x) * progress, f.y + (t.y - f.y) * progress);
+        });
+    }
+
+    /**
+     * This method returns an svg path data string which describes
+     * the intermediate shape at the given progress. If the progress is 0 or 1 and the
+     * corresponding shape is a rounded polygon, the exact path of the polygon is returned.
+     *
+     * @param progress The morph progress (0 is equal to the source and 1 to the target shape)
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     * @param precision The number of decimal values used within the path data
+     */
+    public getSVGPathData(
+        progress: number,
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0),
+        precision: number = 2
+    ): string {
+        const polygon = this.getPolygonAt(progress);
+        if (polygon) {
+            return polygon.getSVGPathData(scale, translate, precision);
+        }
+
+        const d = this.getTransformedPointsAt(progress, scale, translate)
+            .map((p, i) => {
+                const x = round(p.x, precision);
+                const y = round(p.y, precision);
+                return `${i === 0 ? 'M' : 'L'}${x},${y}`;
+            })
+            .join('');
+
+        return `${d}Z`;
+    }
+
+    /**
+     * This method returns a css `shape()` function which describes the intermediate shape
+     * at the given progress (see {@link RoundedPolygon.getCSSShape}).
+     *
+     * @param progress The morph progress (0 is equal to the source and 1 to the target shape)
+     * @param scale An optional scale factor which gets applied to all coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     * @param precision The number of decimal values used within the coordinates
+     * @param unit The unit of the coordinates (e.g. `px` or `%`)
+     */
+    public getCSSShape(
+        progress: number,
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0),
+        precision: number = 2,
+        unit: string = 'px'
+    ): string {
+        const polygon = this.getPolygonAt(progress);
+        if (polygon) {
+            return polygon.getCSSShape(scale, translate, precision, unit);
+        }
+
+        const commands = this.getTransformedPointsAt(progress, scale, translate).map((p, i) => {
+            const position = `${round(p.x, precision)}${unit} ${round(p.y, precision)}${unit}`;
+            return i === 0 ? `from ${position}` : `line to ${position}`;
+        });
+
+        return `shape(${commands.join(', ')}, close)`;
+    }
+
+    // returns the exact polygon if the progress is at the start or the end of the morph
+    private getPolygonAt(progress: number): RoundedPolygon | null {
+        if (progress <= 0 && this.from instanceof RoundedPolygon) {
+            return this.from;
+        } else if (progress >= 1 && this.to instanceof RoundedPolygon) {
+            return this.to;
+        }
+        return null;
+    }
+
+    private getTransformedPointsAt(
+        progress: number,
+        scale: number | Vector2,
+        translate: Vector2
+    ): Vector2[] {
+        const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+        return this.getPointsAt(progress).map(
+            (p) => new Vector2(p.x * s.x + translate.x, p.y * s.y + translate.y)
+        );
+    }
+}
+
+/**
+ * Returns the points of the outline which have to be part of the samples. The duplicate
+ * points (e.g. of the sharp corners) are removed.
+ */
+function getOutline(shape: RoundedPolygonMorphSource, tolerance: number): Vector2[] {
+    const points = shape instanceof RoundedPolygon ? shape.toPolyline(tolerance) : shape;
+    const outline = points.filter(
+        (p, i) => Vector2.subtract(p, points[(i + 1) % points.length]).length() > 1e-12
+    );
+    return outline.length > 0 || points.length === 0 ? outline : [points[0]];
+}
+
+/**
+ * Distributes the given number of samples evenly along the closed outline. Each point of
+ * the outline replaces the nearest sample, the samples in between are placed on the edges.
+ */
+function sampleOutline(outline: Vector2[], count: number): Vector2[] {
+    const lengths = [0];
+    outline.forEach((p, i) => {
+        const next = outline[(i + 1) % outline.length];
+        lengths.push(lengths[i] + Vector2.subtract(next, p).length());
+    });
+    const total = lengths[outline.length];
+    if (total === 0) {
+        const p = outline.length > 0 ? outline[0] : new Vector2(0, 0);
+        return [...Array(count)].map(() => new Vector2(p.x, p.y));
+    }
+
+    // the sample indices of the outline points (each sample is used once)
+    const indices: number[] = [];
+    outline.forEach((_, i) => {
+        const index = Math.max(
+            Math.round((lengths[i] / total) * count),
+            i > 0 ? indices[i - 1] + 1 : 0
+        );
+        indices.push(Math.min(index, count - outline.length + i));
+    });
+
+    const points: Vector2[] = [];
+    outline.forEach((p, i) => {
+        const v = Vector2.subtract(outline[(i + 1) % outline.length], p);
+        const length = lengths[i + 1] - lengths[i];
+        const end = i < outline.length - 1 ? indices[i + 1] : count;
+        points.push(p);
+        for (let j = indices[i] + 1; j < end; j++) {
+            const t = ((j / count) * total - lengths[i]) / length;
+            points.push(Vector2.add(p, v.multiplyScalar(Math.min(1, Math.max(0, t)))));
+        }
+    });
+    return points;
+}
+
+/**
+ * Shifts the target points so that the summed square distance to the corresponding
+ * source points becomes minimal. The target points are also tried in the reversed order,
+ * so that outlines with opposite windings do not collapse during the morph.
+ */
+function alignOutline(from: Vector2[], to: Vector2[]): Vector2[] {
+    const l = to.length;
+    let bestShift = 0;
+    let bestDirection = 1;
+    let bestDistance = Infinity;
+    for (const direction of [1, -1]) {
+        for (let shift = 0; shift < l; shift++) {
+            let distance = 0;
+            for (let i = 0; i < l && distance < bestDistance; i++) {
+                const f = from[i];
+                const t = to[(shift + direction * i + l) % l];
+                distance += (f.x - t.x) ** 2 + (f.y - t.y) ** 2;
+            }
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                bestShift = shift;
+                bestDirection = direction;
+            }
+        }
+    }
+
+    return to.map((_, i) => to[(bestShift + bestDirection * i + l) % l]);
+}
+
+function round(value: number, precision: number): number {
+    return Math.round(value * 10 ** precision) / 10 ** precision;
+}
@@ -0,0 +1,132 @@
+import { RoundedPolygon } from './rounded-polygon';
+import { RoundedPolygonClip } from './rounded-polygon-clip';
+import { RoundedPolygonOutline } from './rounded-polygon-outline';
+import { Vector2 } from './vector2';
+
+// the resize observers report the size of the host elements before the next frame
+function waitForResize(): Promise<void> {
+    return new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)));
+}
+
+function createHost(width: number, height: number): HTMLElement {
+    const host = document.createElement('div');
+    host.style.width = `${width}px`;
+    host.style.height = `${height}px`;
+    document.body.appendChild(host);
+    return host;
+}
+
+function getStrokePath(host: HTMLElement): string {
+    const svg = host.children[host.children.length - 1];
+    return svg.children[svg.children.length - 1].getAttribute('d') as string;
+}
+
+// returns the points of a path which only consists of straight lines
+function getStrokePoints(host: HTMLElement): Vector2[] {
+    const values = (getStrokePath(host).match(/-?[\d.]+/g) as string[]).map(Number);
+    return [...Array(values.length / 2)].map(
+        (_, i) => new Vector2(values[i * 2], values[i * 2 + 1])
+    );
+}
+
+function containsPoint(points: Vector2[], p: Vector2): boolean {
+    let inside = false;
+    points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        if (a.y > p.y !== b.y > p.y && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    });
+    return inside;
+}
+
+describe('RoundedPolygonOutline', () => {
+    let clipHost: HTMLElement;
+    let outlineHost: HTMLElement;
+    let clip: RoundedPolygonClip;
+    let outline: RoundedPolygonOutline;
+
+    function createOutline(width: number, height: number): Promise<void> {
+        clipHost = createHost(width, height);
+        outlineHost = createHost(width, height);
+        clip = new RoundedPolygonClip(clipHost);
+        outline = new RoundedPolygonOutline(outlineHost);
+        outline.strokeWidth = 4;
+        return waitForResize();
+    }
+
+    afterEach(() => {
+        outline.destroy();
+        clip.destroy();
+        clipHost.remove();
+        outlineHost.remove();
+    });
+
+    it('should align the stroke with the outline of the shape', async () => {
+        await createOutline(100, 100);
+        clip.shape = 'cookie-8';
+        outline.source = clip;
+        await waitForResize();
+
+        const polygon = clip.polygon as RoundedPolygon;
+        const scale = new Vector2(100, 100);
+        const translate = new Vector2(50, 50);
+        const distances = { inner: -2, center: 0, outer: 2 };
+
+        (['inner', 'center', 'outer'] as const).forEach((align) => {
+            outline.strokeAlign = align;
+
+            // the stroke is centered on the exact parallel outline, so that an inner stroke
+            // ends at the outline of the clip path
+            const offset = polygon.offset(distances[align] / 100);
+            expect(getStrokePath(outlineHost))
+                .withContext(align)
+                .toBe(offset.getSVGPathData(scale, translate, 2));
+            for (let i = 0; i < 32; i++) {
+                expect(polygon.getSignedDistance(offset.pointAt(i / 32)) * 100)
+                    .withContext(align)
+                    .toBeCloseTo(distances[align], 9);
+            }
+        });
+    });
+
+    it('should offset stretched shapes and morph frames as polylines', async () => {
+        await createOutline(200, 100);
+        clip.shape = { cornerCount: 4, innerRadiusRatio: 0.2, cornerRadius: 0 };
+        outline.strokeAlign = 'outer';
+        outline.source = clip;
+        await waitForResize();
+
+        const scale = new Vector2(200, 100);
+        // the duplicate points of the sharp corners are removed
+        const toPixels = (points: Vector2[]) =>
+            points
+                .map((p) => new Vector2(p.x * scale.x + 100, p.y * scale.y + 50))
+                .filter(
+                    (p, i, list) => Vector2.subtract(p, list[(i + 1) % list.length]).length() > 1e-9
+                );
+        const expectOuterStroke = (shape: Vector2[], context: string) => {
+            const stroke = getStrokePoints(outlineHost);
+            expect(stroke.length).withContext(context).toBe(shape.length);
+
+            // the points move along the miters of the corners, which are limited to
+            // four times the offset distance
+            const displacements = stroke.map((p, i) => Vector2.subtract(p, shape[i]).length());
+            displacements.forEach((d) => {
+                expect(d).withContext(context).toBeGreaterThan(1.99);
+                expect(d).withContext(context).toBeLessThan(8.01);
+            });
+            stroke.forEach((p) => expect(containsPoint(shape, p)).withContext(context).toBeFalse());
+            return displacements;
+        };
+
+        // the sharp tips of the stretched star are limited
+        const polygon = clip.polygon as RoundedPolygon;
+        const displacements = expectOuterStroke(toPixels(polygon.toPolyline(0.25 / 200)), 'star');
+        expect(Math.max(...displacements)).toBeCloseTo(8, 1);
+
+        clip.morphProgress = 0.5;
+        clip.shape = 'cookie-8';
+        expectOuterStroke(toPixels(clip.visibleShape as Vector2[]), 'morph');
+    });
+});
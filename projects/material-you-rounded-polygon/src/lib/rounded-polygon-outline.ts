@@ -0,0 +1,459 @@
+import { RoundedPolygon } from './rounded-polygon';
+import {
+    createDomRenderer,
+    getResizeEntrySize,
+    RoundedPolygonClip,
+    RoundedPolygonClipOptions,
+    RoundedPolygonClipRenderer
+} from './rounded-polygon-clip';
+import { getRoundedPolygonTransform } from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+// a random token which prevents id collisions (see the clip path ids)
+const ID_TOKEN = Math.random().toString(36).slice(2, 8);
+
+// the longest miter (relative to the offset distance) of the offset outline points
+const MAX_MITER = 4;
+
+/**
+ * The alignment of a stroke relative to the outline of the shape.
+ *
+ * - `inner`: The stroke lies inside of the shape, so that it is not cut off by the clip path (default).
+ * - `center`: The stroke is centered on the outline.
+ * - `outer`: The stroke lies outside of the shape.
+ */
+export type RoundedPolygonStrokeAlign = 'inner' | 'center' | 'outer';
+
+/**
+ * A drop shadow which follows the outline of the shape. The shadow is only drawn outside of
+ * the shape, so that it does not shine through transparent content.
+ */
+export interface RoundedPolygonShadow {
+    /**
+     * The horizontal offset of the shadow in pixels. Default is 0.
+     */
+    x?: number;
+
+    /**
+     * The vertical offset of the shadow in pixels. Default is 0.
+     */
+    y?: number;
+
+    /**
+     * The blur radius of the shadow in pixels (like the blur radius of a css box-shadow). Default is 0.
+     */
+    blur?: number;
+
+    /**
+     * The color of the shadow. Default is `rgba(0, 0, 0, 0.3)`.
+     */
+    color?: string;
+}
+
+/**
+ * This class draws the outline of a {@link RoundedPolygonClip} as a visible svg layer with
+ * a stroke and a drop shadow, which can not be part of the clip path itself.
+ *
+ * The layer follows the shape of the clip path (including its morphs) and covers the host
+ * element of the outline, which should therefore have the same size as the clipped element.
+ * To draw the parts outside of the clip path (an outer stroke or a shadow), the host needs to
+ * be an element which is not clipped, e.g. a wrapper of the clipped element. Within the
+ * clipped element, only the parts inside of the clip path are visible.
+ *
+ * @example
+ *
+ * const clip = new RoundedPolygonClip(button);
+ * clip.shape = 'cookie-8';
+ *
+ * // the wrapper of the button has the same size as the button
+ * const outline = new RoundedPolygonOutline(wrapper);
+ * outline.strokeWidth = 2;
+ * outline.shadow = { y: 1, blur: 3 };
+ * outline.source = clip;
+ */
+export class RoundedPolygonOutline {
+    // this static variable is necessary for applying unique ids to the svg filters
+    private static _instanceCount = 0;
+
+    private readonly _id = `rounded-polygon-outline-${ID_TOKEN}-${RoundedPolygonOutline._instanceCount++}`;
+
+    private readonly _renderer: RoundedPolygonClipRenderer;
+
+    // the clip path whose shape gets outlined and the function which stops following it
+    private _source: RoundedPolygonClip | null = null;
+    private _removeDrawListener: (() => void) | null = null;
+
+    private _strokeWidth = 0;
+    private _strokeColor = 'currentColor';
+    private _strokeAlign: RoundedPolygonStrokeAlign = 'inner';
+    private _shadow: RoundedPolygonShadow | null = null;
+    private _layer: 'above' | 'below' = 'above';
+
+    // the svg layer and its elements
+    private _svgElement: unknown = null;
+    private _filterElement: unknown = null;
+    private _maskPathElement: unknown = null;
+    private _shadowPathElement: unknown = null;
+    private _strokePathElement: unknown = null;
+
+    // the styles which have been applied to the host element to position the layer
+    private _hostStyles: string[] = [];
+
+    // the size of the host element in pixels
+    private _hostSize: Vector2 | null = null;
+
+    private _resizeObserver: ResizeObserver | null = null;
+
+    /**
+     * Creates the outline layer of the host element. The layer gets drawn as soon as
+     * the {@link source} is set.
+     *
+     * @param host The element which contains the layer
+     * @param options See {@link RoundedPolygonClipOptions}
+     */
+    constructor(
+        public readonly host: HTMLElement,
+        private options: RoundedPolygonClipOptions = {}
+    ) {
+        this._renderer = options.renderer ?? createDomRenderer(host.ownerDocument);
+    }
+
+    /**
+     * The clip path whose shape gets outlined.
+     */
+    public get source(): RoundedPolygonClip | null {
+        return this._source;
+    }
+
+    public set source(value: RoundedPolygonClip | null) {
+        if (this._removeDrawListener) {
+            this._removeDrawListener();
+            this._removeDrawListener = null;
+        }
+
+        this._source = value;
+        if (value) {
+            this._removeDrawListener = value.addDrawListener(() => this.draw());
+            this.observeHostSize();
+        } else {
+            this.disconnectResizeObserver();
+        }
+        this.draw();
+    }
+
+    /**
+     * The width of the stroke in pixels. A value of 0 disables the stroke (default).
+     */
+    public get strokeWidth(): number {
+        return this._strokeWidth;
+    }
+
+    public set strokeWidth(value: number) {
+        this._strokeWidth = Math.max(0, value || 0);
+        this.draw();
+    }
+
+    /**
+     * The color of the stroke. Default is `currentColor`.
+     */
+    public get strokeColor(): string {
+        return this._strokeColor;
+    }
+
+    public set strokeColor(value: string) {
+        this._strokeColor = value;
+        this.draw();
+    }
+
+    /**
+     * The alignment of the stroke (see {@link RoundedPolygonStrokeAlign}). Default is `inner`.
+     */
+    public get strokeAlign(): RoundedPolygonStrokeAlign {
+        return this._strokeAlign;
+    }
+
+    public set strokeAlign(value: RoundedPolygonStrokeAlign) {
+        this._strokeAlign = value;
+        this.draw();
+    }
+
+    /**
+     * The drop shadow of the shape (see {@link RoundedPolygonShadow}). Default is null.
+     */
+    public get shadow(): RoundedPolygonShadow | null {
+        return this._shadow;
+    }
+
+    public set shadow(value: RoundedPolygonShadow | null) {
+        this._shadow = value;
+        this.draw();
+    }
+
+    /**
+     * Defines if the layer is drawn above or below the content of the host element. Default
+     * is `above`.
+     */
+    public get layer(): 'above' | 'below' {
+        return this._layer;
+    }
+
+    public set layer(value: 'above' | 'below') {
+        this._layer = value;
+        if (this._svgElement) {
+            // recreate the layer with the new stacking
+            this.removeSvgElement();
+            this.draw();
+        }
+    }
+
+    /**
+     * Stops following the source, removes the layer and the styles which have been applied
+     * to the host element.
+     */
+    public destroy(): void {
+        this.source = null;
+        this.removeSvgElement();
+    }
+
+    private draw(): void {
+        const shape = this._source ? this._source.visibleShape : null;
+        if (!shape || !this._hostSize || (this._strokeWidth === 0 && !this._shadow)) {
+            this.removeSvgElement();
+            return;
+        }
+
+        if (!this._svgElement) {
+            this.createSvgElement();
+        }
+
+        const outline = this.createPath(shape, 0);
+        if (this._shadow) {
+            const { x = 0, y = 0, blur = 0, color = 'rgba(0, 0, 0, 0.3)' } = this._shadow;
+            this._renderer.setAttribute(this._filterElement, 'dx', `${x}`);
+            this._renderer.setAttribute(this._filterElement, 'dy', `${y}`);
+            this._renderer.setAttribute(this._filterElement, 'stdDeviation', `${blur / 2}`);
+            this._renderer.setAttribute(this._filterElement, 'flood-color', color);
+        }
+        this._renderer.setAttribute(this._maskPathElement, 'd', outline);
+        this._renderer.setAttribute(this._shadowPathElement, 'd', this._shadow ? outline : '');
+
+        // the stroke is centered on the offset outline
+        const offset = { inner: -0.5, center: 0, outer: 0.5 }[this._strokeAlign] ?? -0.5;
+        const stroke =
+            this._strokeWidth > 0 ? this.createPath(shape, offset * this._strokeWidth) : '';
+        this._renderer.setAttribute(this._strokePathElement, 'd', stroke);
+        this._renderer.setAttribute(this._strokePathElement, 'stroke', this._strokeColor);
+        this._renderer.setAttribute(
+            this._strokePathElement,
+            'stroke-width',
+            `${this._strokeWidth}`
+        );
+    }
+
+    // returns the path data of the shape in the coordinate system of the host element
+    private createPath(shape: RoundedPolygon | Vector2[], distance: number): string {
+        const { x: width, y: height } = this._hostSize as Vector2;
+        const fit = this._source ? this._source.fit : 'bounding-box';
+        const transform = getRoundedPolygonTransform(fit, this._hostSize);
+        if (!transform) {
+            return '';
+        }
+
+        // the bounding box is stretched to the size of the host element
+        const scale =
+            fit === 'bounding-box' ? new Vector2(width, height) : (transform.scale as number);
+        const translate = new Vector2(width / 2, height / 2);
+        const uniform = typeof scale === 'number' || scale.x === scale.y;
+
+        if (shape instanceof RoundedPolygon && (uniform || distance === 0)) {
+            // the exact parallel outline of the rounded polygon
+            const s = typeof scale === 'number' ? scale : scale.x;
+            const polygon = distance !== 0 ? shape.offset(distance / s) : shape;
+            if (this.options.onWarning && polygon.warnings.length > 0) {
+                this.options.onWarning(polygon.warnings.join(' '));
+            }
+            return polygon.getSVGPathData(scale, translate, 2);
+        }
+
+        // the morph frames and the stretched polygons are offset as polylines in pixel space
+        const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+        const points = (
+            shape instanceof RoundedPolygon ? shape.toPolyline(0.25 / Math.max(s.x, s.y)) : shape
+        ).map((p) => new Vector2(p.x * s.x + translate.x, p.y * s.y + translate.y));
+
+        const d = offsetPolyline(points, distance)
+            .map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)},${round(p.y)}`)
+            .join('');
+        return `${d}Z`;
+    }
+
+    private createSvgElement(): void {
+        const svg = this._renderer.createElement('svg', 'svg');
+        this._renderer.setAttribute(svg, 'aria-hidden', 'true');
+        this._renderer.setStyle(svg, 'position', 'absolute');
+        this._renderer.setStyle(svg, 'left', '0');
+        this._renderer.setStyle(svg, 'top', '0');
+        this._renderer.setStyle(svg, 'width', '100%');
+        this._renderer.setStyle(svg, 'height', '100%');
+        this._renderer.setStyle(svg, 'overflow', 'visible');
+        this._renderer.setStyle(svg, 'pointer-events', 'none');
+
+        // the shadow is only drawn outside of the shape
+        const defs = this._renderer.createElement('defs', 'svg');
+        const filter = this._renderer.createElement('filter', 'svg');
+        this._renderer.setAttribute(filter, 'id', `${this._id}-shadow`);
+        this.setRegion(filter);
+        const dropShadow = this._renderer.createElement('feDropShadow', 'svg');
+        this._renderer.appendChild(filter, dropShadow);
+
+        const mask = this._renderer.createElement('mask', 'svg');
+        this._renderer.setAttribute(mask, 'id', `${this._id}-mask`);
+        this._renderer.setAttribute(mask, 'maskUnits', 'userSpaceOnUse');
+        this.setRegion(mask);
+        const rect = this._renderer.createElement('rect', 'svg');
+        this.setRegion(rect);
+        this._renderer.setAttribute(rect, 'fill', '#FFFFFF');
+        const maskPath = this._renderer.createElement('path', 'svg');
+        this._renderer.setAttribute(maskPath, 'fill', '#000000');
+        this._renderer.appendChild(mask, rect);
+        this._renderer.appendChild(mask, maskPath);
+
+        this._renderer.appendChild(defs, filter);
+        this._renderer.appendChild(defs, mask);
+        this._renderer.appendChild(svg, defs);
+
+        const shadowPath = this._renderer.createElement('path', 'svg');
+        this._renderer.setAttribute(shadowPath, 'fill', '#000000');
+        this._renderer.setAttribute(shadowPath, 'filter', `url(#${this._id}-shadow)`);
+        this._renderer.setAttribute(shadowPath, 'mask', `url(#${this._id}-mask)`);
+        const strokePath = this._renderer.createElement('path', 'svg');
+        this._renderer.setAttribute(strokePath, 'fill', 'none');
+        this._renderer.appendChild(svg, shadowPath);
+        this._renderer.appendChild(svg, strokePath);
+
+        // the layer is positioned relative to the host element, a layer below the content
+        // needs the host to be a stacking context
+        if (this.isStatic()) {
+            this.setHostStyle('position', 'relative');
+        }
+        if (this._layer === 'below') {
+            this._renderer.setStyle(svg, 'z-index', '-1');
+            this.setHostStyle('isolation', 'isolate');
+        }
+
+        this._renderer.appendChild(this.host, svg);
+        this._svgElement = svg;
+        this._filterElement = dropShadow;
+        this._maskPathElement = maskPath;
+        this._shadowPathElement = shadowPath;
+        this._strokePathElement = strokePath;
+    }
+
+    private removeSvgElement(): void {
+        if (this._svgElement) {
+            this._renderer.removeChild(this.host, this._svgElement);
+            this._svgElement = null;
+            this._filterElement = null;
+            this._maskPathElement = null;
+            this._shadowPathElement = null;
+            this._strokePathElement = null;
+        }
+
+        this._hostStyles.forEach((style) => this._renderer.removeStyle(this.host, style));
+        this._hostStyles = [];
+    }
+
+    // the filter and mask regions need to include the shadow outside of the host element
+    private setRegion(element: unknown): void {
+        this._renderer.setAttribute(element, 'x', '-50%');
+        this._renderer.setAttribute(element, 'y', '-50%');
+        this._renderer.setAttribute(element, 'width', '200%');
+        this._renderer.setAttribute(element, 'height', '200%');
+    }
+
+    private setHostStyle(style: string, value: string): void {
+        this._renderer.setStyle(this.host, style, value);
+        this._hostStyles.push(style);
+    }
+
+    // returns true if the host element is not positioned (not available without a dom)
+    private isStatic(): boolean {
+        return (
+            typeof getComputedStyle === 'function' &&
+            getComputedStyle(this.host).position === 'static'
+        );
+    }
+
+    private observeHostSize(): void {
+        if (this._resizeObserver || typeof ResizeObserver === 'undefined') {
+            return;
+        }
+
+        // the resize callbacks do not need to trigger the change detection
+        this.runOutside(() => {
+            this._resizeObserver = new ResizeObserver((entries) => {
+                if (entries.length === 0) {
+                    return;
+                }
+
+                const { x: width, y: height } = getResizeEntrySize(entries[entries.length - 1]);
+                if (!this._hostSize || this._hostSize.x !== width || this._hostSize.y !== height) {
+                    this._hostSize = new Vector2(width, height);
+                    this.draw();
+                }
+            });
+            this._resizeObserver.observe(this.host, { box: 'border-box' });
+        });
+    }
+
+    private disconnectResizeObserver(): void {
+        if (this._resizeObserver) {
+            this._resizeObserver.disconnect();
+            this._resizeObserver = null;
+        }
+    }
+
+    private runOutside(callback: () => void): void {
+        if (this.options.runOutside) {
+            this.options.runOutside(callback);
+        } else {
+            callback();
+        }
+    }
+}
+
+// moves the points of a closed polyline along the miters of its corners, a positive distance
+// moves the points outwards
+function offsetPolyline(outline: Vector2[], distance: number): Vector2[] {
+    // the zero length edges of sharp corners have no normals
+    const points = outline.filter(
+        (p, i) => Vector2.subtract(p, outline[(i + 1) % outline.length]).length() > 1e-9
+    );
+    if (distance === 0 || points.length < 3) {
+        return outline;
+    }
+
+    // the orientation of the polyline defines the outwards pointing side of the edges
+    const l = points.length;
+    const orientation =
+        Math.sign(points.reduce((a, p, i) => a + p.cross(points[(i + 1) % l]), 0)) || 1;
+    const normal = (from: Vector2, to: Vector2) => {
+        const t = Vector2.normalize(Vector2.subtract(to, from));
+        return new Vector2(t.y, -t.x).multiplyScalar(orientation);
+    };
+
+    return points.map((p, i) => {
+        const n1 = normal(points[(i + l - 1) % l], p);
+        const n2 = normal(p, points[(i + 1) % l]);
+        const miter = Vector2.add(n1, n2).multiplyScalar(1 / Math.max(1 + n1.dot(n2), 1e-9));
+
+        // limit the miters of very sharp corners
+        const length = miter.length();
+        const limit = length > MAX_MITER ? MAX_MITER / length : 1;
+        return Vector2.add(p, miter.multiplyScalar(distance * limit));
+    });
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,284 @@
+import { Matrix2D } from './matrix2d';
+import {
+    ArcSegment,
+    getArcAngles,
+    getArcCubics,
+    isEllipticalArc,
+    RoundedPolygonSegment,
+    transformSegment
+} from './rounded-polygon-segment';
+import { Vector2 } from './vector2';
+
+/**
+ * The formatting options of the svg path data (see {@link RoundedPolygon.getSVGPathData}).
+ */
+export interface RoundedPolygonPathOptions {
+    /**
+     * Use relative commands (except for the initial move). Default is false.
+     */
+    relative?: boolean;
+
+    /**
+     * Close the path with `Z` instead of a line back to the start point. Default is false.
+     */
+    close?: boolean;
+
+    /**
+     * Omit the segments which have a length of zero after the rounding. Default is false.
+     */
+    omitZeroLength?: boolean;
+
+    /**
+     * Write the numbers without leading zeros, use separators only where the sign or the
+     * decimal point does not separate the numbers and omit repeated commands. Default is false.
+     */
+    compact?: boolean;
+
+    /**
+     * Replace the arcs with cubic bézier curves (e.g. for font or pdf tools which do not
+     * support the `A` command). Default is false.
+     */
+    arcsToCubics?: boolean;
+}
+
+// a command of the svg path data with absolute coordinates
+interface PathCommand {
+    type: 'M' | 'L' | 'A' | 'C' | 'Z';
+    values: number[];
+}
+
+/**
+ * Creates the svg path data of closed outlines, which consist of lines, arcs and cubic
+ * bézier curves. Each outline becomes a sub path which starts with a move command.
+ *
+ * @param contours The segments of each closed outline
+ * @param scale The scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+ * @param translate The translate transform which gets applied to all coordinates (after the scaling)
+ * @param precision The number of decimal values used within the path data
+ * @param options The formatting options (see {@link RoundedPolygonPathOptions})
+ */
+export function createSVGPathData(
+    contours: RoundedPolygonSegment[][],
+    scale: number | Vector2,
+    translate: Vector2,
+    precision: number,
+    options: RoundedPolygonPathOptions = {}
+): string {
+    const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+    const point = (v: Vector2) => [
+        round(v.x * s.x + translate.x, precision),
+        round(v.y * s.y + translate.y, precision)
+    ];
+
+    // collect the commands with the absolute coordinates first
+    const commands: PathCommand[] = [];
+    contours.forEach((contour) => {
+        let segments = contour;
+        if (options.arcsToCubics) {
+            segments = segments.reduce(
+                (list, seg) => list.concat(seg.type === 'arc' ? getArcCubics(seg) : [seg]),
+                [] as RoundedPolygonSegment[]
+            );
+        }
+        if (options.close && segments[segments.length - 1]?.type === 'line') {
+            // the closing command replaces the line back to the start point
+            segments = segments.slice(0, -1);
+        }
+
+        segments.forEach((seg, i) => {
+            if (i === 0) {
+                // move to the starting point of the first segment initially
+                commands.push({ type: 'M', values: point(seg.start) });
+            }
+
+            switch (seg.type) {
+                case 'line':
+                    // draw a straight line to the beginning of the next corner
+                    commands.push({ type: 'L', values: point(seg.end) });
+                    break;
+                case 'arc': {
+                    const large = seg.angle > Math.PI ? 1 : 0;
+                    if (isEllipticalArc(seg)) {
+                        // the axes of elliptical arcs change with the scaling
+                        const arc = transformSegment(seg, Matrix2D.scale(s.x, s.y)) as ArcSegment;
+                        const rotation = ((arc.rotation ?? 0) * 180) / Math.PI;
+                        commands.push({
+                            type: 'A',
+                            values: [
+                                round(arc.radius, precision),
+                                round(arc.radiusY ?? arc.radius, precision),
+                                round(rotation, precision),
+                                large,
+                                arc.sweep,
+                                ...point(seg.end)
+                            ]
+                        });
+                        break;
+                    }
+
+                    // draw the arc of the current polygon point (the arc becomes elliptical
+                    // if the coordinates are scaled differently)
+                    const rx = round(seg.radius * Math.abs(s.x), precision);
+                    const ry = round(seg.radius * Math.abs(s.y), precision);
+                    const sweep = s.x * s.y < 0 ? 1 - seg.sweep : seg.sweep;
+                    commands.push({
+                        type: 'A',
+                        values: [rx, ry, 0, large, sweep, ...point(seg.end)]
+                    });
+                    break;
+                }
+                case 'cubic':
+                    // draw the transition curve of a smoothed corner
+                    commands.push({
+                        type: 'C',
+                        values: [...point(seg.control1), ...point(seg.control2), ...point(seg.end)]
+                    });
+                    break;
+            }
+        });
+
+        if (options.close && segments.length) {
+            // the closing command moves the current point back to the start point
+            commands.push({ type: 'Z', values: point(segments[0].start) });
+        }
+    });
+
+    let current = [0, 0];
+    let previous = '';
+    return commands.reduce((path, { type, values }) => {
+        // the coordinates start after the radii and flags of the arcs
+        const offset = type === 'A' ? 5 : 0;
+        const coordinates = values.slice(offset);
+        if (
+            options.omitZeroLength &&
+            type !== 'M' &&
+            type !== 'Z' &&
+            coordinates.every((v, j) => v === current[j % 2])
+        ) {
+            return path;
+        }
+
+        // the coordinates of the relative commands are offsets to the current point
+        const relative = options.relative && type !== 'M';
+        const command = relative ? type.toLowerCase() : type;
+        const numbers =
+            type === 'Z'
+                ? []
+                : relative
+                ? values.map((v, j) =>
+                      j < offset ? v : round(v - current[(j - offset) % 2], precision)
+                  )
+                : values;
+        current = coordinates.slice(-2);
+
+        if (!options.compact) {
+            return `${path}${command}${numbers.join(',')}`;
+        }
+
+        // repeated commands (and lines after the initial move) are implicit
+        const implicit = command === previous || (previous === 'M' && command === 'L');
+        previous = command;
+        return numbers
+            .map(formatCompactNumber)
+            .reduce(
+                (p, n, j) => p + (j === 0 && !implicit ? '' : getCompactSeparator(p, n)) + n,
+                implicit ? path : path + command
+            );
+    }, '');
+}
+
+/**
+ * Adds closed outlines as sub paths to the given canvas path, which is either a
+ * `CanvasRenderingContext2D` or a `Path2D`. The arcs are drawn with native `arc` and
+ * `ellipse` calls, so the shape is exactly the same as the one of the svg path data.
+ *
+ * @param path The canvas context or Path2D object to draw into
+ * @param contours The segments of each closed outline
+ * @param scale The scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+ * @param translate The translate transform which gets applied to all coordinates (after the scaling)
+ */
+export function drawSegmentPath(
+    path: CanvasPath,
+    contours: RoundedPolygonSegment[][],
+    scale: number | Vector2,
+    translate: Vector2
+): void {
+    const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+    const matrix = new Matrix2D(s.x, 0, 0, s.y, translate.x, translate.y);
+
+    contours.forEach((contour) => {
+        contour.forEach((segment, i) => {
+            // the scaled segment, where a non-uniform scale turns the arcs into elliptical
+            // arcs and a mirroring scale flips their direction
+            const seg = transformSegment(segment, matrix);
+            if (i === 0) {
+                path.moveTo(seg.start.x, seg.start.y);
+            }
+
+            switch (seg.type) {
+                case 'line':
+                    path.lineTo(seg.end.x, seg.end.y);
+                    break;
+                case 'arc': {
+                    // the canvas angles increase in the same direction as the svg sweep
+                    const { start, delta } = getArcAngles(seg);
+                    if (isEllipticalArc(seg)) {
+                        // the angles of the ellipse are the angles of its parameterization
+                        path.ellipse(
+                            seg.center.x,
+                            seg.center.y,
+                            seg.radius,
+                            seg.radiusY,
+                            seg.rotation ?? 0,
+                            start,
+                            start + delta,
+                            delta < 0
+                        );
+                        break;
+                    }
+                    path.arc(
+                        seg.center.x,
+                        seg.center.y,
+                        seg.radius,
+                        start,
+                        start + delta,
+                        delta < 0
+                    );
+                    break;
+                }
+                case 'cubic':
+                    path.bezierCurveTo(
+                        seg.control1.x,
+                        seg.control1.y,
+                        seg.control2.x,
+                        seg.control2.y,
+                        seg.end.x,
+                        seg.end.y
+                    );
+                    break;
+            }
+        });
+
+        path.closePath();
+    });
+}
+
+function round(value: number, precision: number): number {
+    return Math.round(value * 10 ** precision) / 10 ** precision;
+}
+
+// formats a number without the leading zero (e.g. .5 and -.5)
+function formatCompactNumber(value: number): string {
+    return `${value}`.replace(/^(-?)0\./, '$1.');
+}
+
+// returns the separator which is needed in front of the next number of the path data
+function getCompactSeparator(path: string, next: string): string {
+    if (/[A-Za-z]$/.test(path) || next.startsWith('-')) {
+        return '';
+    }
+
+    // a second decimal point starts a new number
+    const last = path.match(/[\d.e]+$/)?.[0] ?? '';
+    return next.startsWith('.') && /[.e]/.test(last) ? '' : ' ';
+}
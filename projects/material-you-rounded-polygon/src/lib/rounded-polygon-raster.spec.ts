@@ -0,0 +1,73 @@
+import { resolveRoundedPolygonConfig, RoundedPolygonPresetName } from './rounded-polygon-config';
+import { createRoundedPolygonShape } from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+// the size of the reference images in pixels
+const SIZE = 96;
+
+// the antialiasing of the edges differs slightly between the rasterizers, therefore only
+// larger differences of the coverage (alpha) count as mismatching pixels
+const ALPHA_TOLERANCE = 64;
+const MAX_MISMATCHES = 8;
+
+// the shapes of the reference images in the golden folder (`<name>.png`), which contain the
+// exact coverage of the outlines as black pixels on a transparent background
+const REFERENCE_SHAPES: RoundedPolygonPresetName[] = [
+    'circle',
+    'square',
+    'cookie-8',
+    'clover-4',
+    'heart',
+    'pill',
+    'triangle',
+    'sunny',
+    'soft-burst'
+];
+
+function createContext(): CanvasRenderingContext2D {
+    const canvas = document.createElement('canvas');
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    return canvas.getContext('2d') as CanvasRenderingContext2D;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error(`Could not load the reference image ${url}.`));
+        image.src = url;
+    });
+}
+
+describe('RoundedPolygon rasterization', () => {
+    REFERENCE_SHAPES.forEach((name) => {
+        it(`should match the reference image of ${name}`, async () => {
+            const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig(name));
+            const d = polygon.getSVGPathData(SIZE, new Vector2(SIZE / 2, SIZE / 2));
+
+            // the svg path data is rasterized by the browser
+            const context = createContext();
+            context.fill(new Path2D(d));
+            const actual = context.getImageData(0, 0, SIZE, SIZE).data;
+
+            // the reference images are served as assets of the test build
+            const reference = createContext();
+            reference.drawImage(await loadImage(`/golden/${name}.png`), 0, 0);
+            const expected = reference.getImageData(0, 0, SIZE, SIZE).data;
+
+            let mismatches = 0;
+            for (let i = 3; i < actual.length; i += 4) {
+                if (Math.abs(actual[i] - expected[i]) > ALPHA_TOLERANCE) {
+                    mismatches++;
+                }
+            }
+
+            // the failure message contains the actual image, which replaces the reference
+            // image after an intended change of the geometry
+            expect(mismatches)
+                .withContext(context.canvas.toDataURL())
+                .toBeLessThanOrEqual(MAX_MISMATCHES);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { RoundedPolygonClip } from './rounded-polygon-clip';
+import { RoundedPolygonShapeRegistry } from './rounded-polygon-registry';
+
+describe('RoundedPolygonShapeRegistry', () => {
+    let registry: RoundedPolygonShapeRegistry;
+
+    beforeEach(() => {
+        registry = new RoundedPolygonShapeRegistry(document);
+    });
+
+    it('should share identical shapes', () => {
+        const a = registry.acquire('circle');
+        const b = registry.acquire({ cornerCount: 4, innerRadiusRatio: 1, cornerRadius: 1 });
+
+        expect(a).not.toBeNull();
+        expect(b).toBe(a);
+        expect(registry.size).toBe(1);
+        expect(document.getElementById(a as string)?.getAttribute('clipPathUnits')).toBe(
+            'objectBoundingBox'
+        );
+
+        registry.release(a as string);
+        expect(document.getElementById(a as string)).not.toBeNull();
+
+        registry.release(b as string);
+        expect(document.getElementById(a as string)).toBeNull();
+        expect(registry.size).toBe(0);
+    });
+
+    it('should not share shapes with pixel offsets', () => {
+        expect(registry.acquire({ cornerCount: 8, outset: 4 })).toBeNull();
+        expect(registry.size).toBe(0);
+    });
+
+    it('should define the shapes as custom properties', () => {
+        const root = document.documentElement;
+        const remove = registry.defineCustomProperties({ cookie: 'cookie-8' });
+        const id = registry.acquire('cookie-8') as string;
+        registry.release(id);
+
+        expect(root.style.getPropertyValue('--m3-shape-cookie')).toContain(`#${id}`);
+
+        remove();
+        expect(root.style.getPropertyValue('--m3-shape-cookie')).toBe('');
+        expect(registry.size).toBe(0);
+    });
+
+    it('should share the clip paths of the clip path controllers', () => {
+        const hosts = [document.createElement('div'), document.createElement('div')];
+        const clips = hosts.map((host) => {
+            document.body.appendChild(host);
+            const clip = new RoundedPolygonClip(host, { registry });
+            clip.shape = 'cookie-8';
+            return clip;
+        });
+
+        expect(registry.size).toBe(1);
+        expect(hosts[0].children.length).toBe(0);
+        expect(hosts[0].style.getPropertyValue('clip-path')).toBe(
+            hosts[1].style.getPropertyValue('clip-path')
+        );
+
+        clips.forEach((clip) => clip.destroy());
+        hosts.forEach((host) => host.remove());
+        expect(registry.size).toBe(0);
+    });
+
+    it('should derive the ids from the application id and the shapes', () => {
+        const other = new RoundedPolygonShapeRegistry(document, { appId: 'other' });
+        const ids = [
+            registry.acquire('circle'),
+            other.acquire('cookie-8'),
+            other.acquire('circle')
+        ];
+
+        expect(ids[0]).toMatch(/^rounded-polygon-shape-[\da-z]+$/);
+        expect(ids[1]).toMatch(/^other-shape-[\da-z]+$/);
+        // the order of the shapes does not affect the ids
+        expect(ids[2]).toBe((ids[0] as string).replace('rounded-polygon', 'other'));
+
+        registry.release(ids[0] as string);
+        other.release(ids[1] as string);
+        other.release(ids[2] as string);
+        expect(other.size).toBe(0);
+    });
+
+    it('should adopt the svg element of the server side rendering', () => {
+        // the shapes which have been rendered on the server
+        const server = new RoundedPolygonShapeRegistry(document, { appId: 'app' });
+        const id = server.acquire('cookie-8') as string;
+        const clipPath = document.getElementById(id);
+
+        const browser = new RoundedPolygonShapeRegistry(document, { appId: 'app' });
+        expect(browser.acquire('cookie-8')).toBe(id);
+        expect(document.getElementById(id)).toBe(clipPath);
+        expect(document.querySelectorAll('[data-rounded-polygon-shapes="app"]').length).toBe(1);
+
+        const circle = browser.acquire('circle') as string;
+        expect(document.getElementById(circle)?.parentNode).toBe(clipPath?.parentNode);
+
+        browser.release(id);
+        browser.release(circle);
+        expect(document.getElementById(id)).toBeNull();
+        expect(document.querySelector('[data-rounded-polygon-shapes="app"]')).toBeNull();
+    });
+});
@@ -0,0 +1,307 @@
+import {
+    createDomRenderer,
+    RoundedPolygonClipRenderer,
+    RoundedPolygonClipShape
+} from './rounded-polygon-clip';
+import {
+    resolveRoundedPolygonConfig,
+    ROUNDED_POLYGON_PRESETS,
+    RoundedPolygonConfig
+} from './rounded-polygon-config';
+import {
+    createRoundedPolygonShape,
+    getRoundedPolygonTransform,
+    RoundedPolygonTransform
+} from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+/**
+ * The options of a {@link RoundedPolygonShapeRegistry}.
+ */
+export interface RoundedPolygonShapeRegistryOptions {
+    /**
+     * The renderer which performs the dom operations (see {@link RoundedPolygonClipRenderer}).
+     */
+    renderer?: RoundedPolygonClipRenderer;
+
+    /**
+     * The prefix of the css custom properties of the shapes. Default is `m3-shape`.
+     */
+    propertyPrefix?: string;
+
+    /**
+     * The id of the application, which prefixes the ids of the clip paths. The ids are derived
+     * from the application id and the shapes, so that the browser adopts the clip paths of
+     * the server side rendering. Registries of the same document need different ids.
+     * Default is `rounded-polygon`.
+     */
+    appId?: string;
+}
+
+// the attribute which marks the svg element of the shared clip paths
+const REGISTRY_ATTRIBUTE = 'data-rounded-polygon-shapes';
+
+// a shared clip path and the number of its users
+interface RoundedPolygonShapeEntry {
+    id: string;
+    clipPath: unknown;
+    count: number;
+}
+
+/**
+ * This class shares the svg clip paths of identical shapes within a document. Each unique
+ * shape (keyed by its normalized configuration) is defined once as a `<clipPath>` within a
+ * shared `<svg><defs>` element at the end of the document body. The clip paths are
+ * reference counted and get removed as soon as the last user releases them. An existing svg
+ * element of the registry (e.g. of the server side rendering) is adopted.
+ *
+ * The clip paths use `objectBoundingBox` units, therefore only the shapes which are
+ * stretched to the bounding box can be shared. Shapes with generated vertices or pixel
+ * offsets (`inset` and `outset`) are not shared.
+ *
+ * @example
+ *
+ * const registry = new RoundedPolygonShapeRegistry(document);
+ * const clip = new RoundedPolygonClip(element, { registry });
+ * // defines --m3-shape-cookie-8, --m3-shape-circle, ...
+ * registry.defineCustomProperties();
+ */
+export class RoundedPolygonShapeRegistry {
+    private readonly _appId: string;
+
+    private readonly _renderer: RoundedPolygonClipRenderer;
+
+    private readonly _propertyPrefix: string;
+
+    // the shared clip paths by the keys of their shapes
+    private readonly _entries = new Map<string, RoundedPolygonShapeEntry>();
+
+    // the keys of the shared clip paths by their ids
+    private readonly _keys = new Map<string, string>();
+
+    // the clip path ids of the defined custom properties
+    private readonly _properties = new Map<string, string>();
+
+    // the svg element which contains the shared clip paths
+    private _svgElement: unknown = null;
+    private _defsElement: unknown = null;
+
+    /**
+     * @param document The document which contains the shared clip paths
+     * @param options See {@link RoundedPolygonShapeRegistryOptions}
+     */
+    constructor(
+        public readonly document: Document,
+        options: RoundedPolygonShapeRegistryOptions = {}
+    ) {
+        this._renderer = options.renderer ?? createDomRenderer(document);
+        this._propertyPrefix = options.propertyPrefix ?? 'm3-shape';
+        this._appId = options.appId ?? 'rounded-polygon';
+    }
+
+    /**
+     * Returns the key of a shape, which is the same for all values that resolve to the same
+     * configuration (e.g. a preset name and its configuration), or null if the shape can not
+     * be shared.
+     *
+     * @param shape The name of a preset or a (partial) configuration
+     */
+    public static getShapeKey(shape: RoundedPolygonClipShape): string | null {
+        const config = resolveRoundedPolygonConfig(shape);
+
+        // the generated vertices and the pixel offsets depend on more than the configuration
+        if (typeof config.vertices === 'function' || config.inset || config.outset) {
+            return null;
+        }
+
+        const fields = (Object.keys(config) as (keyof RoundedPolygonConfig)[])
+            .filter((key) => config[key] !== undefined)
+            .sort()
+            .map((key) => {
+                const value = config[key];
+                return key === 'vertices' && Array.isArray(value)
+                    ? [key, value.map((v) => (v instanceof Vector2 ? [v.x, v.y] : v))]
+                    : [key, value];
+            });
+        return JSON.stringify(fields);
+    }
+
+    /**
+     * The number of shared clip paths.
+     */
+    public get size(): number {
+        return this._entries.size;
+    }
+
+    /**
+     * Returns the id of the shared clip path of a shape and increments its reference count.
+     * Every acquired id needs to be released (see {@link release}).
+     *
+     * @param shape The name of a preset or a (partial) configuration
+     * @returns The id of the clip path or null if the shape can not be shared
+     */
+    public acquire(shape: RoundedPolygonClipShape): string | null {
+        const key = RoundedPolygonShapeRegistry.getShapeKey(shape);
+        if (key === null) {
+            return null;
+        }
+
+        let entry = this._entries.get(key);
+        if (!entry) {
+            entry = this.createEntry(shape, key);
+            this._entries.set(key, entry);
+            this._keys.set(entry.id, key);
+        }
+        entry.count++;
+        return entry.id;
+    }
+
+    /**
+     * Decrements the reference count of a shared clip path and removes the clip path once
+     * it is no longer used.
+     *
+     * @param id The id which has been returned by {@link acquire}
+     */
+    public release(id: string): void {
+        const key = this._keys.get(id);
+        const entry = key !== undefined ? this._entries.get(key) : undefined;
+        if (key === undefined || !entry || --entry.count > 0) {
+            return;
+        }
+
+        this._entries.delete(key);
+        this._keys.delete(id);
+        this._renderer.removeChild(this._defsElement, entry.clipPath);
+
+        if (this._entries.size === 0) {
+            this.removeSvgElement();
+        }
+    }
+
+    /**
+     * Defines the shapes as css custom properties of the root element (e.g.
+     * `--m3-shape-cookie-8: url(#...)`), so that they can be used by plain css
+     * (`clip-path: var(--m3-shape-cookie-8)`) without a clip path controller.
+     *
+     * @param shapes The shapes by the names of their properties. Default are all presets.
+     * @returns A function which removes the custom properties
+     */
+    public defineCustomProperties(
+        shapes: Record<string, RoundedPolygonClipShape> = ROUNDED_POLYGON_PRESETS
+    ): () => void {
+        const root = this.document.documentElement;
+        const defined = Object.keys(shapes)
+            .map((name) => {
+                const id = this.acquire(shapes[name]);
+                if (id === null) {
+                    return null;
+                }
+
+                const property = `--${this._propertyPrefix}-${name}`;
+                const previous = this._properties.get(property);
+                this._properties.set(property, id);
+                this._renderer.setStyle(root, property, `url(#${id})`);
+                if (previous !== undefined) {
+                    this.release(previous);
+                }
+                return { property, id };
+            })
+            .filter((value): value is { property: string; id: string } => value !== null);
+
+        return () => {
+            defined.forEach(({ property, id }) => {
+                // the property may have been redefined in the meantime
+                if (this._properties.get(property) === id) {
+                    this._properties.delete(property);
+                    this._renderer.removeStyle(root, property);
+                    this.release(id);
+                }
+            });
+            defined.length = 0;
+        };
+    }
+
+    private createEntry(shape: RoundedPolygonClipShape, key: string): RoundedPolygonShapeEntry {
+        if (!this._defsElement && !this.adoptSvgElement()) {
+            this.createSvgElement();
+        }
+
+        // the ids of the (unlikely) hash collisions get a suffix
+        const hash = `${this._appId}-shape-${hashShapeKey(key)}`;
+        let id = hash;
+        for (let i = 1; this._keys.has(id); i++) {
+            id = `${hash}-${i}`;
+        }
+
+        // the clip paths of an adopted svg element are identical to the created ones
+        const adopted = this.document.getElementById(id);
+        if (adopted && adopted.parentNode === this._defsElement) {
+            return { id, clipPath: adopted, count: 0 };
+        }
+
+        const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig(shape));
+        const { scale, translate, precision } = getRoundedPolygonTransform(
+            'bounding-box',
+            null
+        ) as RoundedPolygonTransform;
+
+        const clipPath = this._renderer.createElement('clipPath', 'svg');
+        this._renderer.setAttribute(clipPath, 'id', id);
+        this._renderer.setAttribute(clipPath, 'clipPathUnits', 'objectBoundingBox');
+        const path = this._renderer.createElement('path', 'svg');
+        this._renderer.setAttribute(path, 'd', polygon.getSVGPathData(scale, translate, precision));
+
+        this._renderer.appendChild(clipPath, path);
+        this._renderer.appendChild(this._defsElement, clipPath);
+        return { id, clipPath, count: 0 };
+    }
+
+    private createSvgElement(): void {
+        const svg = this._renderer.createElement('svg', 'svg');
+        this._renderer.setAttribute(svg, 'width', '0');
+        this._renderer.setAttribute(svg, 'height', '0');
+        this._renderer.setAttribute(svg, 'aria-hidden', 'true');
+        this._renderer.setAttribute(svg, REGISTRY_ATTRIBUTE, this._appId);
+        // the svg element must not affect the layout of the document
+        this._renderer.setStyle(svg, 'position', 'absolute');
+
+        const defs = this._renderer.createElement('defs', 'svg');
+        this._renderer.appendChild(svg, defs);
+        this._renderer.appendChild(this.document.body, svg);
+        this._svgElement = svg;
+        this._defsElement = defs;
+    }
+
+    // uses the svg element of the registry which is already part of the document
+    private adoptSvgElement(): boolean {
+        const svg = Array.from(this.document.body.children).find(
+            (element) => element.getAttribute(REGISTRY_ATTRIBUTE) === this._appId
+        );
+        const defs = svg?.querySelector('defs');
+        if (!svg || !defs) {
+            return false;
+        }
+
+        this._svgElement = svg;
+        this._defsElement = defs;
+        return true;
+    }
+
+    private removeSvgElement(): void {
+        if (this._svgElement) {
+            this._renderer.removeChild(this.document.body, this._svgElement);
+            this._svgElement = null;
+            this._defsElement = null;
+        }
+    }
+}
+
+// returns the 32 bit fnv-1a hash of the key as a base 36 string
+function hashShapeKey(key: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
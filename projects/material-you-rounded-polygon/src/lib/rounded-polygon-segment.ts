@@ -0,0 +1,907 @@
+import { Matrix2D } from './matrix2d';
+import { Vector2 } from './vector2';
+
+/**
+ * A straight line of the rounded polygon outline.
+ */
+export interface LineSegment {
+    type: 'line';
+    start: Vector2;
+    end: Vector2;
+}
+
+/**
+ * A circular arc of the rounded polygon outline. Arcs become elliptical arcs if the outline
+ * gets skewed or scaled non-uniformly (see {@link transformSegment}).
+ */
+export interface ArcSegment {
+    type: 'arc';
+    start: Vector2;
+    end: Vector2;
+
+    /**
+     * The center point of the arc.
+     */
+    center: Vector2;
+
+    /**
+     * The radius of the arc (the radius along the rotated x axis of elliptical arcs).
+     */
+    radius: number;
+
+    /**
+     * The radius along the rotated y axis of elliptical arcs (circular arcs do not have
+     * this property).
+     */
+    radiusY?: number;
+
+    /**
+     * The rotation (in radians) of the x axis of elliptical arcs (equal to the svg x axis
+     * rotation).
+     */
+    rotation?: number;
+
+    /**
+     * Clockwise (1) or counter-clockwise (0) direction of the arc (equal to the svg sweep flag).
+     */
+    sweep: number;
+
+    /**
+     * The angle (in radians) which is covered by the arc. The angles of elliptical arcs are
+     * the angles of the ellipse parameterization (the same as the angles of the svg arc).
+     */
+    angle: number;
+}
+
+/**
+ * A cubic bézier curve of the rounded polygon outline.
+ */
+export interface CubicSegment {
+    type: 'cubic';
+    start: Vector2;
+    control1: Vector2;
+    control2: Vector2;
+    end: Vector2;
+}
+
+/**
+ * A part of the outline of a rounded polygon.
+ */
+export type RoundedPolygonSegment = LineSegment | ArcSegment | CubicSegment;
+
+/**
+ * Returns the point on the segment at the given curve parameter (number between 0 and 1).
+ */
+export function getSegmentPointAt(segment: RoundedPolygonSegment, t: number): Vector2 {
+    switch (segment.type) {
+        case 'line':
+            return Vector2.add(
+                segment.start,
+                Vector2.subtract(segment.end, segment.start).multiplyScalar(t)
+            );
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                const { start, delta } = getArcAngles(segment);
+                return getEllipsePoint(segment, start + delta * t);
+            }
+            const { center, radius } = segment;
+            const startAngle = Math.atan2(segment.start.y - center.y, segment.start.x - center.x);
+            const angle = startAngle + segment.angle * t * (segment.sweep ? 1 : -1);
+            return new Vector2(
+                center.x + Math.cos(angle) * radius,
+                center.y + Math.sin(angle) * radius
+            );
+        }
+        case 'cubic': {
+            const mt = 1 - t;
+            const a = mt * mt * mt;
+            const b = 3 * mt * mt * t;
+            const c = 3 * mt * t * t;
+            const d = t * t * t;
+            return new Vector2(
+                a * segment.start.x +
+                    b * segment.control1.x +
+                    c * segment.control2.x +
+                    d * segment.end.x,
+                a * segment.start.y +
+                    b * segment.control1.y +
+                    c * segment.control2.y +
+                    d * segment.end.y
+            );
+        }
+    }
+}
+
+/**
+ * Returns the length of the segment.
+ */
+export function getSegmentLength(segment: RoundedPolygonSegment): number {
+    switch (segment.type) {
+        case 'line':
+            return Vector2.subtract(segment.end, segment.start).length();
+        case 'arc':
+            return isEllipticalArc(segment)
+                ? getCurveLength(segment, 1)
+                : segment.angle * segment.radius;
+        case 'cubic':
+            return getCurveLength(segment, 1);
+    }
+}
+
+/**
+ * Returns the unit tangent vector (the direction of travel) of the segment at the given
+ * curve parameter.
+ */
+export function getSegmentTangentAt(segment: RoundedPolygonSegment, t: number): Vector2 {
+    switch (segment.type) {
+        case 'line':
+            return Vector2.normalize(Vector2.subtract(segment.end, segment.start));
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                return Vector2.normalize(getSegmentDerivative(segment, t));
+            }
+            const p = Vector2.subtract(getSegmentPointAt(segment, t), segment.center);
+            const tangent = new Vector2(-p.y, p.x);
+            return Vector2.normalize(segment.sweep ? tangent : tangent.multiplyScalar(-1));
+        }
+        case 'cubic': {
+            const d = getCubicDerivative(segment, t);
+            if (d.length() > 1e-12) {
+                return Vector2.normalize(d);
+            }
+            // the derivative vanishes at coincident control points, use the chord instead
+            return Vector2.normalize(Vector2.subtract(segment.end, segment.start));
+        }
+    }
+}
+
+/**
+ * Returns the curve parameter at which the length of the segment from its start point
+ * equals the given length.
+ */
+export function getSegmentParameterAtLength(
+    segment: RoundedPolygonSegment,
+    length: number
+): number {
+    const total = getSegmentLength(segment);
+    if (total <= 0) {
+        return 0;
+    }
+    const t = Math.min(1, Math.max(0, length / total));
+    if (segment.type === 'line' || (segment.type === 'arc' && !isEllipticalArc(segment))) {
+        // lines and circular arcs are parameterised by their length already
+        return t;
+    }
+
+    // refine the estimate with a few newton iterations
+    let s = t;
+    for (let i = 0; i < 8; i++) {
+        const d = getSegmentDerivative(segment, s).length();
+        if (d < 1e-12) {
+            break;
+        }
+        s = Math.min(1, Math.max(0, s - (getCurveLength(segment, s) - length) / d));
+    }
+    return s;
+}
+
+/**
+ * Returns the points which approximate the segment with straight lines. The distance of
+ * the lines to the segment is at most the given tolerance. The start point is included,
+ * the end point is not.
+ */
+export function getSegmentPolyline(segment: RoundedPolygonSegment, tolerance: number): Vector2[] {
+    let count = 1;
+    if (isEllipticalArc(segment)) {
+        // the chord error depends on the smallest radius of curvature (b² / a) of the
+        // ellipse and on the longest distance (a * angle) along the outline
+        const a = Math.max(segment.radius, segment.radiusY);
+        const b = Math.min(segment.radius, segment.radiusY);
+        const maxAngle = Math.sqrt((8 * tolerance * b * b) / (a * a * a));
+        count = Math.ceil(segment.angle / Math.min(maxAngle, Math.PI / 2));
+    } else if (segment.type === 'arc' && tolerance < segment.radius) {
+        // the chord error of an arc with the angle a is r * (1 - cos(a / 2))
+        const maxAngle = 2 * Math.acos(1 - tolerance / segment.radius);
+        count = Math.ceil(segment.angle / maxAngle);
+    } else if (segment.type === 'arc') {
+        count = Math.ceil(segment.angle / (Math.PI / 2));
+    } else if (segment.type === 'cubic') {
+        // wang's formula for the number of lines of a cubic bézier curve
+        const { start: p0, control1: p1, control2: p2, end: p3 } = segment;
+        const m = Math.max(
+            Vector2.add(Vector2.subtract(p0, p1), Vector2.subtract(p2, p1)).length(),
+            Vector2.add(Vector2.subtract(p1, p2), Vector2.subtract(p3, p2)).length()
+        );
+        count = Math.ceil(Math.sqrt((0.75 * m) / tolerance));
+    }
+
+    const points: Vector2[] = [];
+    for (let i = 0; i < Math.max(1, count); i++) {
+        points.push(getSegmentPointAt(segment, i / count));
+    }
+    return points;
+}
+
+/**
+ * Returns the first derivative of the cubic bézier curve at the given curve parameter.
+ */
+export function getCubicDerivative(segment: CubicSegment, t: number): Vector2 {
+    const mt = 1 - t;
+    const a = 3 * mt * mt;
+    const b = 6 * mt * t;
+    const c = 3 * t * t;
+    const { start: p0, control1: p1, control2: p2, end: p3 } = segment;
+    return new Vector2(
+        a * (p1.x - p0.x) + b * (p2.x - p1.x) + c * (p3.x - p2.x),
+        a * (p1.y - p0.y) + b * (p2.y - p1.y) + c * (p3.y - p2.y)
+    );
+}
+
+// returns the length of a cubic bézier curve or an elliptical arc up to the given curve
+// parameter (gauss-legendre quadrature of the derivative length)
+function getCurveLength(segment: RoundedPolygonSegment, t: number): number {
+    return getQuadratureIntervals(segment, 0, t).reduce(
+        (length, [a, b]) =>
+            length +
+            (GAUSS_LEGENDRE.reduce(
+                (l, [x, w]) =>
+                    l + w * getSegmentDerivative(segment, a + ((x + 1) / 2) * (b - a)).length(),
+                0
+            ) *
+                (b - a)) /
+                2,
+        0
+    );
+}
+
+// splits the parameter range of elliptical arcs into parts of at most an eighth of the
+// ellipse, so that the quadrature stays accurate
+function getQuadratureIntervals(
+    segment: RoundedPolygonSegment,
+    t0: number,
+    t1: number
+): [number, number][] {
+    const count =
+        segment.type === 'arc'
+            ? Math.max(1, Math.ceil((segment.angle * (t1 - t0)) / (Math.PI / 4)))
+            : 1;
+    return [...Array(count)].map((_, i): [number, number] => [
+        t0 + ((t1 - t0) * i) / count,
+        t0 + ((t1 - t0) * (i + 1)) / count
+    ]);
+}
+
+// abscissae and weights of the 8-point gauss-legendre quadrature
+const GAUSS_LEGENDRE: [number, number][] = [
+    [-0.1834346424956498, 0.362683783378362],
+    [0.1834346424956498, 0.362683783378362],
+    [-0.525532409916329, 0.3137066458778873],
+    [0.525532409916329, 0.3137066458778873],
+    [-0.7966664774136267, 0.2223810344533745],
+    [0.7966664774136267, 0.2223810344533745],
+    [-0.9602898564975363, 0.1012285362903763],
+    [0.9602898564975363, 0.1012285362903763]
+];
+
+/**
+ * An axis aligned bounding box.
+ */
+export interface Bounds {
+    min: Vector2;
+    max: Vector2;
+}
+
+/**
+ * The area moments of a segment. These are the line integrals of Green's theorem along
+ * the segment, which sum up to the area and the first moments of area of a closed outline.
+ */
+export interface SegmentMoments {
+    /**
+     * The integral of (x dy - y dx) / 2.
+     */
+    area: number;
+
+    /**
+     * The integral of x² dy / 2 (the first moment of area about the y axis).
+     */
+    momentX: number;
+
+    /**
+     * The integral of -y² dx / 2 (the first moment of area about the x axis).
+     */
+    momentY: number;
+}
+
+/**
+ * Returns the exact axis aligned bounding box of the segment.
+ */
+export function getSegmentBounds(segment: RoundedPolygonSegment): Bounds {
+    const points: Vector2[] = [segment.start, segment.end];
+
+    if (isEllipticalArc(segment)) {
+        // add the extreme points of the ellipse which are covered by the arc
+        const { start: startAngle, delta } = getArcAngles(segment);
+        const { x, y } = getEllipseExtremeAngles(segment);
+        for (let k = -4; k <= 4; k++) {
+            [x, y].forEach((angle) => {
+                const t = (angle + k * Math.PI - startAngle) / delta;
+                if (t > 0 && t < 1) {
+                    points.push(getEllipsePoint(segment, angle + k * Math.PI));
+                }
+            });
+        }
+    } else if (segment.type === 'arc') {
+        // add the extreme points of the circle which are covered by the arc
+        const { start: startAngle, delta } = getArcAngles(segment);
+        for (let k = -4; k <= 4; k++) {
+            const angle = (k * Math.PI) / 2;
+            const t = (angle - startAngle) / delta;
+            if (t > 0 && t < 1) {
+                points.push(
+                    new Vector2(
+                        segment.center.x + Math.cos(angle) * segment.radius,
+                        segment.center.y + Math.sin(angle) * segment.radius
+                    )
+                );
+            }
+        }
+    } else if (segment.type === 'cubic') {
+        // add the points where the derivative of one of the coordinates is zero
+        getCubicExtrema(segment, 'x')
+            .concat(getCubicExtrema(segment, 'y'))
+            .forEach((t) => points.push(getSegmentPointAt(segment, t)));
+    }
+
+    return {
+        min: new Vector2(Math.min(...points.map((p) => p.x)), Math.min(...points.map((p) => p.y))),
+        max: new Vector2(Math.max(...points.map((p) => p.x)), Math.max(...points.map((p) => p.y)))
+    };
+}
+
+/**
+ * Returns the area moments of the segment (see {@link SegmentMoments}).
+ */
+export function getSegmentMoments(segment: RoundedPolygonSegment): SegmentMoments {
+    switch (segment.type) {
+        case 'line': {
+            const a = segment.start;
+            const dx = segment.end.x - a.x;
+            const dy = segment.end.y - a.y;
+            return {
+                area: a.cross(segment.end) / 2,
+                momentX: (dy * (a.x * a.x + a.x * dx + (dx * dx) / 3)) / 2,
+                momentY: (-dx * (a.y * a.y + a.y * dy + (dy * dy) / 3)) / 2
+            };
+        }
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                return getCurveMoments(segment);
+            }
+            const { center: c, radius: r } = segment;
+            const { start: a0, delta } = getArcAngles(segment);
+            const a1 = a0 + delta;
+            const sin = (a: number) => Math.sin(a);
+            const cos = (a: number) => Math.cos(a);
+            // antiderivatives of cos², cos³, sin² and sin³
+            const cos2 = (a: number) => a / 2 + Math.sin(2 * a) / 4;
+            const cos3 = (a: number) => sin(a) - sin(a) ** 3 / 3;
+            const sin2 = (a: number) => a / 2 - Math.sin(2 * a) / 4;
+            const sin3 = (a: number) => -cos(a) + cos(a) ** 3 / 3;
+            const range = (f: (a: number) => number) => f(a1) - f(a0);
+
+            return {
+                area: (r * c.x * range(sin) - r * c.y * range(cos) + r * r * delta) / 2,
+                momentX:
+                    (r *
+                        (c.x * c.x * range(sin) +
+                            2 * c.x * r * range(cos2) +
+                            r * r * range(cos3))) /
+                    2,
+                momentY:
+                    (r *
+                        (-c.y * c.y * range(cos) +
+                            2 * c.y * r * range(sin2) +
+                            r * r * range(sin3))) /
+                    2
+            };
+        }
+        case 'cubic':
+            // the integrands are polynomials of a degree less than 16, therefore the
+            // gauss-legendre quadrature is exact
+            return getCurveMoments(segment);
+    }
+}
+
+// returns the area moments of a cubic bézier curve or an elliptical arc (gauss-legendre quadrature)
+function getCurveMoments(segment: RoundedPolygonSegment): SegmentMoments {
+    return getQuadratureIntervals(segment, 0, 1).reduce(
+        (m, [a, b]) =>
+            GAUSS_LEGENDRE.reduce((n, [x, w]) => {
+                const t = a + ((x + 1) / 2) * (b - a);
+                const p = getSegmentPointAt(segment, t);
+                const d = getSegmentDerivative(segment, t);
+                n.area += (w * (p.x * d.y - p.y * d.x) * (b - a)) / 4;
+                n.momentX += (w * p.x * p.x * d.y * (b - a)) / 4;
+                n.momentY -= (w * p.y * p.y * d.x * (b - a)) / 4;
+                return n;
+            }, m),
+        { area: 0, momentX: 0, momentY: 0 }
+    );
+}
+
+/**
+ * Returns the winding number contribution of the segment for the given point. This is
+ * the signed number of crossings of the segment with the horizontal ray which starts at
+ * the point and points into the positive x direction.
+ */
+export function getSegmentWinding(segment: RoundedPolygonSegment, point: Vector2): number {
+    let winding = 0;
+    getYMonotoneParts(segment).forEach(([t0, t1]) => {
+        const p0 = getSegmentPointAt(segment, t0);
+        const p1 = getSegmentPointAt(segment, t1);
+
+        // the start point is included and the end point is excluded, so that the
+        // crossings at the connection points of two parts are only counted once
+        const upwards = p0.y <= point.y && point.y < p1.y;
+        const downwards = p1.y <= point.y && point.y < p0.y;
+        if (!upwards && !downwards) {
+            return;
+        }
+
+        if (getMonotoneXAt(segment, t0, t1, point.y) > point.x) {
+            winding += upwards ? 1 : -1;
+        }
+    });
+    return winding;
+}
+
+/**
+ * Returns the point on the segment which is closest to the given point. The closest points of
+ * lines and circular arcs are exact, the ones of cubic bézier curves and elliptical arcs are
+ * found iteratively (see {@link getSegmentClosestParameter}).
+ */
+export function getSegmentClosestPoint(segment: RoundedPolygonSegment, point: Vector2): Vector2 {
+    switch (segment.type) {
+        case 'line': {
+            const v = Vector2.subtract(segment.end, segment.start);
+            const l = v.dot(v);
+            const t = l > 0 ? Vector2.subtract(point, segment.start).dot(v) / l : 0;
+            return getSegmentPointAt(segment, Math.min(1, Math.max(0, t)));
+        }
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                return getSegmentPointAt(segment, getCurveParameter(segment, point));
+            }
+            // the closest point of the circle if its angle is covered by the arc
+            const t = getArcParameter(segment, point);
+            if (t <= 1) {
+                return getSegmentPointAt(segment, t);
+            }
+            // otherwise the closest end point
+            const ds = Vector2.subtract(segment.start, point).length();
+            const de = Vector2.subtract(segment.end, point).length();
+            return ds < de ? segment.start : segment.end;
+        }
+        case 'cubic':
+            // the closest sample refined with a ternary search
+            return getSegmentPointAt(segment, getCurveParameter(segment, point));
+    }
+}
+
+/**
+ * Returns the curve parameter of the point on the segment which is closest to the given point.
+ *
+ * The closest points of cubic bézier curves and elliptical arcs have no closed form solution.
+ * They are found iteratively: the closest of 16 evenly distributed samples is refined with a
+ * ternary search, which converges to the nearby local minimum of the distance. If two distant
+ * parts of the curve have almost the same distance to the point, the result may lie on the part
+ * which is slightly farther away.
+ */
+export function getSegmentClosestParameter(segment: RoundedPolygonSegment, point: Vector2): number {
+    if (segment.type === 'arc' && !isEllipticalArc(segment)) {
+        const t = getArcParameter(segment, point);
+        if (t <= 1) {
+            return t;
+        }
+        const ds = Vector2.subtract(segment.start, point).length();
+        const de = Vector2.subtract(segment.end, point).length();
+        return ds < de ? 0 : 1;
+    }
+
+    if (segment.type === 'line') {
+        const v = Vector2.subtract(segment.end, segment.start);
+        const l = v.dot(v);
+        const t = l > 0 ? Vector2.subtract(point, segment.start).dot(v) / l : 0;
+        return Math.min(1, Math.max(0, t));
+    }
+    return getCurveParameter(segment, point);
+}
+
+/**
+ * Returns the curve parameter of the point on the circle of the arc, measured in the direction
+ * of the arc. Values greater than 1 are outside of the arc.
+ */
+export function getArcParameter(segment: ArcSegment, point: Vector2): number {
+    const { start, delta } = getArcAngles(segment);
+    const angle = isEllipticalArc(segment)
+        ? getEllipseAngle(segment, point)
+        : Math.atan2(point.y - segment.center.y, point.x - segment.center.x);
+    return normalizeAngle((angle - start) * Math.sign(delta)) / Math.abs(delta);
+}
+
+/**
+ * Returns the first derivative of the segment at the given curve parameter.
+ */
+export function getSegmentDerivative(segment: RoundedPolygonSegment, t: number): Vector2 {
+    switch (segment.type) {
+        case 'line':
+            return Vector2.subtract(segment.end, segment.start);
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                const { start, delta } = getArcAngles(segment);
+                return getEllipseDerivative(segment, start + delta * t).multiplyScalar(delta);
+            }
+            return getSegmentTangentAt(segment, t).multiplyScalar(segment.radius * segment.angle);
+        }
+        case 'cubic':
+            return getCubicDerivative(segment, t);
+    }
+}
+
+/**
+ * Returns the part of the segment between the given curve parameters.
+ */
+export function getSubSegment(
+    segment: RoundedPolygonSegment,
+    t0: number,
+    t1: number
+): RoundedPolygonSegment {
+    const start = t0 === 0 ? segment.start : getSegmentPointAt(segment, t0);
+    const end = t1 === 1 ? segment.end : getSegmentPointAt(segment, t1);
+
+    switch (segment.type) {
+        case 'line':
+            return { type: 'line', start, end };
+        case 'arc':
+            return { ...segment, start, end, angle: segment.angle * (t1 - t0) };
+        case 'cubic': {
+            // split the curve at t0 and split the remaining part at the relative position of t1
+            const [, right] = splitCubic(segment, t0);
+            const [part] = splitCubic(right, t0 < 1 ? (t1 - t0) / (1 - t0) : 0);
+            return { ...part, start, end };
+        }
+    }
+}
+
+/**
+ * Returns the segment with the opposite direction.
+ */
+export function reverseSegment(segment: RoundedPolygonSegment): RoundedPolygonSegment {
+    switch (segment.type) {
+        case 'line':
+            return { type: 'line', start: segment.end, end: segment.start };
+        case 'arc':
+            return { ...segment, start: segment.end, end: segment.start, sweep: 1 - segment.sweep };
+        case 'cubic':
+            return {
+                type: 'cubic',
+                start: segment.end,
+                control1: segment.control2,
+                control2: segment.control1,
+                end: segment.start
+            };
+    }
+}
+
+/**
+ * Returns the start angle and the signed angle delta of the arc.
+ */
+export function getArcAngles(segment: ArcSegment): { start: number; delta: number } {
+    return {
+        start: isEllipticalArc(segment)
+            ? getEllipseAngle(segment, segment.start)
+            : Math.atan2(segment.start.y - segment.center.y, segment.start.x - segment.center.x),
+        delta: segment.angle * (segment.sweep ? 1 : -1)
+    };
+}
+
+/**
+ * Approximates the arc with cubic bézier curves which cover at most a quarter circle each
+ * (the radial error is less than 0.03% of the radius). The curves of elliptical arcs are
+ * the transformed curves of the circular arc.
+ */
+export function getArcCubics(segment: ArcSegment): CubicSegment[] {
+    const { center, radius } = segment;
+    const { start, delta } = getArcAngles(segment);
+    const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / count;
+
+    // the length of the control point tangents of a circular arc with the given angle
+    const elliptical = isEllipticalArc(segment);
+    const k = (4 / 3) * Math.tan(step / 4) * (elliptical ? 1 : radius);
+    const tangent = (angle: number) =>
+        elliptical
+            ? getEllipseDerivative(segment, angle)
+            : new Vector2(-Math.sin(angle), Math.cos(angle));
+
+    const cubics: CubicSegment[] = [];
+    let p0 = segment.start;
+    for (let i = 0; i < count; i++) {
+        const a0 = start + i * step;
+        const a1 = a0 + step;
+        const p3 =
+            i === count - 1
+                ? segment.end
+                : elliptical
+                ? getEllipsePoint(segment, a1)
+                : new Vector2(center.x + Math.cos(a1) * radius, center.y + Math.sin(a1) * radius);
+        cubics.push({
+            type: 'cubic',
+            start: p0,
+            control1: Vector2.add(p0, tangent(a0).multiplyScalar(k)),
+            control2: Vector2.subtract(p3, tangent(a1).multiplyScalar(k)),
+            end: p3
+        });
+        p0 = p3;
+    }
+    return cubics;
+}
+
+/**
+ * Returns true if the segment is an elliptical arc (see {@link ArcSegment.radiusY}).
+ */
+export function isEllipticalArc(
+    segment: RoundedPolygonSegment
+): segment is ArcSegment & { radiusY: number } {
+    return segment.type === 'arc' && segment.radiusY !== undefined;
+}
+
+/**
+ * Applies the affine transform to the segment. Lines and cubic bézier curves keep their type.
+ * Arcs keep their angle, but become elliptical arcs if the transform contains a skew or
+ * a non-uniform scale, and change their direction if the transform contains a reflection.
+ *
+ * @param segment The segment to transform
+ * @param matrix The transform matrix
+ */
+export function transformSegment(
+    segment: RoundedPolygonSegment,
+    matrix: Matrix2D
+): RoundedPolygonSegment {
+    const start = matrix.transformPoint(segment.start);
+    const end = matrix.transformPoint(segment.end);
+
+    switch (segment.type) {
+        case 'line':
+            return { type: 'line', start, end };
+        case 'cubic':
+            return {
+                type: 'cubic',
+                start,
+                control1: matrix.transformPoint(segment.control1),
+                control2: matrix.transformPoint(segment.control2),
+                end
+            };
+        case 'arc': {
+            // the axes of the ellipse are the singular vectors of the transformed axes
+            const rotation = segment.rotation ?? 0;
+            const u = matrix.transformVector(
+                new Vector2(Math.cos(rotation), Math.sin(rotation)).multiplyScalar(segment.radius)
+            );
+            const v = matrix.transformVector(
+                new Vector2(-Math.sin(rotation), Math.cos(rotation)).multiplyScalar(
+                    segment.radiusY ?? segment.radius
+                )
+            );
+            const e = (u.x + v.y) / 2;
+            const f = (u.x - v.y) / 2;
+            const g = (u.y + v.x) / 2;
+            const h = (u.y - v.x) / 2;
+            const q = Math.sqrt(e * e + h * h);
+            const r = Math.sqrt(f * f + g * g);
+            const radiusX = q + r;
+            const radiusY = Math.abs(q - r);
+
+            const arc: ArcSegment = {
+                type: 'arc',
+                start,
+                end,
+                center: matrix.transformPoint(segment.center),
+                radius: radiusX,
+                sweep: matrix.determinant() < 0 ? 1 - segment.sweep : segment.sweep,
+                angle: segment.angle
+            };
+            if (radiusX - radiusY > 1e-12 * radiusX) {
+                arc.radiusY = radiusY;
+                arc.rotation = (Math.atan2(h, e) + Math.atan2(g, f)) / 2;
+            } else {
+                arc.radius = (radiusX + radiusY) / 2;
+            }
+            return arc;
+        }
+    }
+}
+
+// returns the point of the ellipse at the given angle of the ellipse parameterization
+function getEllipsePoint(segment: ArcSegment, angle: number): Vector2 {
+    const { u, v } = getEllipseAxes(segment);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return new Vector2(
+        segment.center.x + u.x * cos + v.x * sin,
+        segment.center.y + u.y * cos + v.y * sin
+    );
+}
+
+// returns the derivative of the ellipse point with respect to the angle of the parameterization
+function getEllipseDerivative(segment: ArcSegment, angle: number): Vector2 {
+    const { u, v } = getEllipseAxes(segment);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return new Vector2(v.x * cos - u.x * sin, v.y * cos - u.y * sin);
+}
+
+// returns the angle of the ellipse parameterization of a point on the ellipse
+function getEllipseAngle(segment: ArcSegment, point: Vector2): number {
+    const { u, v } = getEllipseAxes(segment);
+    const p = Vector2.subtract(point, segment.center);
+    return Math.atan2(p.dot(v) / v.dot(v), p.dot(u) / u.dot(u));
+}
+
+// returns the angles where the x and the y coordinates of the ellipse are extreme (the
+// other extremes are the opposite angles)
+function getEllipseExtremeAngles(segment: ArcSegment): { x: number; y: number } {
+    const { u, v } = getEllipseAxes(segment);
+    return { x: Math.atan2(v.x, u.x), y: Math.atan2(v.y, u.y) };
+}
+
+// returns the semi-axes of the ellipse of the arc as vectors
+function getEllipseAxes(segment: ArcSegment): { u: Vector2; v: Vector2 } {
+    const rotation = segment.rotation ?? 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const ry = segment.radiusY ?? segment.radius;
+    return {
+        u: new Vector2(cos * segment.radius, sin * segment.radius),
+        v: new Vector2(-sin * ry, cos * ry)
+    };
+}
+
+// splits the cubic bézier curve at the given curve parameter (de casteljau's algorithm)
+function splitCubic(segment: CubicSegment, t: number): [CubicSegment, CubicSegment] {
+    const lerp = (a: Vector2, b: Vector2) =>
+        new Vector2(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+    const { start: p0, control1: p1, control2: p2, end: p3 } = segment;
+    const p01 = lerp(p0, p1);
+    const p12 = lerp(p1, p2);
+    const p23 = lerp(p2, p3);
+    const p012 = lerp(p01, p12);
+    const p123 = lerp(p12, p23);
+    const p = lerp(p012, p123);
+    return [
+        { type: 'cubic', start: p0, control1: p01, control2: p012, end: p },
+        { type: 'cubic', start: p, control1: p123, control2: p23, end: p3 }
+    ];
+}
+
+// returns the curve parameter of the closest point of a cubic bézier curve or an elliptical arc
+function getCurveParameter(segment: RoundedPolygonSegment, point: Vector2): number {
+    const distance = (t: number) => Vector2.subtract(getSegmentPointAt(segment, t), point).length();
+    const samples = 16;
+    let best = 0;
+    for (let i = 1; i <= samples; i++) {
+        if (distance(i / samples) < distance(best / samples)) {
+            best = i;
+        }
+    }
+    let lo = Math.max(0, (best - 1) / samples);
+    let hi = Math.min(1, (best + 1) / samples);
+    for (let i = 0; i < 50; i++) {
+        const m1 = lo + (hi - lo) / 3;
+        const m2 = hi - (hi - lo) / 3;
+        if (distance(m1) < distance(m2)) {
+            hi = m2;
+        } else {
+            lo = m1;
+        }
+    }
+    return (lo + hi) / 2;
+}
+
+// normalizes the angle to the range [0, 2PI)
+function normalizeAngle(angle: number): number {
+    const a = angle % (2 * Math.PI);
+    return a < 0 ? a + 2 * Math.PI : a;
+}
+
+// returns the curve parameters within (0, 1) where the derivative of the coordinate is zero
+function getCubicExtrema(segment: CubicSegment, axis: 'x' | 'y'): number[] {
+    const a = segment.control1[axis] - segment.start[axis];
+    const b = segment.control2[axis] - segment.control1[axis];
+    const c = segment.end[axis] - segment.control2[axis];
+    return solveQuadratic(a - 2 * b + c, 2 * (b - a), a).filter((t) => t > 0 && t < 1);
+}
+
+// returns the real roots of the quadratic equation a t² + b t + c = 0
+function solveQuadratic(a: number, b: number, c: number): number[] {
+    if (Math.abs(a) < 1e-12) {
+        return Math.abs(b) < 1e-12 ? [] : [-c / b];
+    }
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+        return [];
+    }
+    const sqrt = Math.sqrt(discriminant);
+    return [(-b - sqrt) / (2 * a), (-b + sqrt) / (2 * a)];
+}
+
+// splits the segment into parts with monotone y coordinates (returns the curve parameter ranges)
+function getYMonotoneParts(segment: RoundedPolygonSegment): [number, number][] {
+    let splits: number[] = [];
+    if (isEllipticalArc(segment)) {
+        const { start: startAngle, delta } = getArcAngles(segment);
+        const { y } = getEllipseExtremeAngles(segment);
+        for (let k = -5; k <= 5; k++) {
+            const t = (y + k * Math.PI - startAngle) / delta;
+            if (t > 0 && t < 1) {
+                splits.push(t);
+            }
+        }
+    } else if (segment.type === 'arc') {
+        const { start: startAngle, delta } = getArcAngles(segment);
+        for (let k = -5; k <= 5; k++) {
+            const t = ((k + 0.5) * Math.PI - startAngle) / delta;
+            if (t > 0 && t < 1) {
+                splits.push(t);
+            }
+        }
+    } else if (segment.type === 'cubic') {
+        splits = getCubicExtrema(segment, 'y');
+    }
+
+    const params = [0, ...splits.sort((a, b) => a - b), 1];
+    return params.slice(1).map((t, i) => [params[i], t]);
+}
+
+// returns the x coordinate of the y monotone part of the segment at the given y coordinate
+function getMonotoneXAt(segment: RoundedPolygonSegment, t0: number, t1: number, y: number): number {
+    switch (segment.type) {
+        case 'line': {
+            const { start: a, end: b } = segment;
+            return a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x);
+        }
+        case 'arc': {
+            if (isEllipticalArc(segment)) {
+                return getMonotoneXByBisection(segment, t0, t1, y);
+            }
+            // the monotone parts of an arc lie either on the left or on the right half of the circle
+            const mid = getSegmentPointAt(segment, (t0 + t1) / 2);
+            const dy = y - segment.center.y;
+            const dx = Math.sqrt(Math.max(0, segment.radius * segment.radius - dy * dy));
+            return mid.x < segment.center.x ? segment.center.x - dx : segment.center.x + dx;
+        }
+        case 'cubic':
+            return getMonotoneXByBisection(segment, t0, t1, y);
+    }
+}
+
+// returns the x coordinate of a y monotone part of a curve by the bisection of the y coordinate
+function getMonotoneXByBisection(
+    segment: RoundedPolygonSegment,
+    t0: number,
+    t1: number,
+    y: number
+): number {
+    const increasing = getSegmentPointAt(segment, t1).y > getSegmentPointAt(segment, t0).y;
+    let lo = t0;
+    let hi = t1;
+    for (let i = 0; i < 60; i++) {
+        const m = (lo + hi) / 2;
+        if (getSegmentPointAt(segment, m).y < y === increasing) {
+            lo = m;
+        } else {
+            hi = m;
+        }
+    }
+    return getSegmentPointAt(segment, (lo + hi) / 2).x;
+}
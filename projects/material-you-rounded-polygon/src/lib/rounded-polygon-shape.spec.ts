@@ -0,0 +1,242 @@
+import { GOLDEN_PATHS } from './golden/rounded-polygon-paths';
+import { RoundedPolygon, RoundedPolygonArc } from './rounded-polygon';
+import {
+    resolveRoundedPolygonConfig,
+    ROUNDED_POLYGON_PRESETS,
+    RoundedPolygonConfig,
+    RoundedPolygonPresetName
+} from './rounded-polygon-config';
+import { getSegmentLength, getSegmentTangentAt } from './rounded-polygon-segment';
+import { createRoundedPolygonShape, createStarVertices } from './rounded-polygon-shape';
+import { Vector2 } from './vector2';
+
+const EPSILON = 1e-9;
+
+const PRESET_NAMES = Object.keys(ROUNDED_POLYGON_PRESETS) as RoundedPolygonPresetName[];
+
+// the configurations of the geometry checks
+function createConfigGrid(
+    cornerCounts: number[],
+    innerRadiusRatios: number[],
+    cornerRadii: number[],
+    smoothings: number[]
+): Partial<RoundedPolygonConfig>[] {
+    const configs: Partial<RoundedPolygonConfig>[] = [];
+    cornerCounts.forEach((cornerCount) =>
+        innerRadiusRatios.forEach((innerRadiusRatio) =>
+            cornerRadii.forEach((cornerRadius) =>
+                smoothings.forEach((cornerSmoothing) =>
+                    configs.push({ cornerCount, innerRadiusRatio, cornerRadius, cornerSmoothing })
+                )
+            )
+        )
+    );
+    return configs;
+}
+
+function createShape(config: RoundedPolygonPresetName | Partial<RoundedPolygonConfig>) {
+    return createRoundedPolygonShape(resolveRoundedPolygonConfig(config));
+}
+
+// returns the distance of the point to the line segment ab
+function getDistanceToEdge(p: Vector2, a: Vector2, b: Vector2): number {
+    const ab = Vector2.subtract(b, a);
+    const t = Math.min(1, Math.max(0, Vector2.subtract(p, a).dot(ab) / ab.dot(ab)));
+    return Vector2.subtract(p, Vector2.add(a, ab.multiplyScalar(t))).length();
+}
+
+// the points where the rounding of the corner leaves the incoming and the outgoing edge
+function getCornerStart(arc: RoundedPolygonArc): Vector2 {
+    return arc.entry ? arc.entry.start : arc.p1;
+}
+
+function getCornerEnd(arc: RoundedPolygonArc): Vector2 {
+    return arc.exit ? arc.exit.end : arc.p2;
+}
+
+// checks that the rounded corners are tangent to the edges of the polygon
+function expectTangentCorners(polygon: RoundedPolygon, context: string): void {
+    const arcs = polygon.arcs;
+    arcs.forEach((arc, i) => {
+        const previous = arcs[(i + arcs.length - 1) % arcs.length].corner.vertex;
+        const vertex = arc.corner.vertex;
+        const next = arcs[(i + 1) % arcs.length].corner.vertex;
+        const corner = `${context}, corner ${i}`;
+
+        expect(getDistanceToEdge(getCornerStart(arc), previous, vertex))
+            .withContext(corner)
+            .toBeLessThan(EPSILON);
+        expect(getDistanceToEdge(getCornerEnd(arc), vertex, next))
+            .withContext(corner)
+            .toBeLessThan(EPSILON);
+
+        if (arc.radius <= 0 || arc.angle <= 0) {
+            return;
+        }
+
+        // the radii of the arc end points are perpendicular to the tangents at these points
+        const startTangent = arc.entry
+            ? Vector2.subtract(arc.entry.end, arc.entry.control2)
+            : Vector2.subtract(vertex, previous);
+        const endTangent = arc.exit
+            ? Vector2.subtract(arc.exit.control1, arc.exit.start)
+            : Vector2.subtract(next, vertex);
+        const r1 = Vector2.subtract(arc.p1, arc.center);
+        const r2 = Vector2.subtract(arc.p2, arc.center);
+
+        expect(r1.length()).withContext(corner).toBeCloseTo(arc.radius, 9);
+        expect(r2.length()).withContext(corner).toBeCloseTo(arc.radius, 9);
+        expect(Vector2.normalize(r1).dot(Vector2.normalize(startTangent)))
+            .withContext(corner)
+            .toBeCloseTo(0, 9);
+        expect(Vector2.normalize(r2).dot(Vector2.normalize(endTangent)))
+            .withContext(corner)
+            .toBeCloseTo(0, 9);
+
+        // the transition curves start in the direction of the edges
+        if (arc.entry) {
+            const direction = Vector2.subtract(arc.entry.control1, arc.entry.start);
+            expect(Math.abs(direction.cross(Vector2.subtract(vertex, previous))))
+                .withContext(corner)
+                .toBeLessThan(EPSILON);
+        }
+        if (arc.exit) {
+            const direction = Vector2.subtract(arc.exit.end, arc.exit.control2);
+            expect(Math.abs(direction.cross(Vector2.subtract(next, vertex))))
+                .withContext(corner)
+                .toBeLessThan(EPSILON);
+        }
+    });
+}
+
+describe('createStarVertices', () => {
+    it('should alternate between the outer and the inner radius', () => {
+        const vertices = createStarVertices(5, 2, 1, Math.PI / 2);
+
+        expect(vertices.length).toBe(10);
+        vertices.forEach((v, i) => expect(v.length()).toBeCloseTo(i % 2 ? 1 : 2, 12));
+        expect(vertices[0].x).toBeCloseTo(0, 12);
+        expect(vertices[0].y).toBeCloseTo(2, 12);
+
+        // the vertices are evenly distributed
+        vertices.forEach((v, i) => {
+            const next = vertices[(i + 1) % vertices.length];
+            expect(v.angle(next)).toBeCloseTo(Math.PI / 5, 12);
+            expect(v.cross(next)).toBeGreaterThan(0);
+        });
+    });
+});
+
+describe('createRoundedPolygonShape', () => {
+    it('should match the golden svg path data', () => {
+        const names: string[] = [];
+        const check = (name: string, shape: RoundedPolygon) => {
+            names.push(name);
+            // the failure messages contain the new values of changed snapshots
+            expect(shape.getSVGPathData(100, new Vector2(50, 50), 3))
+                .withContext(name)
+                .toBe(GOLDEN_PATHS[name]);
+        };
+
+        PRESET_NAMES.forEach((name) => check(name, createShape(name)));
+        createConfigGrid([3, 5, 8], [0.5, 1], [0, 0.5, 1], [0, 0.5]).forEach((config) => {
+            const { cornerCount, innerRadiusRatio, cornerRadius, cornerSmoothing } = config;
+            const name = `star-${cornerCount}-${innerRadiusRatio}-${cornerRadius}-${cornerSmoothing}`;
+            check(name, createShape(config));
+        });
+
+        // there are no snapshots without a shape
+        expect(Object.keys(GOLDEN_PATHS).sort()).toEqual(names.sort());
+    });
+
+    it('should create corners which are tangent to the polygon edges', () => {
+        const grid = createConfigGrid(
+            [3, 4, 5, 6, 8, 12],
+            [0.2, 0.5, 0.8, 1],
+            [0.25, 0.5, 1],
+            [0, 0.5, 1]
+        );
+        grid.forEach((config) => expectTangentCorners(createShape(config), JSON.stringify(config)));
+        PRESET_NAMES.forEach((name) => expectTangentCorners(createShape(name), name));
+    });
+
+    it('should create outlines without tangent discontinuities', () => {
+        const grid = createConfigGrid([3, 5, 8], [0.4, 1], [0.25, 1], [0, 0.5]);
+        grid.forEach((config) => {
+            const segments = createShape(config)
+                .getSegments()
+                .filter((segment) => getSegmentLength(segment) > EPSILON);
+
+            segments.forEach((segment, i) => {
+                const next = segments[(i + 1) % segments.length];
+                const end = getSegmentTangentAt(segment, 1);
+                const start = getSegmentTangentAt(next, 0);
+                expect(end.dot(start))
+                    .withContext(`${JSON.stringify(config)}, segment ${i}`)
+                    .toBeCloseTo(1, 6);
+            });
+        });
+    });
+
+    it('should not overlap adjacent arcs at the full corner radius', () => {
+        const shapes: [string, RoundedPolygon][] = [
+            ...createConfigGrid([3, 4, 5, 8, 12, 20], [0.2, 0.5, 0.8, 1], [1], [0, 0.5, 1]).map(
+                (config): [string, RoundedPolygon] => [JSON.stringify(config), createShape(config)]
+            ),
+            ...PRESET_NAMES.map((name): [string, RoundedPolygon] => [
+                name,
+                createShape({
+                    ...ROUNDED_POLYGON_PRESETS[name],
+                    cornerRadius: 1,
+                    cornerRadii: undefined,
+                    outerCornerRadius: undefined,
+                    innerCornerRadius: undefined
+                })
+            ])
+        ];
+
+        shapes.forEach(([context, polygon]) => {
+            const arcs = polygon.arcs;
+            arcs.forEach((arc, i) => {
+                const next = arcs[(i + 1) % arcs.length];
+                const edge = Vector2.subtract(next.corner.vertex, arc.corner.vertex).length();
+                const end = Vector2.subtract(getCornerEnd(arc), arc.corner.vertex).length();
+                const start = Vector2.subtract(getCornerStart(next), next.corner.vertex).length();
+
+                expect(end + start)
+                    .withContext(`${context}, edge ${i}`)
+                    .toBeLessThanOrEqual(edge + EPSILON);
+            });
+        });
+    });
+    it('should scale the absolute corner radii with the vertices', () => {
+        // the radii are relative to the normalized coordinates of the vertices
+        const star = createShape({
+            cornerCount: 4,
+            innerRadiusRatio: 0.5,
+            outerCornerRadius: { radius: 0.1 },
+            innerCornerRadius: { radius: 0.05 }
+        });
+        // the outer vertices lie on the unit circle
+        const scale = star.arcs[0].corner.vertex.length();
+        star.arcs.forEach((arc, i) => {
+            expect(arc.radius)
+                .withContext(`star, corner ${i}`)
+                .toBeCloseTo(scale * (i % 2 ? 0.05 : 0.1), 12);
+        });
+
+        const vertices: [number, number][] = [
+            [-0.5, -0.5],
+            [0.5, -0.5],
+            [0.5, 0.5],
+            [-0.5, 0.5]
+        ];
+        const square = createShape({ vertices, cornerRadii: [{ radius: 0.2 }, 0] });
+        const edge = Vector2.subtract(square.arcs[1].corner.vertex, square.arcs[0].corner.vertex);
+        square.arcs.forEach((arc, i) => {
+            expect(arc.radius)
+                .withContext(`square, corner ${i}`)
+                .toBeCloseTo(i % 2 ? 0 : edge.length() * 0.2, 12);
+        });
+    });
+});
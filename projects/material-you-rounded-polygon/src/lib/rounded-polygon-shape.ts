@@ -0,0 +1,275 @@
+import { RoundedPolygonConfig, RoundedPolygonVertices } from './rounded-polygon-config';
+import { CornerRadii, CornerRadius, RoundedPolygon } from './rounded-polygon';
+import { Vector2 } from './vector2';
+
+/**
+ * The sizing modes of a rounded polygon shape.
+ *
+ * - `bounding-box`: The shape is defined relative to the bounding box of the host
+ *   element and gets stretched with the aspect ratio of the host (default).
+ * - `contain`: The shape is generated in pixel space and fits into the host element.
+ * - `cover`: The shape is generated in pixel space and covers the host element.
+ * - `stretch`: The polygon is stretched to the size of the host element and gets
+ *   rounded in pixel space, so that the corners remain circular.
+ */
+export type RoundedPolygonFit = 'bounding-box' | 'contain' | 'cover' | 'stretch';
+
+/**
+ * The transform which maps the coordinates of a shape to the coordinate system of
+ * the host element (see {@link getRoundedPolygonTransform}).
+ */
+export interface RoundedPolygonTransform {
+    /**
+     * The scale factor (a vector scales the x and y coordinates independently).
+     */
+    scale: number | Vector2;
+
+    translate: Vector2;
+
+    /**
+     * The number of decimal values which are sufficient for the path data.
+     */
+    precision: number;
+}
+
+/**
+ * Creates the vertices of a star polygon, which alternate between the outer and the
+ * inner radius. The first vertex is an outer vertex.
+ *
+ * @param corners The number of outer corners
+ * @param outerRadius The radius of the outer vertices
+ * @param innerRadius The radius of the inner vertices
+ * @param tilt The angle of the first vertex (in radians)
+ */
+export function createStarVertices(
+    corners: number,
+    outerRadius: number,
+    innerRadius: number,
+    tilt: number
+): Vector2[] {
+    // create the basic polygon vertices which than can be rounded
+    const vertices: Vector2[] = [];
+    const numPoints = corners * 2;
+    const gamma = (2 * Math.PI) / numPoints;
+
+    let angle = tilt;
+    for (let i = 0; i < numPoints; i++) {
+        const radius = i % 2 ? innerRadius : outerRadius;
+        const rx = Math.cos(angle) * radius;
+        const ry = Math.sin(angle) * radius;
+        vertices.push(new Vector2(rx, ry));
+
+        angle += gamma;
+    }
+
+    return vertices;
+}
+
+/**
+ * Creates the rounded polygon of a configuration. The polygon is centered at (0, 0) and
+ * fills a square of the size 1 (the unit viewport), unless the fit is `stretch`. A stretched
+ * polygon fills the given size instead.
+ *
+ * The absolute corner radii of the configuration are in normalized coordinates, so they are
+ * scaled along with the vertices.
+ *
+ * The `inset` and `outset` of the configuration are pixel distances, so they are only applied
+ * if the size is known. In the `bounding-box` mode, they refer to the smaller side of the host
+ * element (the distance is not uniform for hosts which are not square).
+ *
+ * @param config The resolved configuration (see {@link resolveRoundedPolygonConfig})
+ * @param fit The sizing mode of the shape
+ * @param size The size of the host element in pixels (used by the `stretch` mode and the offsets)
+ * @throws {Error} If the configuration has less than three custom vertices
+ */
+export function createRoundedPolygonShape(
+    config: RoundedPolygonConfig,
+    fit: RoundedPolygonFit = 'bounding-box',
+    size: Vector2 | null = null
+): RoundedPolygon {
+    // prepare the parameters for the shape construction
+    const maxRadius = 0.5;
+    const outerRadius = config.outerRadius * maxRadius;
+    const innerRadius = config.outerRadius * config.innerRadiusRatio * maxRadius;
+    const tilt = config.tilt * (Math.PI / 180);
+
+    let vertices: Vector2[];
+    let radii: CornerRadii;
+    if (config.vertices) {
+        // scale and rotate the normalized custom vertices
+        vertices = resolveVertices(config.vertices, config).map((v) =>
+            Vector2.rotate(v, -tilt).multiplyScalar(outerRadius)
+        );
+        radii = scaleCornerRadii(config.cornerRadii ?? config.cornerRadius, outerRadius);
+    } else {
+        // construct the star polygon with just the corner points
+        vertices = createStarVertices(config.cornerCount, outerRadius, innerRadius, tilt);
+
+        // the outer corners are at the even and the inner corners at the odd indices
+        radii = scaleCornerRadii(
+            config.cornerRadii ?? [
+                config.outerCornerRadius ?? config.cornerRadius,
+                config.innerCornerRadius ?? config.cornerRadius
+            ],
+            outerRadius
+        );
+    }
+
+    const polygon =
+        fit === 'stretch' && size
+            ? createStretchedPolygon(vertices, radii, config.cornerSmoothing, size)
+            : createFittedPolygon(vertices, radii, config.cornerSmoothing);
+    return offsetShape(polygon, config, fit, size);
+}
+
+/**
+ * Creates a rounded polygon which fills the unit viewport. The rounded corners reduce the
+ * size of the polygon, which gets compensated by scaling the vertices.
+ *
+ * @param vertices The vertices of the polygon (within a circle with the radius 0.5)
+ * @param radii The corner radii (the absolute radii are in the units of the vertices)
+ * @param smoothing The corner smoothing
+ */
+export function createFittedPolygon(
+    vertices: Vector2[],
+    radii: CornerRadii,
+    smoothing: number = 0
+): RoundedPolygon {
+    // create the rounded polygon from the vertices
+    const rp: RoundedPolygon = RoundedPolygon.createFromVertices(vertices, radii, smoothing);
+
+    // find the largest offset value to compensate the size reduction
+    // caused by the rounded corners
+    const offset = rp.arcs.reduce((m, a) => Math.max(m, a.offset), 0);
+    const vp2 = 0.5;
+    let scale = offset !== 0 ? vp2 / (vp2 - offset) : 1;
+    scale *= 0.99; // just a little spacing
+
+    // the rounding is proportional to the size of the polygon, therefore the scaled
+    // vertices result in the scaled rounded polygon
+    return RoundedPolygon.createFromVertices(
+        vertices.map((v) => v.multiplyScalar(scale)),
+        scaleCornerRadii(radii, scale),
+        smoothing
+    );
+}
+
+/**
+ * Creates a rounded polygon which is stretched to the given size. The corners are rounded
+ * after the stretching, so that they remain circular.
+ *
+ * @param vertices The vertices of the polygon (within a circle with the radius 0.5)
+ * @param radii The corner radii (the absolute radii are in the units of the vertices and get
+ * scaled by the smaller side of the host element)
+ * @param smoothing The corner smoothing
+ * @param size The size of the host element in pixels
+ */
+export function createStretchedPolygon(
+    vertices: Vector2[],
+    radii: CornerRadii,
+    smoothing: number,
+    size: Vector2
+): RoundedPolygon {
+    // stretch the vertices to the size of the host element (in pixels)
+    const stretch = (scaleX: number, scaleY: number) =>
+        vertices.map((v) => new Vector2(v.x * scaleX, v.y * scaleY));
+    const rp: RoundedPolygon = RoundedPolygon.createFromVertices(
+        stretch(size.x, size.y),
+        scaleCornerRadii(radii, Math.min(size.x, size.y)),
+        smoothing
+    );
+
+    // compensate the size reduction caused by the rounded corners in both directions
+    const { min, max } = rp.getBounds();
+    const extentX = Math.max(Math.abs(min.x), Math.abs(max.x));
+    const extentY = Math.max(Math.abs(min.y), Math.abs(max.y));
+    const fx = extentX > 0 ? size.x / 2 / extentX : 1;
+    const fy = extentY > 0 ? size.y / 2 / extentY : 1;
+
+    return RoundedPolygon.createFromVertices(
+        stretch(size.x * fx * 0.99, size.y * fy * 0.99),
+        scaleCornerRadii(radii, Math.min(size.x * fx, size.y * fy) * 0.99),
+        smoothing
+    );
+}
+
+/**
+ * Returns the transform which maps a shape of {@link createRoundedPolygonShape} to the
+ * coordinate system of the host element. In the `bounding-box` mode, the coordinates are
+ * relative to the bounding box of the host (between 0 and 1), otherwise they are in pixels.
+ * Returns null if the size of the host is required but unknown.
+ *
+ * @param fit The sizing mode of the shape
+ * @param size The size of the host element in pixels
+ */
+export function getRoundedPolygonTransform(
+    fit: RoundedPolygonFit,
+    size: Vector2 | null
+): RoundedPolygonTransform | null {
+    if (fit === 'bounding-box') {
+        return { scale: 1, translate: new Vector2(0.5, 0.5), precision: 4 };
+    }
+
+    if (!size) {
+        // the host has not been measured yet
+        return null;
+    }
+
+    // the shape is centered within the host element
+    let scale = 1;
+    if (fit === 'contain') {
+        scale = Math.min(size.x, size.y);
+    } else if (fit === 'cover') {
+        scale = Math.max(size.x, size.y);
+    }
+    return { scale, translate: new Vector2(size.x / 2, size.y / 2), precision: 2 };
+}
+
+// scales the absolute corner radii, the ratios are independent of the size of the polygon
+function scaleCornerRadii(radii: CornerRadii, scale: number): CornerRadii {
+    const scaleRadius = (r: CornerRadius): CornerRadius =>
+        typeof r === 'number' ? r : { radius: r.radius * scale };
+    if (typeof radii === 'function') {
+        return (index, vertex) => scaleRadius(radii(index, vertex));
+    }
+    return Array.isArray(radii) ? radii.map(scaleRadius) : scaleRadius(radii);
+}
+
+// moves the outline of the shape by the inset and outset of the configuration
+function offsetShape(
+    polygon: RoundedPolygon,
+    config: RoundedPolygonConfig,
+    fit: RoundedPolygonFit,
+    size: Vector2 | null
+): RoundedPolygon {
+    const distance = (config.outset || 0) - (config.inset || 0);
+    if (!distance || !size) {
+        return polygon;
+    }
+
+    // the number of pixels per unit of the shape
+    const transform = getRoundedPolygonTransform(fit, size) as RoundedPolygonTransform;
+    const scale = fit === 'bounding-box' ? Math.min(size.x, size.y) : (transform.scale as number);
+    if (!(scale > 0)) {
+        return polygon;
+    }
+
+    const offset = polygon.offset(distance / scale);
+    offset.warnings = polygon.warnings.concat(offset.warnings);
+    return offset;
+}
+
+// resolves the custom vertices of the configuration
+function resolveVertices(
+    vertices: RoundedPolygonVertices,
+    config: RoundedPolygonConfig
+): Vector2[] {
+    const list = typeof vertices === 'function' ? vertices(config) : vertices;
+    if (list.length < 3) {
+        throw new Error('A rounded polygon needs at least three vertices.');
+    }
+
+    return list.map((v) =>
+        v instanceof Vector2 ? new Vector2(v.x, v.y) : new Vector2(v[0], v[1])
+    );
+}
@@ -0,0 +1,482 @@
+import { Matrix2D } from './matrix2d';
+import { RoundedPolygon, RoundedPolygonError } from './rounded-polygon';
+import { getSegmentPointAt } from './rounded-polygon-segment';
+import { Vector2 } from './vector2';
+
+// a small seeded random number generator (mulberry32), so that failing cases can be reproduced
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// creates a random star shaped polygon, which is always simple but may have reflex corners,
+// or a random simple polygon, which is not necessarily star shaped (e.g. spirals and combs)
+function createRandomPolygon(random: () => number, starShaped = true): Vector2[] {
+    const count = 3 + Math.floor(random() * 14);
+    if (!starShaped) {
+        return untangle(
+            [...Array(count)].map(() => new Vector2(random() * 2 - 1, random() * 2 - 1))
+        );
+    }
+
+    const angles = [...Array(count)].map(() => random() * Math.PI * 2).sort((a, b) => a - b);
+    const vertices = angles.map((a) => {
+        const r = 0.2 + random() * 0.8;
+        return new Vector2(Math.cos(a) * r, Math.sin(a) * r);
+    });
+
+    // the polygon must surround the origin to be star shaped
+    const gaps = angles.map(
+        (a, i) => (i === 0 ? a + Math.PI * 2 : a) - angles[(i + count - 1) % count]
+    );
+    return gaps.every((g) => g < Math.PI) ? vertices : createRandomPolygon(random);
+}
+
+// reverses the parts between crossing edges until the polygon is simple (2-opt), which
+// terminates because each reversal shortens the outline
+function untangle(vertices: Vector2[]): Vector2[] {
+    const l = vertices.length;
+    for (let i = 0; i < l; i++) {
+        for (let j = i + 2; j < l - (i === 0 ? 1 : 0); j++) {
+            const [a, b, c, d] = [i, i + 1, j, (j + 1) % l].map((k) => vertices[k]);
+            if (crosses(a, b, c, d)) {
+                const reversed = vertices.slice(i + 1, j + 1).reverse();
+                return untangle([
+                    ...vertices.slice(0, i + 1),
+                    ...reversed,
+                    ...vertices.slice(j + 1)
+                ]);
+            }
+        }
+    }
+    return vertices;
+}
+
+function createRandomRadii(random: () => number, count: number): number[] {
+    return [...Array(count)].map(() => (random() < 0.3 ? 1 : random()));
+}
+
+// returns true if the segments ab and cd cross each other (touching segments do not count)
+function crosses(a: Vector2, b: Vector2, c: Vector2, d: Vector2): boolean {
+    const epsilon = 1e-12;
+    const orientation = (p: Vector2, q: Vector2, r: Vector2) =>
+        Vector2.subtract(q, p).cross(Vector2.subtract(r, p));
+    const o1 = orientation(a, b, c);
+    const o2 = orientation(a, b, d);
+    const o3 = orientation(c, d, a);
+    const o4 = orientation(c, d, b);
+    return (
+        ((o1 > epsilon && o2 < -epsilon) || (o1 < -epsilon && o2 > epsilon)) &&
+        ((o3 > epsilon && o4 < -epsilon) || (o3 < -epsilon && o4 > epsilon))
+    );
+}
+
+function isSelfIntersecting(polygon: RoundedPolygon): boolean {
+    const points = polygon
+        .toPolyline(0.0005)
+        .filter((p, i, list) => Vector2.subtract(p, list[(i + 1) % list.length]).length() > 1e-9);
+    const l = points.length;
+    for (let i = 0; i < l; i++) {
+        for (let j = i + 2; j < l - (i === 0 ? 1 : 0); j++) {
+            if (crosses(points[i], points[(i + 1) % l], points[j], points[(j + 1) % l])) {
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+function isFinitePath(d: string): boolean {
+    return !/NaN|Infinity/.test(d);
+}
+
+describe('RoundedPolygon', () => {
+    const runs = 200;
+
+    it('should create finite paths for random polygons', () => {
+        const random = createRandom(1);
+        for (let i = 0; i < runs; i++) {
+            const vertices = createRandomPolygon(random);
+            const polygon = RoundedPolygon.createFromVertices(
+                vertices,
+                createRandomRadii(random, vertices.length),
+                random()
+            );
+            const d = polygon.getSVGPathData(100, new Vector2(100, 100));
+            expect(isFinitePath(d)).withContext(d).toBeTrue();
+            expect(polygon.getArea()).toBeGreaterThan(0);
+        }
+    });
+
+    it('should create outlines which do not intersect themselves', () => {
+        const random = createRandom(2);
+        for (let i = 0; i < runs; i++) {
+            const vertices = createRandomPolygon(random);
+            const radii = createRandomRadii(random, vertices.length);
+            const smoothing = random() < 0.5 ? 0 : random();
+            const polygon = RoundedPolygon.createFromVertices(vertices, radii, smoothing);
+            expect(isSelfIntersecting(polygon))
+                .withContext(JSON.stringify({ vertices, radii, smoothing }))
+                .toBeFalse();
+        }
+    });
+
+    it('should reduce the radii of corners which overlap other parts of the outline', () => {
+        // a square with a narrow sharp notch whose tip reaches into the rounding of the first corner
+        const vertices = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-0.7, 1),
+            new Vector2(-0.8, -0.8),
+            new Vector2(-0.9, 1),
+            new Vector2(-1, 1)
+        ];
+        const polygon = RoundedPolygon.createFromVertices(vertices, [1, 0, 0, 0, 0, 0, 0], 0.5);
+        expect(isSelfIntersecting(polygon)).toBeFalse();
+        expect(polygon.warnings.length).toBeGreaterThan(0);
+    });
+
+    it('should ignore duplicate and collinear vertices', () => {
+        const random = createRandom(3);
+        for (let i = 0; i < runs; i++) {
+            const vertices = createRandomPolygon(random);
+            const radii = createRandomRadii(random, vertices.length);
+            const expected = RoundedPolygon.createFromVertices(vertices, radii).getSVGPathData(100);
+
+            // insert duplicates and points on the edges, their radii are ignored
+            const degenerate: Vector2[] = [];
+            const degenerateRadii: number[] = [];
+            vertices.forEach((v, j) => {
+                const next = vertices[(j + 1) % vertices.length];
+                degenerate.push(v);
+                degenerateRadii.push(radii[j]);
+                if (random() < 0.3) {
+                    degenerate.push(new Vector2(v.x, v.y));
+                    degenerateRadii.push(random());
+                }
+                if (random() < 0.3) {
+                    const t = 0.1 + random() * 0.8;
+                    degenerate.push(Vector2.add(v, Vector2.subtract(next, v).multiplyScalar(t)));
+                    degenerateRadii.push(random());
+                }
+            });
+
+            const polygon = RoundedPolygon.createFromVertices(degenerate, degenerateRadii);
+            expect(polygon.getSVGPathData(100)).toEqual(expected);
+            expect(polygon.warnings.length).toBe(degenerate.length - vertices.length);
+        }
+    });
+
+    it('should remove spikes without area', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const spiked = [square[0], square[1], new Vector2(2, -1), ...square.slice(1)];
+        const polygon = RoundedPolygon.createFromVertices(spiked, 0.5);
+        expect(polygon.getSVGPathData()).toEqual(
+            RoundedPolygon.createFromVertices(square, 0.5).getSVGPathData()
+        );
+        expect(polygon.warnings.length).toBe(2);
+    });
+
+    it('should handle invalid corner radii and smoothing values', () => {
+        const triangle = [new Vector2(0, -1), new Vector2(1, 1), new Vector2(-1, 1)];
+        const polygon = RoundedPolygon.createFromVertices(
+            triangle,
+            [NaN, -1, { radius: Infinity }],
+            NaN
+        );
+        expect(isFinitePath(polygon.getSVGPathData())).toBeTrue();
+    });
+
+    it('should measure the outline analytically', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const circle = RoundedPolygon.createFromVertices(square, 1);
+        expect(circle.getArea()).toBeCloseTo(Math.PI, 12);
+        expect(circle.getPerimeter()).toBeCloseTo(Math.PI * 2, 12);
+        expect(circle.getBounds()).toEqual({ min: new Vector2(-1, -1), max: new Vector2(1, 1) });
+        expect(circle.getCentroid().length()).toBeCloseTo(0, 12);
+        expect(circle.getSignedDistance(new Vector2(0, 0))).toBeCloseTo(-1, 12);
+        expect(circle.getSignedDistance(new Vector2(0.6, 0.8))).toBeCloseTo(0, 12);
+        expect(circle.getSignedDistance(new Vector2(3, 4))).toBeCloseTo(4, 12);
+
+        // the corners of a rounded square are quarter circles
+        const rounded = RoundedPolygon.createFromVertices(square, 0.5);
+        expect(rounded.getArea()).toBeCloseTo(4 - (4 - Math.PI) * 0.25, 12);
+        expect(rounded.getPerimeter()).toBeCloseTo(4 + Math.PI, 12);
+        expect(rounded.containsPoint(new Vector2(0.9, 0.9))).toBeFalse();
+        expect(rounded.containsPoint(new Vector2(0.9, 0.4))).toBeTrue();
+        expect(rounded.getSignedDistance(new Vector2(1, 1))).toBeCloseTo(Math.SQRT1_2 - 0.5, 12);
+
+        // the centroid of an l-shape, which is composed of two rectangles
+        const l = RoundedPolygon.createFromVertices(
+            [
+                new Vector2(0, 0),
+                new Vector2(2, 0),
+                new Vector2(2, 1),
+                new Vector2(1, 1),
+                new Vector2(1, 2),
+                new Vector2(0, 2)
+            ],
+            0
+        );
+        expect(l.getArea()).toBeCloseTo(3, 12);
+        expect(l.getCentroid().x).toBeCloseTo(5 / 6, 12);
+        expect(l.getCentroid().y).toBeCloseTo(5 / 6, 12);
+        expect(l.getBounds()).toEqual({ min: new Vector2(0, 0), max: new Vector2(2, 2) });
+        expect(l.containsPoint(new Vector2(1.5, 1.5))).toBeFalse();
+        expect(l.getSignedDistance(new Vector2(1.5, 1.5))).toBeCloseTo(0.5, 12);
+    });
+
+    it('should sample the outline by arc length', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const circle = RoundedPolygon.createFromVertices(square, 1);
+
+        // the outline starts at the beginning of the first corner
+        [0, 0.1, 0.25, 0.6, 1.35, -0.4].forEach((t) => {
+            const angle = Math.PI + Math.PI * 2 * t;
+            const point = circle.pointAt(t);
+            const tangent = circle.tangentAt(t);
+            expect(point.x).withContext(`${t}`).toBeCloseTo(Math.cos(angle), 12);
+            expect(point.y).withContext(`${t}`).toBeCloseTo(Math.sin(angle), 12);
+            expect(tangent.x).withContext(`${t}`).toBeCloseTo(-Math.sin(angle), 12);
+            expect(tangent.y).withContext(`${t}`).toBeCloseTo(Math.cos(angle), 12);
+        });
+    });
+
+    it('should flatten the outline within the tolerance', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const circle = RoundedPolygon.createFromVertices(square, 1);
+        [0.1, 0.01, 0.001].forEach((tolerance) => {
+            const points = circle.toPolyline(tolerance);
+            points.forEach((p) => expect(p.length()).toBeCloseTo(1, 12));
+
+            // the chord errors are close to the tolerance, so that there are no unnecessary points
+            const errors = points.map(
+                (p, i) =>
+                    1 -
+                    Vector2.add(p, points[(i + 1) % points.length])
+                        .multiplyScalar(0.5)
+                        .length()
+            );
+            expect(Math.max(...errors))
+                .withContext(`${tolerance}`)
+                .toBeLessThanOrEqual(tolerance);
+            expect(Math.max(...errors))
+                .withContext(`${tolerance}`)
+                .toBeGreaterThan(tolerance / 4);
+        });
+
+        // the points of the transition curves lie on the outline as well
+        const smoothed = RoundedPolygon.createFromVertices(square, 0.6, 0.8);
+        smoothed.toPolyline(0.001).forEach((p) => {
+            expect(smoothed.getSignedDistance(p)).toBeCloseTo(0, 9);
+        });
+    });
+
+    it('should create parallel outlines', () => {
+        const random = createRandom(4);
+        for (let i = 0; i < runs; i++) {
+            const vertices = createRandomPolygon(random, i % 2 === 0);
+            const radii = createRandomRadii(random, vertices.length);
+            const polygon = RoundedPolygon.createFromVertices(vertices, radii);
+            const distance = (random() - 0.5) * 0.04;
+            const offset = polygon.offset(distance);
+            if (offset.warnings.length > 0) {
+                // the outline has collapsed
+                continue;
+            }
+
+            for (let j = 0; j < 32; j++) {
+                const point = offset.pointAt(j / 32);
+                expect(polygon.getSignedDistance(point))
+                    .withContext(JSON.stringify({ vertices, radii, distance }))
+                    .toBeCloseTo(distance, 6);
+            }
+        }
+    });
+
+    it('should report the local collapses of the offset outline', () => {
+        // the narrow notch between the first and the last vertex closes
+        const vertices = [
+            [-0.0601, -0.378],
+            [-0.19, -0.1572],
+            [0.2408, 0.3062],
+            [0.3274, -0.2126],
+            [0.4064, -0.0728],
+            [0.2603, -0.5559],
+            [0.2674, -0.7465],
+            [0.2701, -0.8692],
+            [0.9315, -0.3871],
+            [0.6131, 0.4591],
+            [-0.6069, 0.923],
+            [-0.1741, -0.2859],
+            [-0.5784, -0.975]
+        ].map(([x, y]) => new Vector2(x, y));
+        const radii = [0.066, 0.428, 0.075, 0.2, 0.176, 1, 1, 1, 1, 1, 1, 0.233, 1];
+        const polygon = RoundedPolygon.createFromVertices(vertices, radii, 0);
+
+        expect(polygon.warnings).toEqual([]);
+        expect(isSelfIntersecting(polygon.offset(-0.02))).toBeTrue();
+        expect(polygon.offset(-0.02).warnings.length).toBe(1);
+        expect(polygon.offset(0.001).warnings).toEqual([]);
+    });
+
+    it('should create sharp corners if the offset radius drops below zero', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const inset = RoundedPolygon.createFromVertices(square, 0.2).offset(-0.5);
+        expect(inset.arcs.every((a) => a.radius === 0)).toBeTrue();
+        expect(inset.getArea()).toBeCloseTo(1, 9);
+
+        // the sharp corners of an outset become arcs around the corner points
+        const outset = RoundedPolygon.createFromVertices(square, 0).offset(0.5);
+        expect(outset.arcs.every((a) => a.radius === 0.5)).toBeTrue();
+        expect(outset.getArea()).toBeCloseTo(9 - (4 - Math.PI) * 0.25, 9);
+
+        expect(RoundedPolygon.createFromVertices(square).offset(-2).warnings.length).toBe(1);
+    });
+
+    it('should format the path data', () => {
+        const square = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 1), new Vector2(0, 1)];
+        const polygon = RoundedPolygon.createFromVertices(square, 0.5);
+        const origin = new Vector2(0, 0);
+
+        expect(polygon.getSVGPathData(4, origin, 2, { relative: true, close: true })).toEqual(
+            'M0,1a1,1,0,0,1,1,-1l2,0a1,1,0,0,1,1,1l0,2a1,1,0,0,1,-1,1l-2,0a1,1,0,0,1,-1,-1z'
+        );
+        expect(polygon.getSVGPathData(0.4, origin, 2, { compact: true })).toEqual(
+            'M0 .1A.1.1 0 0 1 .1 0L.3 0A.1.1 0 0 1 .4.1L.4.3A.1.1 0 0 1 .3.4L.1.4A.1.1 0 0 1 0 .3L0 .1'
+        );
+
+        // the lines of a circle have no length
+        const circle = RoundedPolygon.createFromVertices(square, 1);
+        const options = { arcsToCubics: true, omitZeroLength: true, close: true, compact: true };
+        expect(circle.getSVGPathData(2, new Vector2(-1, -1), 3, options)).toEqual(
+            'M-1 0C-1-.552-.552-1 0-1 .552-1 1-.552 1 0 1 .552.552 1 0 1-.552 1-1 .552-1 0Z'
+        );
+    });
+
+    it('should escape the attributes of the svg document', () => {
+        const square = [new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 1), new Vector2(0, 1)];
+        const polygon = RoundedPolygon.createFromVertices(square, 0.5);
+        const svg = polygon.getSVGDocument({ fill: 'url("#g")', stroke: '<a & b>' });
+
+        expect(svg).toContain('fill="url(&quot;#g&quot;)"');
+        expect(svg).toContain('stroke="&lt;a &amp; b&gt;"');
+
+        const document = new DOMParser().parseFromString(svg, 'image/svg+xml');
+        const path = document.querySelector('path') as SVGPathElement;
+        expect(document.querySelector('parsererror')).toBeNull();
+        expect(path.getAttribute('fill')).toBe('url("#g")');
+        expect(path.getAttribute('stroke')).toBe('<a & b>');
+    });
+
+    it('should transform the outline with elliptical arcs', () => {
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const circle = RoundedPolygon.createFromVertices(square, 1);
+        const matrix = Matrix2D.multiply(Matrix2D.rotate(Math.PI / 6), Matrix2D.scale(2, 1));
+        const ellipse = circle.transform(matrix);
+
+        // the outline equals the transformed outline of the circle
+        circle.getSegments().forEach((segment, i) => {
+            const a = matrix.transformPoint(getSegmentPointAt(segment, 0.3));
+            const b = getSegmentPointAt(ellipse.getSegments()[i], 0.3);
+            expect(Vector2.subtract(a, b).length()).toBeLessThan(1e-12);
+        });
+        expect(ellipse.getArea()).toBeCloseTo(2 * Math.PI, 12);
+        expect(ellipse.getSVGPathData(1, new Vector2(0, 0), 3)).toMatch(/^M[^A]*A2,1,30,0,1,/);
+
+        // rotations and uniform scales keep the arcs circular
+        const rotated = circle.transform(Matrix2D.multiply(Matrix2D.rotate(1), Matrix2D.scale(3)));
+        expect(rotated.arcs.every((arc) => arc.radiusY === undefined)).toBeTrue();
+        expect(rotated.arcs[0].radius).toBeCloseTo(3, 12);
+        expect(() => ellipse.offset(0.1)).toThrowError(RoundedPolygonError);
+    });
+
+    it('should draw the same shape as the svg path data', () => {
+        const context = document
+            .createElement('canvas')
+            .getContext('2d') as CanvasRenderingContext2D;
+        const square = [
+            new Vector2(-1, -1),
+            new Vector2(1, -1),
+            new Vector2(1, 1),
+            new Vector2(-1, 1)
+        ];
+        const polygons = [
+            RoundedPolygon.createFromVertices(createRandomPolygon(createRandom(5)), 0.6, 0.5),
+            RoundedPolygon.createFromVertices(square, 0.8).transform(Matrix2D.skewX(0.4))
+        ];
+        const scales = [80, -80, new Vector2(120, 60), new Vector2(-60, 100)];
+        const translate = new Vector2(150, 150);
+
+        polygons.forEach((polygon, i) =>
+            scales.forEach((scale) => {
+                const path = polygon.getPath2D(scale, translate);
+                const reference = new Path2D(polygon.getSVGPathData(scale, translate, 6));
+                const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+
+                for (let x = 0; x < 300; x += 6) {
+                    for (let y = 0; y < 300; y += 6) {
+                        // the points close to the outline depend on the flattening of the curves
+                        const local = new Vector2((x - translate.x) / s.x, (y - translate.y) / s.y);
+                        if (Math.abs(polygon.getSignedDistance(local)) < 0.02) {
+                            continue;
+                        }
+
+                        const point = `polygon ${i}, scale ${JSON.stringify(scale)}, ${x},${y}`;
+                        const inside = polygon.containsPoint(local);
+                        expect(context.isPointInPath(path, x, y)).withContext(point).toBe(inside);
+                        expect(context.isPointInPath(reference, x, y))
+                            .withContext(point)
+                            .toBe(inside);
+                    }
+                }
+            })
+        );
+    });
+
+    it('should throw an error for invalid vertices', () => {
+        const line = [new Vector2(0, 0), new Vector2(1, 1), new Vector2(2, 2)];
+        expect(() => RoundedPolygon.createFromVertices(line)).toThrowError(RoundedPolygonError);
+
+        const points = [new Vector2(0, 0), new Vector2(0, 0), new Vector2(1, 0), new Vector2(1, 0)];
+        expect(() => RoundedPolygon.createFromVertices(points)).toThrowError(RoundedPolygonError);
+
+        const infinite = [new Vector2(0, 0), new Vector2(Infinity, 0), new Vector2(0, 1)];
+        expect(() => RoundedPolygon.createFromVertices(infinite)).toThrowError(RoundedPolygonError);
+    });
+});
@@ -0,0 +1,1231 @@
+import { Matrix2D } from './matrix2d';
+import {
+    ArcSegment,
+    Bounds,
+    CubicSegment,
+    getArcAngles,
+    getSegmentBounds,
+    getSegmentClosestPoint,
+    getSegmentLength,
+    getSegmentMoments,
+    getSegmentParameterAtLength,
+    getSegmentPointAt,
+    getSegmentPolyline,
+    getSegmentTangentAt,
+    getSegmentWinding,
+    isEllipticalArc,
+    RoundedPolygonSegment,
+    SegmentMoments,
+    transformSegment
+} from './rounded-polygon-segment';
+import {
+    createSVGPathData,
+    drawSegmentPath,
+    RoundedPolygonPathOptions
+} from './rounded-polygon-path';
+import { Vector2 } from './vector2';
+
+// helper interface to store the polygon vertex along with its angle
+interface PolygonPoint {
+    vertex: Vector2;
+    angle: number;
+}
+
+// the number of iterations which are used to reduce the radii of overlapping corners
+const MAX_OVERLAP_ITERATIONS = 24;
+
+/**
+ * The radius of a single corner. A number is interpreted as the ratio of the corner
+ * radius to the maximum possible corner radius (number between 0 and 1). An object
+ * with a `radius` property defines an absolute corner radius. Both are clamped to the
+ * maximum possible corner radius so that the arcs of neighbouring corners never overlap.
+ */
+export type CornerRadius = number | { radius: number };
+
+/**
+ * The corner radii of a polygon. Either a single radius which is used for all corners,
+ * a list of radii (which gets repeated if it is shorter than the list of vertices)
+ * or a function which returns the radius for each vertex.
+ */
+export type CornerRadii =
+    | CornerRadius
+    | CornerRadius[]
+    | ((index: number, vertex: Vector2) => CornerRadius);
+
+/**
+ * This interface contains the necessary data to draw an arc element.
+ */
+export interface RoundedPolygonArc {
+    /**
+     * The radius of the arc (the radius along the rotated x axis of elliptical arcs).
+     */
+    radius: number;
+
+    /**
+     * The radius along the rotated y axis of elliptical arcs (only available for transformed
+     * polygons, see {@link RoundedPolygon.transform}).
+     */
+    radiusY?: number;
+
+    /**
+     * The rotation (in radians) of the x axis of elliptical arcs.
+     */
+    rotation?: number;
+
+    /**
+     * The center point of the arc.
+     */
+    center: Vector2;
+
+    /**
+     * The start point of the arc.
+     */
+    p1: Vector2;
+
+    /**
+     * The end point of the arc.
+     */
+    p2: Vector2;
+
+    /**
+     * Reference to the corner point which gets rounded
+     * by this arc.
+     */
+    corner: PolygonPoint;
+
+    /**
+     * This value indicates if the arc should be drawn
+     * clockwise (1) or counter-clockwise (0). See the description
+     * of the svg arc definition for more info.
+     */
+    sweep: number;
+
+    /**
+     * The offset from the original polygon point to the
+     * corner radius along the axis between the corner point
+     * and the arc center point.
+     */
+    offset: number;
+
+    /**
+     * The angle (in radians) which is covered by the arc.
+     */
+    angle: number;
+
+    /**
+     * The transition curve from the previous line to the start point of the
+     * arc (only available for smoothed corners).
+     */
+    entry?: CubicSegment;
+
+    /**
+     * The transition curve from the end point of the arc to the
+     * next line (only available for smoothed corners).
+     */
+    exit?: CubicSegment;
+}
+
+/**
+ * The options of a standalone svg document (see {@link RoundedPolygon.getSVGDocument}).
+ */
+export interface RoundedPolygonSVGOptions {
+    /**
+     * The scale factor which gets applied to all coordinates. Default is 1.
+     */
+    scale?: number;
+
+    /**
+     * The number of decimal values used within the path data. Default is 2.
+     */
+    precision?: number;
+
+    /**
+     * The fill color of the shape. Default is `#000000`.
+     */
+    fill?: string;
+
+    /**
+     * The stroke color of the shape. Default is none.
+     */
+    stroke?: string;
+
+    /**
+     * The width of the stroke (after the scaling). Default is 1 if a stroke color is set.
+     */
+    strokeWidth?: number;
+}
+
+/**
+ * The error which is thrown if a rounded polygon can not be created from the given vertices.
+ */
+export class RoundedPolygonError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RoundedPolygonError';
+        Object.setPrototypeOf(this, RoundedPolygonError.prototype);
+    }
+}
+
+/**
+ * This class takes a list of points and creates a round polygon
+ * shape from it. the order of the points define the edges between them
+ * and the last point gets connected to the first one.
+ * The rounded polygon is represented using arcs and the shape
+ * can be exported as a svg path data string.
+ */
+export class RoundedPolygon {
+    /**
+     * The arc data of the current polygon. These list
+     * only contains the arcs and not the lines between them.
+     */
+    public arcs: RoundedPolygonArc[] = [];
+
+    /**
+     * The problems of the input which have been corrected while processing the current
+     * polygon (e.g. removed duplicate or collinear vertices).
+     */
+    public warnings: string[] = [];
+
+    /**
+     * The corner smoothing of the current polygon (see {@link process}).
+     */
+    public smoothing = 0;
+
+    private points: PolygonPoint[] = [];
+
+    /**
+     * Creates a new rounded polygon from the provided vertices.
+     *
+     * @param vertices The list of vertices which define the polygon.
+     * @param radii The corner radii (ratio of the corner radius to the maximum possible corner radius by default).
+     * @param smoothing The corner smoothing (number between 0 and 1). See {@link process}.
+     */
+    public static createFromVertices(
+        vertices: Vector2[],
+        radii: CornerRadii = 1,
+        smoothing: number = 0
+    ): RoundedPolygon {
+        const poly: RoundedPolygon = new RoundedPolygon();
+        poly.process(vertices, radii, smoothing);
+        return poly;
+    }
+
+    /**
+     * This method clears the current polygon data and creates a new
+     * rounded polygon from the given parameters.
+     *
+     * The corners are rounded with circular arcs by default. A smoothing value greater
+     * than 0 replaces a part of each arc with cubic bézier transitions (similar to the corner
+     * smoothing of figma). The transitions start on the straight edges and meet the arc with
+     * the same curvature, so that there is no visible curvature jump. A value of 1 results in
+     * corners without any circular part.
+     *
+     * The vertices get normalized first: duplicate consecutive vertices are merged, and
+     * vertices without a corner (collinear vertices or spikes where the outline doubles back)
+     * are removed. Each removal is reported within the {@link warnings}. Reflex corners of
+     * concave polygons are rounded on the outside. If the polygon does not intersect itself,
+     * the corner radii get reduced where a rounded corner would overlap other parts of the
+     * outline, so that the resulting outline never intersects itself either.
+     *
+     * @param vertices The list of vertices which define the polygon
+     * @param radii The corner radii (ratio of the corner radius to the maximum possible corner radius by default).
+     * @param smoothing The corner smoothing (number between 0 and 1). Default is 0.
+     * @throws {RoundedPolygonError} If a vertex is not finite or less than three corners remain
+     */
+    public process(vertices: Vector2[], radii: CornerRadii = 1, smoothing: number = 0): void {
+        this.points = [];
+        this.arcs = [];
+        this.warnings = [];
+
+        const { corners, indices } = this.normalizeVertices(vertices);
+        const s = Math.min(1, Math.max(0, smoothing || 0));
+        this.smoothing = s;
+        const cornerRadii = indices.map((index) => this.getCornerRadius(radii, vertices, index));
+
+        // reduce the radii of the corners which overlap other parts of the outline
+        const simple = this.isSimple(corners);
+        if (!simple) {
+            this.warnings.push(
+                'The polygon edges intersect each other, the rounded outline may intersect itself.'
+            );
+        }
+        const limits = corners.map(() => 1);
+        for (let i = 0; i <= MAX_OVERLAP_ITERATIONS; i++) {
+            this.points = [];
+            this.arcs = [];
+            corners.forEach((_, index) =>
+                this.processVertexAt(corners, index, cornerRadii[index], s, limits[index])
+            );
+
+            const overlapping = simple ? this.getOverlappingCorners(corners) : [];
+            if (overlapping.length === 0 || i === MAX_OVERLAP_ITERATIONS) {
+                break;
+            }
+            // remove the rounding of the remaining corners in the last iteration
+            const factor = i < MAX_OVERLAP_ITERATIONS - 1 ? 0.75 : 0;
+            overlapping.forEach((index) => (limits[index] *= factor));
+        }
+        if (limits.some((l) => l < 1)) {
+            this.warnings.push('Some corner radii have been reduced to avoid overlapping corners.');
+        }
+    }
+
+    /**
+     * Returns the outline of the rounded polygon as a list of connected segments
+     * (lines, arcs and the transition curves of smoothed corners), starting at the
+     * beginning of the first corner.
+     */
+    public getSegments(): RoundedPolygonSegment[] {
+        const segments: RoundedPolygonSegment[] = [];
+        this.arcs.forEach((a, i) => {
+            if (a.entry) {
+                segments.push(a.entry);
+            }
+
+            segments.push(this.getArcSegment(a));
+
+            if (a.exit) {
+                segments.push(a.exit);
+            }
+
+            // the line to the beginning of the next corner
+            const next = this.arcs[(i + 1) % this.arcs.length];
+            segments.push({
+                type: 'line',
+                start: a.exit ? a.exit.end : a.p2,
+                end: next.entry ? next.entry.start : next.p1
+            });
+        });
+        return segments;
+    }
+
+    /**
+     * Returns the exact axis aligned bounding box of the rounded polygon outline.
+     */
+    public getBounds(): Bounds {
+        return this.getSegments()
+            .map((s) => getSegmentBounds(s))
+            .reduce((a, b) => ({
+                min: new Vector2(Math.min(a.min.x, b.min.x), Math.min(a.min.y, b.min.y)),
+                max: new Vector2(Math.max(a.max.x, b.max.x), Math.max(a.max.y, b.max.y))
+            }));
+    }
+
+    /**
+     * Returns the enclosed area of the rounded polygon.
+     */
+    public getArea(): number {
+        return Math.abs(this.getMoments().area);
+    }
+
+    /**
+     * Returns the length of the rounded polygon outline.
+     */
+    public getPerimeter(): number {
+        return this.getSegments().reduce((l, s) => l + getSegmentLength(s), 0);
+    }
+
+    /**
+     * Returns the center of mass of the enclosed area.
+     */
+    public getCentroid(): Vector2 {
+        const { area, momentX, momentY } = this.getMoments();
+        if (area === 0) {
+            // fall back to the average of the corner centers for degenerate shapes
+            const sum = this.arcs.reduce((c, a) => Vector2.add(c, a.center), new Vector2(0, 0));
+            return sum.multiplyScalar(1 / Math.max(1, this.arcs.length));
+        }
+        return new Vector2(momentX / area, momentY / area);
+    }
+
+    /**
+     * Returns true if the given point lies inside the rounded polygon (non-zero winding rule).
+     * Points on the outline may be reported as inside or outside.
+     */
+    public containsPoint(point: Vector2): boolean {
+        return this.getSegments().reduce((w, s) => w + getSegmentWinding(s, point), 0) !== 0;
+    }
+
+    /**
+     * Returns the signed distance of the given point to the rounded polygon outline. The
+     * distance is negative for points inside the polygon and positive for points outside.
+     * The distances to the transition curves of smoothed corners and to elliptical corners
+     * (see {@link transform}) are found iteratively (see {@link getSegmentClosestParameter}).
+     */
+    public getSignedDistance(point: Vector2): number {
+        const distance = this.getSegments().reduce(
+            (d, s) =>
+                Math.min(d, Vector2.subtract(getSegmentClosestPoint(s, point), point).length()),
+            Infinity
+        );
+        return this.containsPoint(point) ? -distance : distance;
+    }
+
+    /**
+     * Returns a new rounded polygon which is parallel to the outline of this polygon. A positive
+     * distance moves the outline outwards (outset), a negative distance moves it inwards (inset).
+     *
+     * The arcs keep their centers, so the radii of convex corners grow by the distance and the
+     * radii of reflex corners shrink by it (and vice versa for an inset). Corners whose radius
+     * would drop below zero become sharp corners, which is the exact parallel outline. The
+     * transition curves of smoothed corners are recreated for the new radius. If the distance
+     * exceeds the size of a part of the polygon (e.g. an inset which is larger than the
+     * thickness of the shape or than a narrow gap between two parts of the outline), the outline
+     * collapses and intersects itself, which is reported within the {@link warnings}.
+     *
+     * @param distance The distance between the outlines (in the units of the polygon vertices)
+     * @throws {RoundedPolygonError} If the polygon has elliptical corners (see {@link transform})
+     */
+    public offset(distance: number): RoundedPolygon {
+        if (this.arcs.some((arc) => arc.radiusY !== undefined)) {
+            throw new RoundedPolygonError(
+                'The offset of a rounded polygon with elliptical corners is not supported.'
+            );
+        }
+
+        const poly = new RoundedPolygon();
+        poly.smoothing = this.smoothing;
+        const l = this.arcs.length;
+        if (l === 0 || !distance) {
+            poly.arcs = this.arcs.slice();
+            return poly;
+        }
+
+        // the orientation of the polygon defines the outwards pointing side of the edges
+        const orientation = Math.sign(
+            this.arcs.reduce((a, arc, i) => {
+                const next = this.arcs[(i + 1) % l].corner.vertex;
+                return a + arc.corner.vertex.cross(next);
+            }, 0)
+        );
+        const normal = (from: Vector2, to: Vector2) => {
+            const t = Vector2.normalize(Vector2.subtract(to, from));
+            return new Vector2(t.y, -t.x).multiplyScalar(orientation || 1);
+        };
+
+        poly.arcs = this.arcs.map((arc, i) => {
+            const vP = arc.corner.vertex;
+            const vA = this.arcs[this.getIndex(l, i - 1)].corner.vertex;
+            const vC = this.arcs[(i + 1) % l].corner.vertex;
+            const n1 = normal(vA, vP);
+            const n2 = normal(vP, vC);
+
+            // the corner point of the parallel edges (the miter of the corner)
+            const miter = Vector2.add(n1, n2).multiplyScalar(distance / (1 + n1.dot(n2)));
+            const vP2 = Vector2.add(vP, miter);
+            const corner: PolygonPoint = { vertex: vP2, angle: arc.corner.angle };
+
+            // the center of convex corners lies on the inner side of the outline
+            const convex =
+                Vector2.subtract(vP, vA).cross(Vector2.subtract(vC, vP)) * orientation > 0;
+            const radius = arc.radius + (convex ? distance : -distance);
+            if (radius <= 0) {
+                return {
+                    radius: 0,
+                    center: vP2,
+                    p1: vP2,
+                    p2: vP2,
+                    corner,
+                    sweep: arc.sweep,
+                    offset: 0,
+                    angle: Math.PI - arc.corner.angle
+                };
+            }
+
+            // the tangent points move along the normals of the edges (a sharp corner
+            // becomes an arc around the corner point)
+            const center = arc.radius > 0 ? arc.center : vP;
+            const q = Vector2.subtract(center, vP2).length();
+            const next: RoundedPolygonArc = {
+                radius,
+                center,
+                p1: Vector2.add(center, n1.multiplyScalar(convex ? radius : -radius)),
+                p2: Vector2.add(center, n2.multiplyScalar(convex ? radius : -radius)),
+                corner,
+                sweep: arc.sweep,
+                offset: q - radius,
+                angle: Math.PI - arc.corner.angle
+            };
+
+            if (arc.entry && arc.exit) {
+                // recreate the transitions with the same angle, starting at the parallel
+                // points of the original transitions on the edges
+                const transitionAngle = (next.angle - arc.angle) / 2;
+                const vnPA = Vector2.normalize(Vector2.subtract(vA, vP));
+                const vnPC = Vector2.normalize(Vector2.subtract(vC, vP));
+                const edgeLength = (start: Vector2, n: Vector2, vn: Vector2) =>
+                    Vector2.subtract(Vector2.add(start, n.multiplyScalar(distance)), vP2).dot(vn);
+                const entry = this.calculateTransition(
+                    vP2,
+                    vnPA,
+                    center,
+                    radius,
+                    transitionAngle,
+                    edgeLength(arc.entry.start, n1, vnPA)
+                );
+                const exitReversed = this.calculateTransition(
+                    vP2,
+                    vnPC,
+                    center,
+                    radius,
+                    transitionAngle,
+                    edgeLength(arc.exit.end, n2, vnPC)
+                );
+
+                next.p1 = entry.end;
+                next.p2 = exitReversed.end;
+                next.angle = arc.angle;
+                next.entry = entry;
+                next.exit = {
+                    type: 'cubic',
+                    start: exitReversed.end,
+                    control1: exitReversed.control2,
+                    control2: exitReversed.control1,
+                    end: exitReversed.start
+                };
+            }
+
+            return next;
+        });
+
+        // the lines between the corners flip their direction if the outline collapses (the
+        // lines are compared with the edges, because the lines of the polygon may have no length)
+        const collapsed = poly
+            .getSegments()
+            .filter((s) => s.type === 'line')
+            .some((s, i) => {
+                const a = Vector2.subtract(s.end, s.start);
+                const b = Vector2.subtract(
+                    this.arcs[(i + 1) % l].corner.vertex,
+                    this.arcs[i].corner.vertex
+                );
+                return a.dot(b) < -1e-9 * b.dot(b);
+            });
+        if (collapsed || !poly.isSimple(poly.getOutlinePoints())) {
+            poly.warnings.push(
+                'The offset distance exceeds the size of the polygon, the outline intersects itself.'
+            );
+        }
+
+        return poly;
+    }
+
+    /**
+     * Returns a new rounded polygon with the affine transform applied to its outline, e.g. to
+     * position the shape within a larger svg composition.
+     *
+     * Rotations, translations, reflections and uniform scales keep the corners circular. A skew
+     * or a non-uniform scale turns the arcs into elliptical arcs (see {@link RoundedPolygonArc.radiusY}),
+     * which are exported as elliptical svg arcs with the corresponding radii and rotation. The
+     * {@link offset} and the JSON format are limited to circular corners.
+     *
+     * @example
+     *
+     * const m = Matrix2D.multiply(Matrix2D.translate(120, 40), Matrix2D.skewX(Math.PI / 8));
+     * path.setAttribute('d', polygon.transform(m).getSVGPathData());
+     *
+     * @param matrix The transform matrix
+     */
+    public transform(matrix: Matrix2D): RoundedPolygon {
+        const poly = new RoundedPolygon();
+        poly.smoothing = this.smoothing;
+        const l = this.arcs.length;
+        const vertices = this.arcs.map((arc) => matrix.transformPoint(arc.corner.vertex));
+
+        poly.arcs = this.arcs.map((arc, i) => {
+            const segment = transformSegment(this.getArcSegment(arc), matrix) as ArcSegment;
+
+            // the corner angles change with a skew or a non-uniform scale
+            const vertex = vertices[i];
+            const prev = Vector2.subtract(vertices[this.getIndex(l, i - 1)], vertex);
+            const next = Vector2.subtract(vertices[(i + 1) % l], vertex);
+            const corner: PolygonPoint = { vertex, angle: prev.angle(next) };
+
+            const transformed: RoundedPolygonArc = {
+                radius: segment.radius,
+                center: segment.center,
+                p1: segment.start,
+                p2: segment.end,
+                corner,
+                sweep: segment.sweep,
+                // the distance from the corner point to the middle of the arc
+                offset: Vector2.subtract(getSegmentPointAt(segment, 0.5), vertex).length(),
+                angle: segment.angle
+            };
+            if (isEllipticalArc(segment)) {
+                transformed.radiusY = segment.radiusY;
+                transformed.rotation = segment.rotation;
+            }
+            if (arc.entry && arc.exit) {
+                transformed.entry = transformSegment(arc.entry, matrix) as CubicSegment;
+                transformed.exit = transformSegment(arc.exit, matrix) as CubicSegment;
+            }
+            return transformed;
+        });
+
+        return poly;
+    }
+
+    /**
+     * Returns the point on the outline at the given arc length parameter. The parameter is the
+     * distance along the outline relative to the perimeter, starting at the beginning of
+     * the first corner (0 and 1 refer to the same point, values outside wrap around).
+     *
+     * @param t The relative distance along the outline (number between 0 and 1)
+     */
+    public pointAt(t: number): Vector2 {
+        const { segment, parameter } = this.getSegmentAt(t);
+        return getSegmentPointAt(segment, parameter);
+    }
+
+    /**
+     * Returns the unit tangent vector of the outline (pointing in the direction of travel)
+     * at the given arc length parameter (see {@link pointAt}).
+     *
+     * @param t The relative distance along the outline (number between 0 and 1)
+     */
+    public tangentAt(t: number): Vector2 {
+        const { segment, parameter } = this.getSegmentAt(t);
+        return getSegmentTangentAt(segment, parameter);
+    }
+
+    /**
+     * Flattens the outline into a closed polyline. The arcs and transition curves are
+     * approximated with straight lines, whose distance to the exact outline does not
+     * exceed the given tolerance. The first point is not repeated at the end.
+     *
+     * @param tolerance The maximum chord error (in the units of the polygon vertices)
+     */
+    public toPolyline(tolerance: number = 0.001): Vector2[] {
+        const t = Math.max(tolerance, 1e-9);
+        return this.getSegments().reduce(
+            (points, s) => points.concat(getSegmentPolyline(s, t)),
+            [] as Vector2[]
+        );
+    }
+
+    /**
+     * This method returns an svg path data string which describes
+     * the rounded polygon (lines and arcs).
+     *
+     * @example
+     *
+     * // the smallest possible path data (e.g. for icons)
+     * polygon.getSVGPathData(24, new Vector2(12, 12), 2, {
+     *     relative: true,
+     *     close: true,
+     *     omitZeroLength: true,
+     *     compact: true
+     * });
+     *
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     * @param precision The number of decimal values used within the path data
+     * @param options The formatting options (see {@link RoundedPolygonPathOptions})
+     */
+    public getSVGPathData(
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0),
+        precision: number = 2,
+        options: RoundedPolygonPathOptions = {}
+    ): string {
+        return createSVGPathData([this.getSegments()], scale, translate, precision, options);
+    }
+
+    /**
+     * This method returns a css `shape()` function which describes the rounded polygon. It
+     * can be used as the value of the `clip-path` property. With the `%` unit, the coordinates
+     * are relative to the reference box of the element, so that the shape is responsive.
+     *
+     * @example
+     *
+     * // a shape which fills the reference box of the element
+     * element.style.clipPath = polygon.getCSSShape(100, new Vector2(50, 50), 2, '%');
+     *
+     * @param scale An optional scale factor which gets applied to all coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     * @param precision The number of decimal values used within the coordinates
+     * @param unit The unit of the coordinates (e.g. `px` or `%`)
+     */
+    public getCSSShape(
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0),
+        precision: number = 2,
+        unit: string = 'px'
+    ): string {
+        const s = typeof scale === 'number' ? new Vector2(scale, scale) : scale;
+        const n = (value: number) => `${this.r(value, precision)}${unit}`;
+        const p = (v: Vector2) => `${n(v.x * s.x + translate.x)} ${n(v.y * s.y + translate.y)}`;
+
+        const segments = this.getSegments();
+        const commands = segments.map((seg) => {
+            switch (seg.type) {
+                case 'line':
+                    return `line to ${p(seg.end)}`;
+                case 'arc': {
+                    if (isEllipticalArc(seg)) {
+                        // the axes of elliptical arcs change with the scaling
+                        const arc = transformSegment(seg, Matrix2D.scale(s.x, s.y)) as ArcSegment;
+                        const rotation = this.r(((arc.rotation ?? 0) * 180) / Math.PI, precision);
+                        const radii = `${n(arc.radius)} ${n(arc.radiusY ?? arc.radius)}`;
+                        const direction = arc.sweep ? 'cw' : 'ccw';
+                        return `arc to ${p(
+                            seg.end
+                        )} of ${radii} ${direction} rotate ${rotation}deg`;
+                    }
+
+                    // the percentages of the radii refer to the width and the height
+                    const rx = n(seg.radius * Math.abs(s.x));
+                    const ry = n(seg.radius * Math.abs(s.y));
+                    const sweep = s.x * s.y < 0 ? 1 - seg.sweep : seg.sweep;
+                    return `arc to ${p(seg.end)} of ${rx} ${ry} ${sweep ? 'cw' : 'ccw'}`;
+                }
+                case 'cubic':
+                    return `curve to ${p(seg.end)} with ${p(seg.control1)} / ${p(seg.control2)}`;
+            }
+        });
+
+        return `shape(from ${p(segments[0].start)}, ${commands.join(', ')}, close)`;
+    }
+
+    /**
+     * Returns a standalone svg document of the rounded polygon, e.g. to save it as a `.svg`
+     * file. The view box is the exact bounding box of the (scaled) shape including the stroke.
+     *
+     * @param options See {@link RoundedPolygonSVGOptions}
+     */
+    public getSVGDocument(options: RoundedPolygonSVGOptions = {}): string {
+        const { scale = 1, precision = 2, fill = '#000000', stroke } = options;
+        const strokeWidth = stroke ? options.strokeWidth ?? 1 : 0;
+
+        // the view box contains the bounds and the outer half of the stroke
+        const { min, max } = this.getBounds();
+        const x = Math.min(min.x * scale, max.x * scale) - strokeWidth / 2;
+        const y = Math.min(min.y * scale, max.y * scale) - strokeWidth / 2;
+        const width = Math.abs(max.x - min.x) * scale + strokeWidth;
+        const height = Math.abs(max.y - min.y) * scale + strokeWidth;
+        const viewBox = [x, y, width, height].map((v) => this.r(v, precision)).join(' ');
+
+        // the path gets closed, so that the stroke joins at the start point
+        const d = this.getSVGPathData(scale, new Vector2(0, 0), precision, { close: true });
+        const sw = this.r(strokeWidth, precision);
+        const strokeAttributes = stroke
+            ? ` stroke="${escapeAttribute(stroke)}" stroke-width="${sw}"`
+            : '';
+
+        const size = `width="${this.r(width, precision)}" height="${this.r(height, precision)}"`;
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="${viewBox}">`,
+            `    <path d="${d}" fill="${escapeAttribute(fill)}"${strokeAttributes}/>`,
+            '</svg>',
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Adds the outline of the rounded polygon as a closed sub path to the given canvas path,
+     * which is either a `CanvasRenderingContext2D` or a `Path2D`. The arcs are drawn with
+     * native `arc` and `ellipse` calls, so the shape is exactly the same as the one of the
+     * svg path data.
+     *
+     * @param path The canvas context or Path2D object to draw into
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     */
+    public drawPath(
+        path: CanvasPath,
+        scale: number | Vector2 = 1,
+        translate: Vector2 = new Vector2(0, 0)
+    ): void {
+        drawSegmentPath(path, [this.getSegments()], scale, translate);
+    }
+
+    /**
+     * Creates a `Path2D` object of the rounded polygon, which can be filled, stroked or used
+     * as a clipping region of a canvas context.
+     *
+     * @param scale An optional scale factor which gets applied to all path coordinates (a vector scales the x and y coordinates independently)
+     * @param translate An optional translate transform which gets applied to all coordinates (after the scaling)
+     */
+    public getPath2D(scale: number | Vector2 = 1, translate: Vector2 = new Vector2(0, 0)): Path2D {
+        const path = new Path2D();
+        this.drawPath(path, scale, translate);
+        return path;
+    }
+
+    private getArcSegment(a: RoundedPolygonArc): ArcSegment {
+        const segment: ArcSegment = {
+            type: 'arc',
+            start: a.p1,
+            end: a.p2,
+            center: a.center,
+            radius: a.radius,
+            sweep: a.sweep,
+            angle: a.angle
+        };
+        if (a.radiusY !== undefined) {
+            segment.radiusY = a.radiusY;
+            segment.rotation = a.rotation;
+        }
+        return segment;
+    }
+
+    // returns the segment and its curve parameter at the given arc length parameter
+    private getSegmentAt(t: number): { segment: RoundedPolygonSegment; parameter: number } {
+        const segments = this.getSegments();
+        const lengths = segments.map((s) => getSegmentLength(s));
+        const total = lengths.reduce((a, b) => a + b, 0);
+
+        let length = (t - Math.floor(t)) * total;
+        for (let i = 0; i < segments.length - 1; i++) {
+            if (length <= lengths[i]) {
+                return {
+                    segment: segments[i],
+                    parameter: getSegmentParameterAtLength(segments[i], length)
+                };
+            }
+            length -= lengths[i];
+        }
+
+        const last = segments[segments.length - 1];
+        return { segment: last, parameter: getSegmentParameterAtLength(last, length) };
+    }
+
+    private getMoments(): SegmentMoments {
+        return this.getSegments()
+            .map((s) => getSegmentMoments(s))
+            .reduce(
+                (a, b) => ({
+                    area: a.area + b.area,
+                    momentX: a.momentX + b.momentX,
+                    momentY: a.momentY + b.momentY
+                }),
+                { area: 0, momentX: 0, momentY: 0 }
+            );
+    }
+
+    private processVertexAt(
+        vertices: Vector2[],
+        index: number,
+        radius: CornerRadius,
+        smoothing: number,
+        limit: number = 1
+    ): void {
+        // get the surrounding vertex indices
+        const l = vertices.length;
+        const a: number = this.getIndex(l, index - 2);
+        const b: number = this.getIndex(l, index - 1);
+        const p: number = this.getIndex(l, index - 0);
+        const d: number = this.getIndex(l, index + 1);
+        const e: number = this.getIndex(l, index + 2);
+
+        // calculate the angles of the neighbouring points
+        this.calculateAngleAt(vertices, a, b, p);
+        this.calculateAngleAt(vertices, b, p, d);
+        this.calculateAngleAt(vertices, p, d, e);
+
+        // get the max corner radii of both sides of the vertex
+        const B: PolygonPoint = this.points[b];
+        const P: PolygonPoint = this.points[p];
+        const D: PolygonPoint = this.points[d];
+        const mr1 = this.getMaxCornerRadius(this.points[p], this.points[b]);
+        const mr2 = this.getMaxCornerRadius(this.points[p], this.points[d]);
+        const mr = Math.min(mr1, mr2);
+        const r = (typeof radius === 'number' ? mr * radius : radius.radius) || 0;
+
+        this.calculateArc(B, P, D, Math.min(mr, Math.max(0, r)) * limit, smoothing, mr1, mr2);
+    }
+
+    /**
+     * Merges duplicate consecutive vertices and removes the vertices without a corner
+     * (collinear vertices and spikes). Returns the remaining vertices along with their
+     * indices within the original list.
+     *
+     * @param vertices
+     * @private
+     */
+    private normalizeVertices(vertices: Vector2[]): { corners: Vector2[]; indices: number[] } {
+        const invalid = vertices.findIndex((v) => !v || !isFinite(v.x) || !isFinite(v.y));
+        if (invalid !== -1) {
+            throw new RoundedPolygonError(`The vertex at index ${invalid} is not a finite point.`);
+        }
+
+        // the tolerance is relative to the size of the polygon
+        const size = vertices.reduce((m, v) => Math.max(m, Math.abs(v.x), Math.abs(v.y)), 0);
+        const epsilon = Math.max(size, Number.MIN_VALUE) * 1e-9;
+
+        let indices = vertices.map((_, i) => i);
+        let changed = true;
+        while (changed && indices.length > 0) {
+            changed = false;
+            for (let i = 0; i < indices.length && indices.length > 0; i++) {
+                const l = indices.length;
+                const a = vertices[indices[this.getIndex(l, i - 1)]];
+                const p = vertices[indices[i]];
+                const b = vertices[indices[this.getIndex(l, i + 1)]];
+                const vPA = Vector2.subtract(a, p);
+                const vPB = Vector2.subtract(b, p);
+
+                let reason: string | null = null;
+                if (vPA.length() <= epsilon) {
+                    reason = 'duplicates the previous vertex and has been merged';
+                } else if (
+                    vPB.length() > epsilon &&
+                    Math.abs(Vector2.normalize(vPA).cross(Vector2.normalize(vPB))) <= 1e-9
+                ) {
+                    reason =
+                        vPA.dot(vPB) < 0
+                            ? 'is collinear with its neighbours and has been removed'
+                            : 'is the tip of a spike without area and has been removed';
+                } else {
+                    continue;
+                }
+
+                this.warnings.push(`The vertex at index ${indices[i]} ${reason}.`);
+                indices.splice(i, 1);
+                changed = true;
+                i--;
+            }
+        }
+
+        if (indices.length < 3) {
+            throw new RoundedPolygonError(
+                `A rounded polygon needs at least three corners, but only ${indices.length} remain after removing duplicate and collinear vertices.`
+            );
+        }
+
+        return { corners: indices.map((i) => vertices[i]), indices };
+    }
+
+    /**
+     * Returns the points of the flattened outline without the duplicate points of the sharp
+     * corners. The tolerance is relative to the size of the polygon.
+     *
+     * @private
+     */
+    private getOutlinePoints(): Vector2[] {
+        const vertices = this.arcs.map((arc) => arc.corner.vertex);
+        const xs = vertices.map((v) => v.x);
+        const ys = vertices.map((v) => v.y);
+        const size = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+        const points = this.toPolyline(size * 0.0005);
+        return points.filter(
+            (p, i) => Vector2.subtract(p, points[(i + 1) % points.length]).length() > size * 1e-9
+        );
+    }
+
+    /**
+     * Returns true if none of the polygon edges intersect each other.
+     *
+     * @param vertices
+     * @private
+     */
+    private isSimple(vertices: Vector2[]): boolean {
+        const l = vertices.length;
+        const edge = (i: number) => [vertices[i], vertices[(i + 1) % l]];
+        for (let i = 0; i < l; i++) {
+            // the neighbouring edges share a vertex and are skipped
+            for (let j = i + 2; j < l - (i === 0 ? 1 : 0); j++) {
+                if (this.overlaps(edge(i), edge(j))) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Returns the indices of the corners whose rounded region (the triangle between the corner
+     * point and the start and end of its outline) overlaps another part of the outline. The
+     * rounded outline can only intersect itself, if such an overlap exists.
+     *
+     * @param vertices
+     * @private
+     */
+    private getOverlappingCorners(vertices: Vector2[]): number[] {
+        const l = vertices.length;
+        const regions = this.arcs.map((a) => [
+            a.corner.vertex,
+            a.entry ? a.entry.start : a.p1,
+            a.exit ? a.exit.end : a.p2
+        ]);
+
+        const overlapping = new Set<number>();
+        regions.forEach((region, i) => {
+            // the rounded corners must not touch the edges which do not belong to the corner
+            for (let j = 0; j < l; j++) {
+                if (j === i || j === this.getIndex(l, i - 1)) {
+                    continue;
+                }
+                if (this.overlaps(region, [vertices[j], vertices[(j + 1) % l]])) {
+                    overlapping.add(i);
+                }
+            }
+
+            // neighbouring rounded corners must not overlap each other
+            const next = (i + 1) % l;
+            if (this.overlaps(region, regions[next])) {
+                overlapping.add(i);
+                overlapping.add(next);
+            }
+        });
+
+        return Array.from(overlapping);
+    }
+
+    /**
+     * Returns true if the interiors of the convex polygons (or line segments) A and B overlap,
+     * based on the separating axis theorem. Touching polygons do not overlap.
+     *
+     * @param A
+     * @param B
+     * @private
+     */
+    private overlaps(A: Vector2[], B: Vector2[]): boolean {
+        const points = A.concat(B);
+        const size = points.reduce((m, v) => Math.max(m, Math.abs(v.x), Math.abs(v.y)), 0);
+        const epsilon = size * 1e-9;
+
+        const axes = [A, B].reduce((list, polygon) => {
+            polygon.forEach((p, i) => {
+                const edge = Vector2.subtract(polygon[(i + 1) % polygon.length], p);
+                if (edge.length() > epsilon) {
+                    list.push(Vector2.normalize(new Vector2(-edge.y, edge.x)));
+                }
+            });
+            // collinear line segments are separated along their direction
+            if (
+                polygon.length === 2 &&
+                Vector2.subtract(polygon[1], polygon[0]).length() > epsilon
+            ) {
+                list.push(Vector2.normalize(Vector2.subtract(polygon[1], polygon[0])));
+            }
+            return list;
+        }, [] as Vector2[]);
+
+        return axes.every((axis) => {
+            const a = A.map((p) => p.dot(axis));
+            const b = B.map((p) => p.dot(axis));
+            return (
+                Math.max(...a) > Math.min(...b) + epsilon &&
+                Math.max(...b) > Math.min(...a) + epsilon
+            );
+        });
+    }
+
+    private getCornerRadius(radii: CornerRadii, vertices: Vector2[], index: number): CornerRadius {
+        if (typeof radii === 'function') {
+            return radii(index, vertices[index]);
+        } else if (Array.isArray(radii)) {
+            return radii.length > 0 ? radii[index % radii.length] : 1;
+        }
+        return radii;
+    }
+
+    private getIndex(total: number, index: number): number {
+        const i = index % total;
+        return i < 0 ? i + total : i;
+    }
+
+    /**
+     * Calculates the angle on the vertex at position p.
+     *
+     * @param vertices
+     * @param a
+     * @param p
+     * @param b
+     * @private
+     */
+    private calculateAngleAt(vertices: Vector2[], a: number, p: number, b: number): void {
+        if (!this.points[p]) {
+            const vA: Vector2 = vertices[a];
+            const vP: Vector2 = vertices[p];
+            const vB: Vector2 = vertices[b];
+
+            const vPA: Vector2 = Vector2.subtract(vA, vP);
+            const vPB: Vector2 = Vector2.subtract(vB, vP);
+
+            const angle = vPA.angle(vPB);
+
+            this.points[p] = {
+                vertex: vP,
+                angle
+            };
+        }
+    }
+
+    /**
+     * Calculates the maximal corner radius between the polygon points
+     * A and B.
+     * @param A
+     * @param B
+     * @private
+     */
+    private getMaxCornerRadius(A: PolygonPoint, B: PolygonPoint): number {
+        const s = Vector2.subtract(A.vertex, B.vertex).length();
+        const alpha = A.angle / 2;
+        const beta = B.angle / 2;
+        const gamma = Math.PI - alpha - beta;
+        const r = (s * Math.sin(alpha) * Math.sin(beta)) / Math.sin(gamma);
+        return r;
+    }
+
+    /**
+     * Calculate the arc at the point P between A and B and store it
+     * within the arcs list.
+     *
+     * @param A
+     * @param P
+     * @param C
+     * @param radius
+     * @param smoothing
+     * @param maxRadiusA The max corner radius on the side of A (limits the smoothing transition)
+     * @param maxRadiusC The max corner radius on the side of C (limits the smoothing transition)
+     * @private
+     */
+    private calculateArc(
+        A: PolygonPoint,
+        P: PolygonPoint,
+        C: PolygonPoint,
+        radius: number,
+        smoothing: number = 0,
+        maxRadiusA: number = radius,
+        maxRadiusC: number = radius
+    ): void {
+        const vP: Vector2 = P.vertex;
+        const vPA: Vector2 = Vector2.subtract(A.vertex, vP);
+        const vAP: Vector2 = Vector2.subtract(vP, A.vertex);
+        const vnPA: Vector2 = Vector2.normalize(vPA);
+        const vPC: Vector2 = Vector2.subtract(C.vertex, vP);
+        const vnPC: Vector2 = Vector2.normalize(vPC);
+        // the vector to the center of the arc relative to the corner point P
+        const q = radius / Math.sin(P.angle / 2);
+        const vPQ: Vector2 = Vector2.normalize(Vector2.add(vnPA, vnPC)).multiplyScalar(q);
+
+        // find the tangent points of the arc by projecting the center of the arc to sides of the corner
+        const t1Length = vPQ.dot(vnPA);
+        const vT1: Vector2 = Vector2.add(vP, vnPA.multiplyScalar(t1Length));
+        const t2Length = vPQ.dot(vnPC);
+        const vT2: Vector2 = Vector2.add(vP, vnPC.multiplyScalar(t2Length));
+
+        // find the tangent points of the arc
+        const vQ: Vector2 = Vector2.add(vP, vPQ);
+        const vQT1: Vector2 = Vector2.subtract(vT1, vQ);
+        const vQT2: Vector2 = Vector2.subtract(vT2, vQ);
+
+        const arc: RoundedPolygonArc = {
+            radius,
+            center: vQ,
+            p1: Vector2.add(vQ, vQT1),
+            p2: Vector2.add(vQ, vQT2),
+            corner: P,
+            sweep: vAP.cross(vPC) < 0 ? 0 : 1,
+            offset: q - radius,
+            angle: Math.PI - P.angle
+        };
+
+        if (smoothing > 0 && radius > 0) {
+            // each transition curve replaces this angle of the arc
+            const transitionAngle = (arc.angle * smoothing) / 2;
+            const tanHalfAngle = Math.tan(P.angle / 2);
+            const entry = this.calculateTransition(
+                vP,
+                vnPA,
+                vQ,
+                radius,
+                transitionAngle,
+                Math.min(t1Length * (1 + smoothing), maxRadiusA / tanHalfAngle)
+            );
+            // the exit transition is calculated from the edge to the arc and needs to be reversed
+            const exitReversed = this.calculateTransition(
+                vP,
+                vnPC,
+                vQ,
+                radius,
+                transitionAngle,
+                Math.min(t2Length * (1 + smoothing), maxRadiusC / tanHalfAngle)
+            );
+            const exit: CubicSegment = {
+                type: 'cubic',
+                start: exitReversed.end,
+                control1: exitReversed.control2,
+                control2: exitReversed.control1,
+                end: exitReversed.start
+            };
+
+            arc.p1 = entry.end;
+            arc.p2 = exit.start;
+            arc.angle -= 2 * transitionAngle;
+            arc.entry = entry;
+            arc.exit = exit;
+        }
+
+        this.arcs.push(arc);
+    }
+
+    /**
+     * Calculates the transition curve of a smoothed corner from a point on the
+     * edge of the corner to the trimmed arc.
+     *
+     * @param vP The corner point
+     * @param vnEdge The normalized direction from the corner point along the edge
+     * @param vQ The center of the arc
+     * @param radius The radius of the arc
+     * @param angle The angle of the arc which gets replaced by the transition
+     * @param length The distance from the corner point to the start of the transition on the edge
+     * @private
+     */
+    private calculateTransition(
+        vP: Vector2,
+        vnEdge: Vector2,
+        vQ: Vector2,
+        radius: number,
+        angle: number,
+        length: number
+    ): CubicSegment {
+        // the tangent point of the full arc on the edge and the normal towards the arc center
+        const tangentLength = Vector2.subtract(vQ, vP).dot(vnEdge);
+        const vT: Vector2 = Vector2.add(vP, vnEdge.multiplyScalar(tangentLength));
+        const vnNormal: Vector2 = Vector2.normalize(Vector2.subtract(vQ, vT));
+
+        // the end point of the transition on the arc and the last control point which lies
+        // on the intersection of the arc tangent at that point and the edge
+        const tan = Math.tan(angle / 2);
+        const vEnd: Vector2 = Vector2.add(
+            Vector2.add(vP, vnEdge.multiplyScalar(tangentLength - radius * Math.sin(angle))),
+            vnNormal.multiplyScalar(radius * (1 - Math.cos(angle)))
+        );
+        const c2Length = tangentLength - radius * tan;
+
+        // the distance of the second control point to the third one which results in the
+        // same curvature as the arc at the end point of the transition (the first three points
+        // are collinear, so the curvature is zero at the start on the edge)
+        const start = Math.max(length, tangentLength);
+        const available = start - c2Length;
+        const c1Distance = Math.min(available, 0.75 * radius * tan * (1 + tan * tan));
+        const c1Length = c2Length + c1Distance;
+
+        return {
+            type: 'cubic',
+            start: Vector2.add(vP, vnEdge.multiplyScalar(start)),
+            control1: Vector2.add(vP, vnEdge.multiplyScalar(c1Length)),
+            control2: Vector2.add(vP, vnEdge.multiplyScalar(c2Length)),
+            end: vEnd
+        };
+    }
+
+    private r(value: number, precision: number = 2): number {
+        return Math.round(value * 10 ** precision) / 10 ** precision;
+    }
+}
+
+// escapes the characters which are not allowed within a double quoted xml attribute value
+function escapeAttribute(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,58 @@
+import { Matrix2D } from './matrix2d';
+import { Vector2 } from './vector2';
+
+describe('Vector2', () => {
+    it('should return new vectors from the static methods', () => {
+        const a = new Vector2(1, 2);
+        const b = new Vector2(3, -4);
+
+        expect(Vector2.add(a, b)).toEqual(new Vector2(4, -2));
+        expect(Vector2.subtract(a, b)).toEqual(new Vector2(-2, 6));
+        expect(a.multiplyScalar(2)).toEqual(new Vector2(2, 4));
+        expect(a).toEqual(new Vector2(1, 2));
+        expect(b).toEqual(new Vector2(3, -4));
+    });
+
+    it('should modify the vector with the instance methods', () => {
+        const v = new Vector2(3, 4);
+        v.add(new Vector2(1, 1));
+        expect(v).toEqual(new Vector2(4, 5));
+
+        v.subtract(new Vector2(4, 1));
+        expect(v).toEqual(new Vector2(0, 4));
+
+        v.normalize();
+        expect(v).toEqual(new Vector2(0, 1));
+
+        v.copy(new Vector2(-2, 7));
+        expect(v).toEqual(new Vector2(-2, 7));
+    });
+
+    it('should calculate lengths, products and angles', () => {
+        const a = new Vector2(3, 4);
+        const b = new Vector2(-4, 3);
+
+        expect(a.length()).toBe(5);
+        expect(Vector2.normalize(a).length()).toBeCloseTo(1, 15);
+        expect(a.dot(b)).toBe(0);
+        expect(a.cross(b)).toBe(25);
+        expect(b.cross(a)).toBe(-25);
+        expect(a.angle(b)).toBeCloseTo(Math.PI / 2, 15);
+        expect(a.angle(a.multiplyScalar(3))).toBe(0);
+        expect(a.angle(a.multiplyScalar(-1))).toBeCloseTo(Math.PI, 15);
+    });
+
+    it('should rotate and transform vectors', () => {
+        // positive angles rotate from the y axis towards the x axis
+        const rotated = Vector2.rotate(new Vector2(1, 0), Math.PI / 2);
+        expect(rotated.x).toBeCloseTo(0, 15);
+        expect(rotated.y).toBeCloseTo(-1, 15);
+
+        const matrix = Matrix2D.multiply(Matrix2D.translate(10, 20), Matrix2D.scale(2, 3));
+        expect(Vector2.transform(new Vector2(1, 1), matrix)).toEqual(new Vector2(12, 23));
+
+        const v = new Vector2(1, 1);
+        v.transform(matrix);
+        expect(v).toEqual(new Vector2(12, 23));
+    });
+});
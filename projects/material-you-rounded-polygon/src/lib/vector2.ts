@@ -1,3 +1,5 @@
+import { Matrix2D } from './matrix2d';
+
 /**
  * A minimal 2d vector class (may be easily replaced by other vector implementations).
  */
@@ -53,7 +55,9 @@ export class Vector2 {
     }
 
     public angle(v: Vector2): number {
-        return Math.acos(Vector2.normalize(this).dot(Vector2.normalize(v)));
+        // clamp the cosine to avoid NaN values caused by rounding errors
+        const cos = Vector2.normalize(this).dot(Vector2.normalize(v));
+        return Math.acos(Math.min(1, Math.max(-1, cos)));
     }
 
     public static rotate(v: Vector2, angle: number): Vector2 {
@@ -64,6 +68,14 @@ export class Vector2 {
         return new Vector2(nx, ny);
     }
 
+    public static transform(v: Vector2, m: Matrix2D): Vector2 {
+        return new Vector2(m.a * v.x + m.c * v.y + m.e, m.b * v.x + m.d * v.y + m.f);
+    }
+
+    public transform(m: Matrix2D): void {
+        this.copy(Vector2.transform(this, m));
+    }
+
     public cross(v: Vector2): number {
         return this.x * v.y - this.y * v.x;
     }
@@ -0,0 +1,6 @@
+/*
+ * Public API of the React adapter
+ */
+
+export * from './use-rounded-polygon-clip';
+export * from './rounded-polygon-clip-path';
@@ -0,0 +1,52 @@
+import { createElement, HTMLAttributes, ReactElement } from 'react';
+import { RoundedPolygonClipShape } from '../lib/rounded-polygon-clip';
+import { RoundedPolygonClipHookOptions, useRoundedPolygonClip } from './use-rounded-polygon-clip';
+
+/**
+ * The properties of the {@link RoundedPolygonClipPath} component.
+ */
+export interface RoundedPolygonClipPathProps
+    extends RoundedPolygonClipHookOptions,
+        HTMLAttributes<HTMLElement> {
+    /**
+     * The name of a preset shape or a (partial) configuration.
+     */
+    shape: RoundedPolygonClipShape;
+
+    /**
+     * The tag name of the rendered element. Default is `div`.
+     */
+    as?: string;
+}
+
+/**
+ * A component which clips its children with a rounded polygon (see {@link useRoundedPolygonClip}).
+ *
+ * @example
+ *
+ * <RoundedPolygonClipPath shape="clover-4" fit="contain" className="avatar">
+ *     <img src="https://picsum.photos/id/1081/400/400" />
+ * </RoundedPolygonClipPath>
+ */
+export function RoundedPolygonClipPath(props: RoundedPolygonClipPathProps): ReactElement {
+    const {
+        shape,
+        fit,
+        mode,
+        morphDuration,
+        morphEasing,
+        morphProgress,
+        as = 'div',
+        children,
+        ...attributes
+    } = props;
+    const ref = useRoundedPolygonClip<HTMLElement>(shape, {
+        fit,
+        mode,
+        morphDuration,
+        morphEasing,
+        morphProgress
+    });
+
+    return createElement(as, { ...attributes, ref }, children);
+}
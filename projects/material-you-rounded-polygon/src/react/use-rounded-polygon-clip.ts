@@ -0,0 +1,106 @@
+import { RefObject, useEffect, useLayoutEffect, useRef } from 'react';
+import { EasingFunction } from '../lib/easing';
+import {
+    RoundedPolygonClip,
+    RoundedPolygonClipMode,
+    RoundedPolygonClipShape
+} from '../lib/rounded-polygon-clip';
+import { RoundedPolygonFit } from '../lib/rounded-polygon-shape';
+
+/**
+ * The options of the {@link useRoundedPolygonClip} hook, which correspond to the
+ * properties of the {@link RoundedPolygonClip}.
+ */
+export interface RoundedPolygonClipHookOptions {
+    fit?: RoundedPolygonFit;
+    mode?: RoundedPolygonClipMode;
+    morphDuration?: number;
+    morphEasing?: EasingFunction;
+    morphProgress?: number | null;
+}
+
+// layout effects are not executed during server side rendering and cause a warning
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
+
+/**
+ * Clips the referenced element with a rounded polygon. It is the React adapter of the
+ * {@link RoundedPolygonClip}. The shape morphs whenever its value changes, the shape
+ * objects are compared by their content.
+ *
+ * @example
+ *
+ * function Avatar() {
+ *     const ref = useRoundedPolygonClip<HTMLDivElement>('cookie-8', { fit: 'contain' });
+ *     return <div ref={ref}><img src="https://picsum.photos/id/1081/400/400" /></div>;
+ * }
+ *
+ * @param shape The name of a preset shape or a (partial) configuration
+ * @param options See {@link RoundedPolygonClipHookOptions}
+ */
+export function useRoundedPolygonClip<T extends HTMLElement>(
+    shape: RoundedPolygonClipShape,
+    options: RoundedPolygonClipHookOptions = {}
+): RefObject<T> {
+    const ref = useRef<T>(null);
+    const clip = useRef<RoundedPolygonClip | null>(null);
+    const {
+        fit = 'bounding-box',
+        mode = 'svg',
+        morphDuration = 300,
+        morphEasing,
+        morphProgress = null
+    } = options;
+
+    // create the clip path when the element is mounted
+    useIsomorphicLayoutEffect(() => {
+        if (!ref.current) {
+            return;
+        }
+        const instance = new RoundedPolygonClip(ref.current);
+        clip.current = instance;
+        return () => {
+            instance.destroy();
+            clip.current = null;
+        };
+    }, []);
+
+    // the options are applied before the shape, so that the initial shape uses them
+    useIsomorphicLayoutEffect(() => {
+        if (clip.current) {
+            clip.current.fit = fit;
+        }
+    }, [fit]);
+
+    useIsomorphicLayoutEffect(() => {
+        if (clip.current) {
+            clip.current.mode = mode;
+        }
+    }, [mode]);
+
+    useIsomorphicLayoutEffect(() => {
+        if (clip.current) {
+            clip.current.morphDuration = morphDuration;
+            if (morphEasing) {
+                clip.current.morphEasing = morphEasing;
+            }
+        }
+    }, [morphDuration, morphEasing]);
+
+    // compare the shapes by their content, vertex generators are compared by their identity
+    const shapeKey = typeof shape === 'string' ? shape : JSON.stringify(shape);
+    const vertexGenerator =
+        typeof shape === 'object' && typeof shape.vertices === 'function' ? shape.vertices : null;
+    useIsomorphicLayoutEffect(() => {
+        if (clip.current) {
+            clip.current.shape = shape;
+        }
+    }, [shapeKey, vertexGenerator]);
+
+    useIsomorphicLayoutEffect(() => {
+        if (clip.current) {
+            clip.current.morphProgress = morphProgress;
+        }
+    }, [morphProgress]);
+
+    return ref;
+}
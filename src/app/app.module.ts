@@ -3,9 +3,16 @@ import { BrowserModule } from '@angular/platform-browser';
 
 import { AppComponent } from './app.component';
 import { RoundedPolygonClipPathDirective } from './rounded-polygon-clip-path/rounded-polygon-clip-path.directive';
+import { RoundedPolygonOutlineDirective } from './rounded-polygon-outline/rounded-polygon-outline.directive';
+import { ShapeEditorComponent } from './shape-editor/shape-editor.component';
 
 @NgModule({
-    declarations: [AppComponent, RoundedPolygonClipPathDirective],
+    declarations: [
+        AppComponent,
+        RoundedPolygonClipPathDirective,
+        RoundedPolygonOutlineDirective,
+        ShapeEditorComponent
+    ],
     imports: [BrowserModule],
     providers: [],
     bootstrap: [AppComponent]
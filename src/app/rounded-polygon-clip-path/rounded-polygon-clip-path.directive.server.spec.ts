@@ -0,0 +1,81 @@
+import { Component, destroyPlatform, NgModule } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { BrowserModule } from '@angular/platform-browser';
+import {
+    BrowserDynamicTestingModule,
+    platformBrowserDynamicTesting
+} from '@angular/platform-browser-dynamic/testing';
+import { renderModule, ServerModule } from '@angular/platform-server';
+import {
+    createRoundedPolygonShape,
+    resolveRoundedPolygonConfig,
+    RoundedPolygonClipShape,
+    Vector2
+} from 'material-you-rounded-polygon';
+import { of } from 'rxjs';
+import { RoundedPolygonClipPathDirective } from './rounded-polygon-clip-path.directive';
+
+@Component({
+    selector: 'app-server-root',
+    template: `<div [appRoundedPolygonClipPath]="shape$"></div>`
+})
+class ServerRootComponent {
+    // the second shape would start a morph in the browser
+    shape$ = of<RoundedPolygonClipShape>('circle', 'cookie-8');
+}
+
+@NgModule({
+    declarations: [ServerRootComponent, RoundedPolygonClipPathDirective],
+    imports: [BrowserModule.withServerTransition({ appId: 'rounded-polygon' }), ServerModule],
+    bootstrap: [ServerRootComponent]
+})
+class ServerTestModule {}
+
+describe('RoundedPolygonClipPathDirective server side rendering', () => {
+    // the server platform replaces the dom types of the global scope (e.g. `Node`) with the
+    // types of its own dom implementation
+    let globals: PropertyDescriptorMap;
+
+    // only one platform may exist at a time, so the testing platform is replaced by the
+    // server platform of the render call
+    beforeAll(() => {
+        globals = Object.getOwnPropertyDescriptors(window);
+        TestBed.resetTestEnvironment();
+        destroyPlatform();
+    });
+
+    // the new testing platform also restores the dom adapter of the browser
+    afterAll(() => {
+        destroyPlatform();
+        Object.keys(Object.getOwnPropertyDescriptors(window)).forEach((name) => {
+            const descriptor = globals[name];
+            if (!descriptor) {
+                delete (window as any)[name];
+            } else if ('value' in descriptor && (window as any)[name] !== descriptor.value) {
+                Object.defineProperty(window, name, descriptor);
+            }
+        });
+        TestBed.initTestEnvironment(BrowserDynamicTestingModule, platformBrowserDynamicTesting(), {
+            teardown: { destroyAfterEach: true }
+        });
+    });
+
+    it('should render the clip path on the server', async () => {
+        const html = await renderModule(ServerTestModule, {
+            document: '<app-server-root></app-server-root>'
+        });
+        const document = new DOMParser().parseFromString(html, 'text/html');
+        const host = document.querySelector('app-server-root > div') as HTMLElement;
+        // the shape is defined once within the shared svg of the registry
+        const clipPath = document.querySelector('body > svg clipPath') as SVGClipPathElement;
+        const path = clipPath.querySelector('path') as SVGPathElement;
+
+        // the path of the bounding box units
+        const polygon = createRoundedPolygonShape(resolveRoundedPolygonConfig('cookie-8'));
+        const d = polygon.getSVGPathData(1, new Vector2(0.5, 0.5), 4);
+
+        expect(host.getAttribute('style')).toContain(`url(#${clipPath.id})`);
+        expect(clipPath.getAttribute('clipPathUnits')).toBe('objectBoundingBox');
+        expect(path.getAttribute('d')).toBe(d);
+    });
+});
@@ -0,0 +1,97 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { resolveRoundedPolygonConfig } from 'material-you-rounded-polygon';
+import {
+    RoundedPolygonClipPathDirective,
+    RoundedPolygonShapeStates
+} from './rounded-polygon-clip-path.directive';
+
+@Component({
+    template: `<button
+        appRoundedPolygonClipPath="circle"
+        [shapeStates]="states"
+        [attr.aria-pressed]="selected"
+    ></button>`
+})
+class StatesTestComponent {
+    states: RoundedPolygonShapeStates = {
+        hover: 'cookie-8',
+        pressed: 'square',
+        selected: 'clover-4'
+    };
+    selected = false;
+}
+
+describe('RoundedPolygonClipPathDirective states', () => {
+    let fixture: ComponentFixture<StatesTestComponent>;
+    let directive: RoundedPolygonClipPathDirective;
+    let host: HTMLElement;
+
+    beforeEach(async () => {
+        await TestBed.configureTestingModule({
+            declarations: [StatesTestComponent, RoundedPolygonClipPathDirective]
+        }).compileComponents();
+
+        fixture = TestBed.createComponent(StatesTestComponent);
+        fixture.detectChanges();
+        const element = fixture.debugElement.query(By.directive(RoundedPolygonClipPathDirective));
+        directive = element.injector.get(RoundedPolygonClipPathDirective);
+        host = element.nativeElement;
+    });
+
+    it('should follow the pointer states', () => {
+        host.dispatchEvent(new PointerEvent('pointerenter', { pointerType: 'mouse' }));
+        expect(directive.state).toBe('hover');
+        expect(directive.clip.config).toEqual(resolveRoundedPolygonConfig('cookie-8'));
+
+        host.dispatchEvent(new PointerEvent('pointerdown', { pointerType: 'mouse', button: 0 }));
+        expect(directive.state).toBe('pressed');
+
+        host.dispatchEvent(new PointerEvent('pointerup', { pointerType: 'mouse' }));
+        expect(directive.state).toBe('hover');
+
+        host.dispatchEvent(new PointerEvent('pointerleave', { pointerType: 'mouse' }));
+        expect(directive.state).toBe('rest');
+        expect(directive.clip.config).toEqual(resolveRoundedPolygonConfig('circle'));
+    });
+
+    it('should follow the keyboard activation of the host', () => {
+        host.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+        expect(directive.state).toBe('pressed');
+
+        // the key events of other keys and of descendants do not release the host
+        host.dispatchEvent(new KeyboardEvent('keyup', { key: 'Shift', bubbles: true }));
+        expect(directive.state).toBe('pressed');
+
+        const child = document.createElement('span');
+        host.appendChild(child);
+        child.dispatchEvent(new KeyboardEvent('keyup', { key: 'Enter', bubbles: true }));
+        expect(directive.state).toBe('pressed');
+
+        host.dispatchEvent(new KeyboardEvent('keyup', { key: 'Enter', bubbles: true }));
+        expect(directive.state).toBe('rest');
+    });
+
+    it('should follow the aria state', async () => {
+        fixture.componentInstance.selected = true;
+        fixture.detectChanges();
+        // the attribute changes are observed asynchronously (the mutation records are
+        // delivered after the microtasks of the zone, so the test waits for the next task)
+        await new Promise((resolve) => setTimeout(resolve));
+
+        expect(directive.state).toBe('selected');
+
+        host.dispatchEvent(new PointerEvent('pointerdown', { pointerType: 'touch', button: 0 }));
+        expect(directive.state).toBe('pressed');
+    });
+
+    it('should not animate the state changes for reduced motion', () => {
+        spyOn(window, 'matchMedia').and.returnValue({ matches: true } as MediaQueryList);
+
+        host.dispatchEvent(new PointerEvent('pointerdown', { pointerType: 'touch', button: 0 }));
+
+        expect(directive.state).toBe('pressed');
+        expect(directive.clip.visibleShape).toBe(directive.clip.polygon);
+    });
+});
@@ -1,171 +1,509 @@
-import { Directive, ElementRef, Input, Renderer2 } from '@angular/core';
-import { RoundedPolygon } from './util/rounded-polygon';
-import { Vector2 } from './util/vector2';
+import { isPlatformServer } from '@angular/common';
+import {
+    Directive,
+    ElementRef,
+    Inject,
+    Input,
+    isDevMode,
+    NgZone,
+    OnChanges,
+    OnDestroy,
+    PLATFORM_ID,
+    Renderer2,
+    SimpleChanges
+} from '@angular/core';
+import {
+    EasingFunction,
+    resolveRoundedPolygonConfig,
+    RoundedPolygonClip,
+    RoundedPolygonClipMode,
+    RoundedPolygonClipShape,
+    RoundedPolygonConfig,
+    RoundedPolygonFit
+} from 'material-you-rounded-polygon';
+import { isObservable, Observable, Subscription } from 'rxjs';
+import { RoundedPolygonShapeRegistryService } from './rounded-polygon-shape-registry.service';
+
+// the configuration fields which are available as individual inputs
+const FIELD_INPUTS = [
+    'cornerCount',
+    'innerRadiusRatio',
+    'cornerRadius',
+    'outerRadius',
+    'tilt'
+] as const;
 
 /**
- * The configuration settings for the rounded polygon directive input.
+ * The interaction states of the host element, which can have their own shapes.
  */
-export interface RoundedPolygonConfig {
-    /**
-     * Number of corners
-     */
-    cornerCount: number;
-
-    /**
-     * The outer radius of the polygon (number between 0 and 1). Default is 1 which is
-     * equal to 100% of the available space.
-     */
-    outerRadius: number;
-
-    /**
-     * The ratio of the inner radius to the outer radius of the
-     * polygon (number between 0 and 1). A value of 1 will result in
-     * a convex polygon. Default is 0.5.
-     */
-    innerRadiusRatio: number;
-
-    /**
-     * The radius of the corners (number between 0 and 1). Whe set to 1,
-     * the maximal possible corner radius depending on the corner angle
-     * will be used. Default is 1.
-     */
-    cornerRadius: number;
-
-    /**
-     * The rotation of the polygon in degrees. Default is 0.
-     */
-    tilt: number;
-}
+export type RoundedPolygonShapeState =
+    | 'rest'
+    | 'hover'
+    | 'pressed'
+    | 'focused'
+    | 'selected'
+    | 'disabled';
 
 /**
- * The default configuration object.
+ * The shapes of the interaction states. States without a shape keep the shape of the
+ * next active state.
  */
-export const DEFAULT_ROUNDED_POLYGON_CONFIG: RoundedPolygonConfig = {
-    cornerCount: 4,
-    outerRadius: 1,
-    innerRadiusRatio: 0.4,
-    cornerRadius: 1,
-    tilt: 0
-};
+export type RoundedPolygonShapeStates = Partial<
+    Record<RoundedPolygonShapeState, RoundedPolygonClipShape>
+>;
+
+// the states ordered by their precedence, if more than one of them is active
+const STATE_PRECEDENCE: RoundedPolygonShapeState[] = [
+    'disabled',
+    'pressed',
+    'selected',
+    'focused',
+    'hover'
+];
 
+// the attributes which reflect the selected and the disabled state of the host
+const SELECTED_ATTRIBUTES = ['aria-pressed', 'aria-selected', 'aria-checked'];
+const DISABLED_ATTRIBUTES = ['disabled', 'aria-disabled'];
 
 /**
  * This directive draws a rounded svg polygon which gets applied
  * as a clip-path to the hosting element.
+ * It is the Angular adapter of the {@link RoundedPolygonClip} from the framework
+ * independent `material-you-rounded-polygon` library.
  *
  * @example
  *
  * <div [appRoundedPolygonClipPath]="{ cornerCount:3, innerRadiusRatio: 0.45, cornerRadius:0.7, tilt:270 }">
  *      <img src="https://picsum.photos/id/1081/400/400">
  * </div>
+ *
+ * Instead of a configuration object, the name of a preset shape may be used (see
+ * {@link ROUNDED_POLYGON_PRESETS}).
+ *
+ * @example
+ *
+ * <button appRoundedPolygonClipPath="cookie-8">Cookie</button>
+ *
+ * Custom outlines can be defined by a list of vertices in normalized coordinates
+ * (within the unit circle) or by a function which generates the vertices.
+ *
+ * @example
+ *
+ * <div [appRoundedPolygonClipPath]="{ vertices: [[-0.8, -0.6], [0.8, -0.6], [0.8, 0.3], [0, 0.9]], cornerRadius: 0.4 }">
+ *      <img src="https://picsum.photos/id/1081/400/400">
+ * </div>
+ *
+ * When the configuration changes, the directive morphs from the previous to the
+ * new shape. The animation can be configured with the `morphDuration` and `morphEasing`
+ * inputs or driven manually by the `morphProgress` input.
+ *
+ * @example
+ *
+ * <div [appRoundedPolygonClipPath]="config" [morphProgress]="sliderValue">
+ *      <img src="https://picsum.photos/id/1081/400/400">
+ * </div>
+ *
+ * By default, the clip path is stretched to the bounding box of the host element. For
+ * hosts which are not square, the `fit` input generates the shape in pixel space, so that
+ * the corners stay circular. The shape is updated whenever the host gets resized.
+ *
+ * @example
+ *
+ * <div class="banner" appRoundedPolygonClipPath="pill" fit="stretch"></div>
+ *
+ * Concentric shapes are created with the `inset` and `outset` options (in pixels), e.g. a
+ * focus ring which surrounds an element with the same shape.
+ *
+ * @example
+ *
+ * <div class="focus-ring" [appRoundedPolygonClipPath]="{ cornerCount: 8, innerRadiusRatio: 0.82, outset: 4 }"></div>
+ *
+ * The `mode` input applies the shape as a css `path()` or `shape()` function instead of
+ * an svg clip path, which also works within the shadow dom. Unsupported modes fall back
+ * to the svg clip path.
+ *
+ * @example
+ *
+ * <div appRoundedPolygonClipPath="cookie-8" mode="shape"></div>
+ *
+ * The fields of the configuration can also be bound individually. These inputs override
+ * the corresponding fields of the configuration (or the preset), so that a shape can be
+ * driven by single values (e.g. sliders) without creating new configuration objects.
+ *
+ * @example
+ *
+ * <div appRoundedPolygonClipPath="cookie-8" [cornerCount]="count" [tilt]="angle"></div>
+ *
+ * The configuration may also be an observable, whose values are applied as they are emitted.
+ *
+ * @example
+ *
+ * <div [appRoundedPolygonClipPath]="config$"></div>
+ *
+ * The `shapeStates` input assigns shapes to the interaction states of the host. The
+ * directive follows the pointer, the (keyboard) focus and the `aria-pressed`,
+ * `aria-selected`, `aria-checked`, `aria-disabled` and `disabled` attributes of the host and
+ * morphs to the shape of the active state. If more than one state is active, the precedence
+ * is disabled, pressed, selected, focused and hover. The `rest` shape defaults to the shape
+ * of the `appRoundedPolygonClipPath` input. If the user prefers reduced motion, the state
+ * changes are not animated.
+ *
+ * @example
+ *
+ * <button appRoundedPolygonClipPath="circle"
+ *         [shapeStates]="{ hover: 'cookie-8', pressed: 'square', selected: 'clover-4' }"
+ *         [attr.aria-pressed]="selected"></button>
+ *
+ * Identical shapes of all instances share the same svg clip path of the
+ * {@link RoundedPolygonShapeRegistryService}, while the morphs and the pixel space sizing
+ * modes use a clip path of their own.
+ *
+ * All dom operations use the `Renderer2`, so that the clip path is part of the server side
+ * rendered html. On the server, the shapes are not animated and the pixel space sizing
+ * modes are stretched to the bounding box until the host is measured in the browser.
  */
 @Directive({
     selector: '[appRoundedPolygonClipPath]'
 })
-export class RoundedPolygonClipPathDirective {
-    // this static variable is necessary for applying unique ids to the svg clip paths
-    private static _instanceCount = 0;
+export class RoundedPolygonClipPathDirective implements OnChanges, OnDestroy {
+    /**
+     * The name of a preset shape, a (partial) configuration or an observable of them. The
+     * attribute without a value results in the default shape.
+     */
+    @Input() appRoundedPolygonClipPath:
+        | RoundedPolygonClipShape
+        | Observable<RoundedPolygonClipShape>
+        | ''
+        | null = null;
+
+    /**
+     * Overrides the number of corners of the configuration.
+     */
+    @Input() cornerCount?: number;
+
+    /**
+     * Overrides the ratio of the inner radius to the outer radius of the configuration.
+     */
+    @Input() innerRadiusRatio?: number;
+
+    /**
+     * Overrides the corner radius of the configuration.
+     */
+    @Input() cornerRadius?: number;
+
+    /**
+     * Overrides the outer radius of the configuration.
+     */
+    @Input() outerRadius?: number;
+
+    /**
+     * Overrides the rotation (in degrees) of the configuration.
+     */
+    @Input() tilt?: number;
+
+    /**
+     * The shapes of the interaction states of the host (see {@link RoundedPolygonShapeState}).
+     */
+    @Input() shapeStates: RoundedPolygonShapeStates | null = null;
+
+    // the framework independent implementation of the clip path
+    private readonly _clip: RoundedPolygonClip;
+
+    // the latest shape of the shape input (or of its observable)
+    private _shape: RoundedPolygonClipShape | null = null;
+
+    private _subscription: Subscription | null = null;
+
+    // the morph duration of the input, which is suspended for reduced motion
+    private _morphDuration = 300;
 
-    private _config: RoundedPolygonConfig = {
-        ...DEFAULT_ROUNDED_POLYGON_CONFIG
-    };
+    // the currently active interaction states of the host
+    private readonly _activeStates = new Set<RoundedPolygonShapeState>();
+
+    private _state: RoundedPolygonShapeState = 'rest';
+
+    // removes the event listeners and the attribute observer of the interaction states
+    private _unlisten: (() => void) | null = null;
+
+    // the morphs are not animated during server side rendering
+    private readonly _server: boolean;
+
+    /**
+     * The clip path controller of the host element (e.g. to follow its shape).
+     */
+    get clip(): RoundedPolygonClip {
+        return this._clip;
+    }
 
-    private _viewportSize = 1;
+    /**
+     * The interaction state whose shape is currently applied.
+     */
+    get state(): RoundedPolygonShapeState {
+        return this._state;
+    }
 
+    /**
+     * The duration of the morph between two shapes in milliseconds. A value
+     * of 0 disables the animation. Default is 300.
+     */
     @Input()
-    set appRoundedPolygonClipPath(value: RoundedPolygonConfig | any) {
-        // overwrite the default configuration
-        this._config = { ...DEFAULT_ROUNDED_POLYGON_CONFIG, ...value };
-        // clamp values to valid ranges
-        this._config.cornerCount = Math.max(3, this._config.cornerCount);
-        this._config.outerRadius = Math.min(1, Math.max(0, this._config.outerRadius));
-        this._config.innerRadiusRatio = Math.min(1, Math.max(0, this._config.innerRadiusRatio));
-        this._config.tilt = Math.min(360, Math.max(0, this._config.tilt));
-        this._config.cornerRadius = Math.min(1, Math.max(0, this._config.cornerRadius));
-
-        this.drawSvgBackground();
-    }
-
-    constructor(private hostElementRef: ElementRef, private renderer: Renderer2) {}
-
-    private drawSvgBackground(): void {
-        // generate the rounded polygon svg path commands
-        const path: string = this.createShapePath();
-        // create the svg markup
-        const v2 = this._viewportSize / 2;
-        const id: string = `rounded-polygon-clip-path-${RoundedPolygonClipPathDirective._instanceCount++}`;
-        const svg: string = `
-            <svg    xmlns='http://www.w3.org/2000/svg' 
-                    width='0' height='0'
-                    viewBox='${-v2} ${-v2} ${this._viewportSize} ${this._viewportSize}'>
-                <defs>
-                    <clipPath id="${id}" clipPathUnits="objectBoundingBox">
-                        <path fill="#FFFFFF" stroke="#000000" d='${path}'/>
-                    </clipPath>
-                </defs>
-            </svg>`;
-
-        // append the svg clip path to the host element
-        const frag = document.createRange().createContextualFragment(svg);
-        this.renderer.appendChild(this.hostElementRef.nativeElement, frag);
-
-        // apply the clip path to the host element
-        this.renderer.setStyle(this.hostElementRef.nativeElement, 'clip-path', `url(#${id})`);
-    }
-
-    private createShapePath(): string {
-        // prepare the parameters for the shape construction
-        const maxRadius = this._viewportSize / 2;
-        const outerRadius = this._config.outerRadius * maxRadius;
-        const innerRadius = this._config.outerRadius * this._config.innerRadiusRatio * maxRadius;
-        const tilt = this._config.tilt * (Math.PI / 180);
-
-        // construct the star polygon with just the corner points
-        const path: string = this.createStarPolygon(
-            this._config.cornerCount,
-            outerRadius,
-            innerRadius,
-            tilt
+    set morphDuration(value: number) {
+        this._morphDuration = value;
+        this._clip.morphDuration = this._server ? 0 : value;
+    }
+
+    /**
+     * The easing function of the morph animation. Default is the material standard easing.
+     */
+    @Input()
+    set morphEasing(value: EasingFunction) {
+        this._clip.morphEasing = value;
+    }
+
+    /**
+     * Manually controls the progress (number between 0 and 1) of the morph from the previous
+     * to the current shape. While this value is set, the automatic animation is disabled.
+     */
+    @Input()
+    set morphProgress(value: number | null) {
+        this._clip.morphProgress = value;
+    }
+
+    /**
+     * The sizing mode of the clip path (see {@link RoundedPolygonFit}). Default is `bounding-box`.
+     */
+    @Input()
+    set fit(value: RoundedPolygonFit) {
+        this._clip.fit = value;
+    }
+
+    /**
+     * The output mode of the clip path (see {@link RoundedPolygonClipMode}). Default is `svg`.
+     */
+    @Input()
+    set mode(value: RoundedPolygonClipMode) {
+        this._clip.mode = value;
+    }
+
+    constructor(
+        private hostElementRef: ElementRef,
+        private renderer: Renderer2,
+        private ngZone: NgZone,
+        registry: RoundedPolygonShapeRegistryService,
+        @Inject(PLATFORM_ID) platformId: Object
+    ) {
+        this._server = isPlatformServer(platformId);
+        this._clip = new RoundedPolygonClip(this.hostElementRef.nativeElement, {
+            renderer: this.renderer,
+            runOutside: (callback) => this.ngZone.runOutsideAngular(callback),
+            registry,
+            // report the corrections of the input vertices during development
+            onWarning: isDevMode()
+                ? (message) => console.warn(`[appRoundedPolygonClipPath] ${message}`)
+                : undefined
+        });
+
+        if (this._server) {
+            this._clip.morphDuration = 0;
+        }
+    }
+
+    ngOnChanges(changes: SimpleChanges): void {
+        if (changes.shapeStates) {
+            this.updateStateListeners();
+        }
+
+        if (changes.appRoundedPolygonClipPath) {
+            this.unsubscribe();
+
+            const value = this.appRoundedPolygonClipPath;
+            if (isObservable(value)) {
+                // the emitted shapes are applied immediately
+                this._subscription = value.subscribe((shape) => {
+                    this._shape = shape;
+                    this.updateShape();
+                });
+                return;
+            }
+            this._shape = value || null;
+        }
+
+        if (
+            changes.appRoundedPolygonClipPath ||
+            changes.shapeStates ||
+            FIELD_INPUTS.some((key) => changes[key])
+        ) {
+            this.updateShape();
+        }
+    }
+
+    ngOnDestroy(): void {
+        this.unsubscribe();
+        this.stopStateListeners();
+        this._clip.destroy();
+    }
+
+    // applies the field inputs on top of the shape of the current state
+    private updateShape(): void {
+        this._state = this.getState();
+        const shape = this.shapeStates?.[this._state] || this._shape;
+
+        const fields: Partial<RoundedPolygonConfig> = {};
+        FIELD_INPUTS.forEach((key) => {
+            const value = this[key];
+            if (value !== undefined && value !== null) {
+                fields[key] = value;
+            }
+        });
+
+        this._clip.shape =
+            Object.keys(fields).length > 0
+                ? { ...resolveRoundedPolygonConfig(shape), ...fields }
+                : shape ?? {};
+    }
+
+    // returns the active state with the highest precedence, which has a shape
+    private getState(): RoundedPolygonShapeState {
+        const states = this.shapeStates;
+        if (!states) {
+            return 'rest';
+        }
+        return (
+            STATE_PRECEDENCE.find((state) => this._activeStates.has(state) && states[state]) ??
+            'rest'
         );
+    }
 
-        return path;
-    }
-
-    private createStarPolygon(
-        corners: number,
-        outerRadius: number,
-        innerRadius: number,
-        tilt: number
-    ): string {
-        // create the basic polygon vertices which than can be rounded
-        const vertices: Vector2[] = [];
-        const numPoints = corners * 2;
-        const gamma = (2 * Math.PI) / numPoints;
-
-        let angle = tilt;
-        for (let i = 0; i < numPoints; i++) {
-            const radius = i % 2 ? innerRadius : outerRadius;
-            const rx = Math.cos(angle) * radius;
-            const ry = Math.sin(angle) * radius;
-            let v = new Vector2(rx, ry);
-            vertices.push(v);
-
-            angle += gamma;
+    private setStateActive(state: RoundedPolygonShapeState, active: boolean): void {
+        if (this._activeStates.has(state) === active) {
+            return;
         }
+        if (active) {
+            this._activeStates.add(state);
+        } else {
+            this._activeStates.delete(state);
+        }
+
+        if (this.getState() !== this._state) {
+            // the state changes jump to the new shape if the user prefers reduced motion
+            this._clip.morphDuration = this.prefersReducedMotion() ? 0 : this._morphDuration;
+            this.updateShape();
+            this._clip.morphDuration = this._morphDuration;
+        }
+    }
+
+    // follows the interaction states of the host while there are state shapes
+    private updateStateListeners(): void {
+        const states = this.shapeStates;
+        if (this._server || !states || Object.keys(states).length === 0) {
+            this.stopStateListeners();
+            return;
+        }
+        if (this._unlisten) {
+            return;
+        }
+
+        const host: HTMLElement = this.hostElementRef.nativeElement;
+        const listen = <T extends Event>(name: string, callback: (event: T) => void) =>
+            this.renderer.listen(host, name, callback);
+
+        // the states do not affect any bindings, so that they are tracked outside of angular
+        this.ngZone.runOutsideAngular(() => {
+            const listeners = [
+                listen<PointerEvent>('pointerenter', (event) => {
+                    // touch pointers do not hover
+                    if (event.pointerType !== 'touch') {
+                        this.setStateActive('hover', true);
+                    }
+                }),
+                listen<PointerEvent>('pointerleave', () => {
+                    this.setStateActive('pressed', false);
+                    this.setStateActive('hover', false);
+                }),
+                listen<PointerEvent>('pointerdown', (event) => {
+                    if (event.button === 0) {
+                        this.setStateActive('pressed', true);
+                    }
+                }),
+                listen<PointerEvent>('pointerup', () => this.setStateActive('pressed', false)),
+                listen<PointerEvent>('pointercancel', () => this.setStateActive('pressed', false)),
+                listen<KeyboardEvent>('keydown', (event) => {
+                    if (event.target === host && (event.key === ' ' || event.key === 'Enter')) {
+                        this.setStateActive('pressed', true);
+                    }
+                }),
+                listen<KeyboardEvent>('keyup', (event) => {
+                    if (event.target === host && (event.key === ' ' || event.key === 'Enter')) {
+                        this.setStateActive('pressed', false);
+                    }
+                }),
+                listen<FocusEvent>('focusin', (event) => {
+                    this.setStateActive('focused', isFocusVisible(event.target as Element));
+                }),
+                listen<FocusEvent>('focusout', (event) => {
+                    // the focus may move to another descendant of the host
+                    if (!host.contains(event.relatedTarget as Node | null)) {
+                        this.setStateActive('focused', false);
+                    }
+                })
+            ];
+
+            const updateAttributeStates = () => {
+                this.setStateActive(
+                    'selected',
+                    SELECTED_ATTRIBUTES.some((name) => host.getAttribute(name) === 'true')
+                );
+                this.setStateActive(
+                    'disabled',
+                    host.hasAttribute('disabled') || host.getAttribute('aria-disabled') === 'true'
+                );
+            };
+            const observer =
+                typeof MutationObserver === 'function'
+                    ? new MutationObserver(updateAttributeStates)
+                    : null;
+            observer?.observe(host, {
+                attributes: true,
+                attributeFilter: [...SELECTED_ATTRIBUTES, ...DISABLED_ATTRIBUTES]
+            });
+            updateAttributeStates();
 
-        // create the rounded polygon from the vertices
-        const rp: RoundedPolygon = RoundedPolygon.createFromVertices(
-            vertices,
-            this._config.cornerRadius
+            this._unlisten = () => {
+                listeners.forEach((unlisten) => unlisten());
+                observer?.disconnect();
+            };
+        });
+    }
+
+    private stopStateListeners(): void {
+        if (this._unlisten) {
+            this._unlisten();
+            this._unlisten = null;
+        }
+        this._activeStates.clear();
+    }
+
+    private prefersReducedMotion(): boolean {
+        return (
+            typeof matchMedia === 'function' &&
+            matchMedia('(prefers-reduced-motion: reduce)').matches
         );
+    }
 
-        // find the largest offset value to compensate the size reduction
-        // caused by the rounded corners
-        const offset = rp.arcs.reduce((m, a) => Math.max(m, a.offset), 0);
-        const vp2 = this._viewportSize / 2;
-        let scale = offset !== 0 ? vp2 / (vp2 - offset) : 1;
-        scale *= 0.99; // just a little spacing
+    private unsubscribe(): void {
+        if (this._subscription) {
+            this._subscription.unsubscribe();
+            this._subscription = null;
+        }
+    }
+}
 
-        return rp.getSVGPathData(scale, new Vector2(vp2, vp2), 4);
+// only the keyboard focus changes the shape, not the focus of a click
+function isFocusVisible(element: Element): boolean {
+    try {
+        return element.matches(':focus-visible');
+    } catch {
+        // browsers without the pseudo class show the focus of every element
+        return true;
     }
 }
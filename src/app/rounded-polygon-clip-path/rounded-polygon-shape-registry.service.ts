@@ -0,0 +1,47 @@
+import { DOCUMENT } from '@angular/common';
+import { APP_ID, Inject, Injectable, RendererFactory2, RendererStyleFlags2 } from '@angular/core';
+import { RoundedPolygonShapeRegistry } from 'material-you-rounded-polygon';
+
+/**
+ * The registry of the shared svg clip paths of the document (see
+ * {@link RoundedPolygonShapeRegistry}). All instances of the clip path directive, which
+ * use an identical shape, reference the same `<clipPath>` element.
+ *
+ * The shapes can also be defined as css custom properties, so that plain css can use
+ * them without the directive. The ids of the clip paths are derived from the application
+ * id, so that the browser adopts the clip paths of the server side rendering.
+ *
+ * @example
+ *
+ * constructor(registry: RoundedPolygonShapeRegistryService) {
+ *     registry.defineCustomProperties({ cookie: 'cookie-8', avatar: { cornerCount: 5 } });
+ * }
+ *
+ * .card { clip-path: var(--m3-shape-cookie); }
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RoundedPolygonShapeRegistryService extends RoundedPolygonShapeRegistry {
+    constructor(
+        @Inject(DOCUMENT) document: Document,
+        @Inject(APP_ID) appId: string,
+        rendererFactory: RendererFactory2
+    ) {
+        const renderer = rendererFactory.createRenderer(null, null);
+        super(document, {
+            appId,
+            renderer: {
+                createElement: (name, namespace) => renderer.createElement(name, namespace),
+                setAttribute: (element, name, value) => renderer.setAttribute(element, name, value),
+                appendChild: (parent, child) => renderer.appendChild(parent, child),
+                removeChild: (parent, child) => renderer.removeChild(parent, child),
+                // the dash case flag is required for the custom properties
+                setStyle: (element, style, value) =>
+                    renderer.setStyle(element, style, value, RendererStyleFlags2.DashCase),
+                removeStyle: (element, style) =>
+                    renderer.removeStyle(element, style, RendererStyleFlags2.DashCase)
+            }
+        });
+    }
+}
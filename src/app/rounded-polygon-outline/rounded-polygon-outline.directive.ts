@@ -0,0 +1,122 @@
+import {
+    ContentChild,
+    Directive,
+    ElementRef,
+    Input,
+    isDevMode,
+    NgZone,
+    OnDestroy,
+    Optional,
+    Renderer2,
+    Self
+} from '@angular/core';
+import {
+    RoundedPolygonOutline,
+    RoundedPolygonShadow,
+    RoundedPolygonStrokeAlign
+} from 'material-you-rounded-polygon';
+import { RoundedPolygonClipPathDirective } from '../rounded-polygon-clip-path/rounded-polygon-clip-path.directive';
+
+/**
+ * This directive draws the stroke and the drop shadow of a rounded polygon clip path, which
+ * can not be part of the clip path itself. It is the Angular adapter of the
+ * {@link RoundedPolygonOutline}.
+ *
+ * The directive follows the shape of the {@link RoundedPolygonClipPathDirective} within its
+ * content (including the morphs). The host should be a wrapper with the same size as the
+ * clipped element, so that the outer parts of the outline are not clipped.
+ *
+ * @example
+ *
+ * <span class="button-frame" appRoundedPolygonOutline [strokeWidth]="1" strokeAlign="outer" [shadow]="{ y: 1, blur: 3 }">
+ *      <button appRoundedPolygonClipPath="cookie-8">Cookie</button>
+ * </span>
+ *
+ * If the directive is applied to the clipped element itself, it follows the clip path of
+ * that element. Then only the parts inside of the clip path are visible (e.g. an inner stroke).
+ *
+ * @example
+ *
+ * <button appRoundedPolygonClipPath="cookie-8" appRoundedPolygonOutline [strokeWidth]="2">Cookie</button>
+ */
+@Directive({
+    selector: '[appRoundedPolygonOutline]'
+})
+export class RoundedPolygonOutlineDirective implements OnDestroy {
+    // the framework independent implementation of the outline
+    private readonly _outline: RoundedPolygonOutline;
+
+    /**
+     * The clip path within the content of the host element whose shape gets outlined.
+     */
+    @ContentChild(RoundedPolygonClipPathDirective)
+    set contentClipPath(value: RoundedPolygonClipPathDirective | undefined) {
+        if (!this.hostClipPath) {
+            this._outline.source = value ? value.clip : null;
+        }
+    }
+
+    /**
+     * The width of the stroke in pixels. A value of 0 disables the stroke (default).
+     */
+    @Input()
+    set strokeWidth(value: number) {
+        this._outline.strokeWidth = value;
+    }
+
+    /**
+     * The color of the stroke. Default is `currentColor`.
+     */
+    @Input()
+    set strokeColor(value: string) {
+        this._outline.strokeColor = value;
+    }
+
+    /**
+     * The alignment of the stroke (see {@link RoundedPolygonStrokeAlign}). Default is `inner`.
+     */
+    @Input()
+    set strokeAlign(value: RoundedPolygonStrokeAlign) {
+        this._outline.strokeAlign = value;
+    }
+
+    /**
+     * The drop shadow of the shape (see {@link RoundedPolygonShadow}). Default is null.
+     */
+    @Input()
+    set shadow(value: RoundedPolygonShadow | null) {
+        this._outline.shadow = value;
+    }
+
+    /**
+     * Defines if the outline is drawn above or below the content. Default is `above`.
+     */
+    @Input()
+    set layer(value: 'above' | 'below') {
+        this._outline.layer = value;
+    }
+
+    constructor(
+        private hostElementRef: ElementRef,
+        private renderer: Renderer2,
+        private ngZone: NgZone,
+        @Optional() @Self() private hostClipPath: RoundedPolygonClipPathDirective | null
+    ) {
+        this._outline = new RoundedPolygonOutline(this.hostElementRef.nativeElement, {
+            renderer: this.renderer,
+            runOutside: (callback) => this.ngZone.runOutsideAngular(callback),
+            // report the collapsed outlines during development
+            onWarning: isDevMode()
+                ? (message) => console.warn(`[appRoundedPolygonOutline] ${message}`)
+                : undefined
+        });
+
+        if (this.hostClipPath) {
+            this._outline.source = this.hostClipPath.clip;
+        }
+    }
+
+    ngOnDestroy(): void {
+        this._outline.destroy();
+    }
+}
@@ -0,0 +1,111 @@
+import { RoundedPolygon, Vector2 } from 'material-you-rounded-polygon';
+import { ShapeEditorComponent } from './shape-editor.component';
+
+describe('ShapeEditorComponent', () => {
+    let editor: ShapeEditorComponent;
+
+    // the private helpers of the editor
+    const getVertexScale = () => editor['getVertexScale']();
+    const getFitted = () => editor['_fitted'] as RoundedPolygon;
+
+    // places the pointer of the next mouse event at the given position of the canvas
+    const pointAt = (point: Vector2) => spyOn<any>(editor, 'toCanvas').and.returnValue(point);
+
+    beforeEach(() => {
+        editor = new ShapeEditorComponent();
+        editor.setField('tilt', 30);
+        editor.setField('innerCornerRadius', 0.5);
+        editor.convertToCustom();
+    });
+
+    it('should convert the star polygon into a custom polygon', () => {
+        const star = new ShapeEditorComponent();
+        star.setField('tilt', 30);
+        star.setField('innerCornerRadius', 0.5);
+        const corners = (star['_fitted'] as RoundedPolygon).arcs.map((a) => a.corner.vertex);
+
+        expect(editor.custom).toBeTrue();
+        expect(editor.config.vertices?.length).toBe(8);
+        expect(editor.config.cornerRadii).toEqual([1, 0.5, 1, 0.5, 1, 0.5, 1, 0.5]);
+
+        // the vertices are rounded, the tilt of the configuration is kept
+        getFitted().arcs.forEach((a, i) => {
+            expect(a.corner.vertex.x).toBeCloseTo(corners[i].x, 2);
+            expect(a.corner.vertex.y).toBeCloseTo(corners[i].y, 2);
+        });
+
+        editor.convertToStar();
+        expect(editor.custom).toBeFalse();
+        expect(editor.config.cornerRadii).toBeUndefined();
+    });
+
+    it('should place the handles on the corners of the fitted polygon', () => {
+        const expectHandlesOnCorners = (context: string) => {
+            const arcs = getFitted().arcs;
+            expect(getVertexScale()).withContext(context).toBeGreaterThan(0);
+            expect(editor.handles.length).withContext(context).toBe(arcs.length);
+            editor.handles.forEach((handle, i) => {
+                expect(handle.x).withContext(context).toBeCloseTo(arcs[i].corner.vertex.x, 9);
+                expect(handle.y).withContext(context).toBeCloseTo(arcs[i].corner.vertex.y, 9);
+            });
+        };
+
+        expectHandlesOnCorners('custom');
+        editor.setField('outerRadius', 0.5);
+        expectHandlesOnCorners('outer radius');
+        editor.setField('inset', 16);
+        expectHandlesOnCorners('inset');
+    });
+
+    it('should map the canvas positions back to the vertices', () => {
+        const scale = getVertexScale();
+        (editor.config.vertices as [number, number][]).forEach((v) => {
+            const vertex = editor['toVertex'](editor['toCanvasVertex'](v, scale), scale);
+            expect(vertex[0]).toBeCloseTo(v[0], 9);
+            expect(vertex[1]).toBeCloseTo(v[1], 9);
+        });
+
+        const point = new Vector2(0.123, -0.234);
+        const vertex = editor['toVertex'](point, scale);
+        const mapped = editor['toCanvasVertex'](vertex, scale);
+        expect(mapped.x).toBeCloseTo(point.x, 3);
+        expect(mapped.y).toBeCloseTo(point.y, 3);
+    });
+
+    it('should keep the corner radii in sync with the vertices', () => {
+        editor.setCornerRadius(2, 0.25);
+        const radii = editor.config.cornerRadii?.slice() as number[];
+
+        // the vertex gets inserted into the nearest edge with the default corner radius
+        const point = Vector2.add(editor.handles[0], editor.handles[1]).multiplyScalar(0.5);
+        pointAt(point);
+        editor.addVertex(new MouseEvent('dblclick'));
+
+        expect(editor.config.vertices?.length).toBe(9);
+        expect(editor.config.cornerRadii).toEqual([
+            radii[0],
+            editor.config.cornerRadius,
+            ...radii.slice(1)
+        ]);
+        // the vertices are rounded to three decimals
+        expect(editor.handles[1].x).toBeCloseTo(point.x, 2);
+        expect(editor.handles[1].y).toBeCloseTo(point.y, 2);
+        expect(editor.getCornerRadius(3)).toBe(0.25);
+
+        editor.removeVertex(new MouseEvent('dblclick'), 3);
+        expect(editor.config.vertices?.length).toBe(8);
+        expect(editor.config.cornerRadii).toEqual([
+            radii[0],
+            editor.config.cornerRadius,
+            ...radii.slice(1).filter((_, i) => i !== 1)
+        ]);
+
+        // the polygon keeps at least three vertices
+        while ((editor.config.vertices as [number, number][]).length > 3) {
+            editor.removeVertex(new MouseEvent('dblclick'), 0);
+        }
+        editor.removeVertex(new MouseEvent('dblclick'), 0);
+        expect(editor.config.vertices?.length).toBe(3);
+        expect(editor.config.cornerRadii?.length).toBe(3);
+    });
+});
@@ -0,0 +1,422 @@
+import { Component } from '@angular/core';
+import {
+    CornerRadius,
+    createRoundedPolygonShape,
+    createStarVertices,
+    DEFAULT_ROUNDED_POLYGON_CONFIG,
+    resolveRoundedPolygonConfig,
+    RoundedPolygon,
+    RoundedPolygonArc,
+    RoundedPolygonConfig,
+    RoundedPolygonPresetName,
+    ROUNDED_POLYGON_PRESETS,
+    Vector2
+} from 'material-you-rounded-polygon';
+
+/**
+ * The numeric configuration fields which are edited with a slider.
+ */
+type NumericField =
+    | 'cornerCount'
+    | 'outerRadius'
+    | 'innerRadiusRatio'
+    | 'cornerRadius'
+    | 'outerCornerRadius'
+    | 'innerCornerRadius'
+    | 'cornerSmoothing'
+    | 'tilt'
+    | 'inset'
+    | 'outset';
+
+interface Slider {
+    field: NumericField;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+
+    // the star fields are not available for custom polygons
+    star?: boolean;
+}
+
+/**
+ * The editable configuration, the custom vertices are always stored as normalized tuples.
+ */
+type EditorConfig = Omit<RoundedPolygonConfig, 'vertices'> & { vertices?: [number, number][] };
+
+/**
+ * The visualization of a corner arc (see {@link RoundedPolygonArc}).
+ */
+interface ArcMarker {
+    arc: RoundedPolygonArc;
+
+    // the end of the offset along the axis from the corner point to the arc center
+    offsetEnd: Vector2;
+}
+
+// the size of the preview (in pixels), which is used for the pixel distances
+const PREVIEW_SIZE = 240;
+
+// the duration of the morph between presets, the slider changes are applied immediately
+const PRESET_MORPH_DURATION = 300;
+
+/**
+ * An interactive editor for rounded polygon shapes. The configuration is edited with
+ * sliders (or by dragging the vertices of custom polygons) and the result can be copied as
+ * a configuration, an svg path or a css clip path.
+ *
+ * Custom vertices are added by a double click on the canvas and removed by a double click
+ * on the vertex.
+ */
+@Component({
+    selector: 'app-shape-editor',
+    templateUrl: './shape-editor.component.html',
+    styleUrls: ['./shape-editor.component.scss']
+})
+export class ShapeEditorComponent {
+    readonly presets = Object.keys(ROUNDED_POLYGON_PRESETS) as RoundedPolygonPresetName[];
+
+    readonly sliders: Slider[] = [
+        { field: 'cornerCount', label: 'Corners', min: 3, max: 16, step: 1, star: true },
+        { field: 'outerRadius', label: 'Outer radius', min: 0, max: 1, step: 0.01 },
+        {
+            field: 'innerRadiusRatio',
+            label: 'Inner radius ratio',
+            min: 0,
+            max: 1,
+            step: 0.01,
+            star: true
+        },
+        { field: 'cornerRadius', label: 'Corner radius', min: 0, max: 1, step: 0.01 },
+        {
+            field: 'outerCornerRadius',
+            label: 'Outer corner radius',
+            min: 0,
+            max: 1,
+            step: 0.01,
+            star: true
+        },
+        {
+            field: 'innerCornerRadius',
+            label: 'Inner corner radius',
+            min: 0,
+            max: 1,
+            step: 0.01,
+            star: true
+        },
+        { field: 'cornerSmoothing', label: 'Corner smoothing', min: 0, max: 1, step: 0.01 },
+        { field: 'tilt', label: 'Tilt', min: 0, max: 360, step: 1 },
+        { field: 'inset', label: 'Inset (px)', min: 0, max: 32, step: 0.5 },
+        { field: 'outset', label: 'Outset (px)', min: 0, max: 32, step: 0.5 }
+    ];
+
+    readonly previewSize = PREVIEW_SIZE;
+
+    config: EditorConfig = toEditorConfig(DEFAULT_ROUNDED_POLYGON_CONFIG);
+
+    morphDuration = PRESET_MORPH_DURATION;
+
+    preset: RoundedPolygonPresetName | '' = '';
+
+    // the shape of the configuration in the unit viewport (as used by the clip path)
+    polygon: RoundedPolygon | null = null;
+
+    arcs: ArcMarker[] = [];
+
+    // the positions of the custom vertices within the unit viewport
+    handles: Vector2[] = [];
+
+    // the outline of the polygon before the rounding
+    corners = '';
+
+    path = '';
+
+    error = '';
+
+    copied = '';
+
+    // the shape without the inset and outset, which is used to place the vertices
+    private _fitted: RoundedPolygon | null = null;
+
+    // the scale of the vertices while they are dragged
+    private _dragIndex: number | null = null;
+    private _dragScale = 1;
+
+    constructor() {
+        this.update();
+    }
+
+    get custom(): boolean {
+        return !!this.config.vertices;
+    }
+
+    selectPreset(name: RoundedPolygonPresetName | ''): void {
+        this.preset = name;
+        const preset = name ? ROUNDED_POLYGON_PRESETS[name] : {};
+
+        this.morphDuration = PRESET_MORPH_DURATION;
+        this.setConfig(toEditorConfig(resolveRoundedPolygonConfig(preset)));
+    }
+
+    setField(field: NumericField, value: string | number): void {
+        this.morphDuration = 0;
+        this.setConfig({ ...this.config, [field]: Number(value) });
+    }
+
+    setCornerRadius(index: number, value: string | number): void {
+        const count = this.config.vertices ? this.config.vertices.length : 0;
+        const radii = [...Array(count)].map((_, i) => this.getCornerRadiusAt(i));
+        radii[index] = Number(value);
+
+        this.morphDuration = 0;
+        this.setConfig({ ...this.config, cornerRadii: radii });
+    }
+
+    /**
+     * Returns the ratio of a corner radius, the absolute radii (e.g. of a configuration which
+     * has not been created by the editor) are shown as the full ratio.
+     */
+    getCornerRadius(index: number): number {
+        const radius = this.getCornerRadiusAt(index);
+        return typeof radius === 'number' ? radius : 1;
+    }
+
+    /**
+     * Converts the star polygon into a custom polygon with the same vertices.
+     */
+    convertToCustom(): void {
+        const { cornerCount, innerRadiusRatio, outerCornerRadius, innerCornerRadius } = this.config;
+        const vertices = createStarVertices(cornerCount, 1, innerRadiusRatio, 0);
+        const radii = vertices.map((_, i) =>
+            i % 2 ? innerCornerRadius ?? 1 : outerCornerRadius ?? 1
+        );
+
+        this.morphDuration = 0;
+        this.setConfig({
+            ...this.config,
+            vertices: vertices.map((v) => [round(v.x), round(v.y)]),
+            cornerRadii: radii
+        });
+    }
+
+    convertToStar(): void {
+        const config: EditorConfig = { ...this.config };
+        delete config.vertices;
+        delete config.cornerRadii;
+
+        this.morphDuration = PRESET_MORPH_DURATION;
+        this.setConfig(config);
+    }
+
+    startDrag(event: PointerEvent, index: number): void {
+        event.preventDefault();
+        (event.target as Element).setPointerCapture(event.pointerId);
+        this._dragIndex = index;
+        this._dragScale = this.getVertexScale();
+        this.morphDuration = 0;
+    }
+
+    drag(event: PointerEvent): void {
+        if (this._dragIndex === null || !this.config.vertices) {
+            return;
+        }
+
+        const vertices = this.config.vertices.slice();
+        vertices[this._dragIndex] = this.toVertex(this.toCanvas(event), this._dragScale);
+        this.setConfig({ ...this.config, vertices });
+    }
+
+    endDrag(): void {
+        this._dragIndex = null;
+    }
+
+    /**
+     * Inserts a vertex at the given position into the nearest edge.
+     */
+    addVertex(event: MouseEvent): void {
+        if (!this.config.vertices || this.handles.length === 0) {
+            return;
+        }
+
+        const point = this.toCanvas(event);
+        const l = this.handles.length;
+        const distances = this.handles.map((a, i) =>
+            distanceToSegment(point, a, this.handles[(i + 1) % l])
+        );
+        const index = distances.indexOf(Math.min(...distances)) + 1;
+
+        const vertices = this.config.vertices.slice();
+        vertices.splice(index, 0, this.toVertex(point, this.getVertexScale()));
+        const radii = this.config.cornerRadii ? this.config.cornerRadii.slice() : undefined;
+        if (radii) {
+            radii.splice(index, 0, this.config.cornerRadius);
+        }
+
+        this.morphDuration = 0;
+        this.setConfig({ ...this.config, vertices, cornerRadii: radii });
+    }
+
+    removeVertex(event: MouseEvent, index: number): void {
+        event.stopPropagation();
+        if (!this.config.vertices || this.config.vertices.length <= 3) {
+            return;
+        }
+
+        const vertices = this.config.vertices.filter((_, i) => i !== index);
+        const radii = this.config.cornerRadii
+            ? this.config.cornerRadii.filter((_, i) => i !== index)
+            : undefined;
+
+        this.morphDuration = 0;
+        this.setConfig({ ...this.config, vertices, cornerRadii: radii });
+    }
+
+    copy(type: 'config' | 'svg' | 'css'): void {
+        if (!this.polygon) {
+            return;
+        }
+
+        let text: string;
+        if (type === 'config') {
+            text = JSON.stringify(this.config, null, 4);
+        } else if (type === 'svg') {
+            // the minified path of a 100 x 100 viewbox
+            text = this.polygon.getSVGPathData(100, new Vector2(50, 50), 2, {
+                relative: true,
+                close: true,
+                omitZeroLength: true,
+                compact: true
+            });
+        } else {
+            // the css shape with percentages is responsive
+            text = `clip-path: ${this.polygon.getCSSShape(100, new Vector2(50, 50), 2, '%')};`;
+        }
+
+        const clipboard = typeof navigator !== 'undefined' ? navigator.clipboard : undefined;
+        if (!clipboard) {
+            this.copied = 'The clipboard is not available.';
+            return;
+        }
+        clipboard.writeText(text).then(
+            () => (this.copied = `Copied the ${type === 'config' ? 'configuration' : type}.`),
+            () => (this.copied = 'The clipboard access has been denied.')
+        );
+    }
+
+    trackByIndex(index: number): number {
+        return index;
+    }
+
+    // the absolute radii are kept when another corner is changed
+    private getCornerRadiusAt(index: number): CornerRadius {
+        const radii = this.config.cornerRadii;
+        return radii && radii.length > 0 ? radii[index % radii.length] : this.config.cornerRadius;
+    }
+
+    private setConfig(config: EditorConfig): void {
+        this.config = config;
+        this.copied = '';
+        this.update();
+    }
+
+    // updates the visualization of the current configuration
+    private update(): void {
+        try {
+            const config = resolveRoundedPolygonConfig(this.config);
+            const size = new Vector2(PREVIEW_SIZE, PREVIEW_SIZE);
+            this._fitted = createRoundedPolygonShape(config);
+            this.polygon = createRoundedPolygonShape(config, 'bounding-box', size);
+            this.error = this.polygon.warnings.join(' ');
+        } catch (e) {
+            this._fitted = null;
+            this.polygon = null;
+            this.error = (e as Error).message;
+        }
+
+        const arcs = this.polygon ? this.polygon.arcs : [];
+        this.path = this.polygon ? this.polygon.getSVGPathData(1, new Vector2(0, 0), 4) : '';
+        this.corners = arcs.map((a) => `${a.corner.vertex.x},${a.corner.vertex.y}`).join(' ');
+        this.arcs = arcs.map((arc) => {
+            const axis = Vector2.normalize(Vector2.subtract(arc.center, arc.corner.vertex));
+            return {
+                arc,
+                offsetEnd: Vector2.add(arc.corner.vertex, axis.multiplyScalar(arc.offset))
+            };
+        });
+
+        const scale = this.getVertexScale();
+        this.handles = (this.config.vertices || []).map((v) => this.toCanvasVertex(v, scale));
+    }
+
+    // returns the scale of the fitted polygon relative to the configured vertices
+    private getVertexScale(): number {
+        if (!this._fitted || !this.config.vertices) {
+            return 1;
+        }
+
+        // the corner points of the polygon before the fitting
+        try {
+            const vertices = this.config.vertices.map((v) => this.toCanvasVertex(v, 1));
+            const unfitted = RoundedPolygon.createFromVertices(vertices, 0);
+            const length = (p: RoundedPolygon) =>
+                p.arcs.reduce((l, a) => l + a.corner.vertex.length(), 0);
+            const scale = length(this._fitted) / length(unfitted);
+            return isFinite(scale) && scale > 0 ? scale : 1;
+        } catch (e) {
+            return 1;
+        }
+    }
+
+    // maps a normalized vertex of the configuration to the unit viewport
+    private toCanvasVertex(vertex: [number, number], scale: number): Vector2 {
+        const tilt = this.config.tilt * (Math.PI / 180);
+        return Vector2.rotate(new Vector2(vertex[0], vertex[1]), -tilt).multiplyScalar(
+            this.config.outerRadius * 0.5 * scale
+        );
+    }
+
+    // maps a point of the unit viewport to a normalized vertex of the configuration
+    private toVertex(point: Vector2, scale: number): [number, number] {
+        const tilt = this.config.tilt * (Math.PI / 180);
+        const radius = Math.max(this.config.outerRadius * 0.5 * scale, 1e-6);
+        const v = Vector2.rotate(point.multiplyScalar(1 / radius), tilt);
+        return [round(v.x), round(v.y)];
+    }
+
+    // returns the position of the pointer within the unit viewport of the canvas
+    private toCanvas(event: MouseEvent): Vector2 {
+        const target = event.currentTarget as Element;
+        const svg = (target.closest('svg') || target) as SVGSVGElement;
+        const matrix = svg.getScreenCTM();
+        if (!matrix) {
+            return new Vector2(0, 0);
+        }
+
+        const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+        return new Vector2(point.x, point.y);
+    }
+}
+
+// converts the custom vertices of a configuration into normalized tuples (the vertex
+// generators are not editable)
+function toEditorConfig({ vertices, ...config }: RoundedPolygonConfig): EditorConfig {
+    return Array.isArray(vertices)
+        ? {
+              ...config,
+              vertices: vertices.map((v) => (v instanceof Vector2 ? [v.x, v.y] : [v[0], v[1]]))
+          }
+        : config;
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+function distanceToSegment(p: Vector2, a: Vector2, b: Vector2): number {
+    const ab = Vector2.subtract(b, a);
+    const t = Math.min(
+        1,
+        Math.max(0, Vector2.subtract(p, a).dot(ab) / Math.max(ab.dot(ab), 1e-12))
+    );
+    return Vector2.subtract(p, Vector2.add(a, ab.multiplyScalar(t))).length();
+}
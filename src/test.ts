@@ -21,7 +21,9 @@ getTestBed().initTestEnvironment(
   { teardown: { destroyAfterEach: true }},
 );
 
-// Then we find all the tests.
+// Then we find all the tests (including the tests of the core library and its adapters).
 const context = require.context('./', true, /\.spec\.ts$/);
+const libraryContext = require.context('../projects/material-you-rounded-polygon/src', true, /\.spec\.ts$/);
 // And load the modules.
 context.keys().map(context);
+libraryContext.keys().map(libraryContext);